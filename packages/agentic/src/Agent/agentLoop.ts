@@ -12,8 +12,13 @@ import {
 } from 'arvo-core';
 import { v4 } from 'uuid';
 import type z from 'zod';
-import type { AgentInternalTool } from '../AgentTool/types.js';
-import type { AgentLLMIntegration, AgentLLMIntegrationParam } from '../Integrations/types.js';
+import type { AgentInternalTool, AgentToolExecutionPolicy } from '../AgentTool/types.js';
+import type {
+  AgentLLMIntegration,
+  AgentLLMIntegrationOutput,
+  AgentLLMIntegrationParam,
+} from '../Integrations/types.js';
+import type { IGuardrail } from '../interfaces.guardrail.js';
 import type { IMCPClient } from '../interfaces.mcp.js';
 import type {
   IPermissionManager,
@@ -21,17 +26,42 @@ import type {
   ToolAuthorizationState,
 } from '../interfaces.permission.manager.js';
 import type { OtelInfoType } from '../types.js';
+import { compactMessages } from './compaction.js';
+import { applyGuardrails } from './guardrail.js';
+import { renderPlan } from './planning.js';
 import type { AgentEventStreamer } from './stream/types.js';
+import {
+  createToolCacheKey,
+  isToolErrorResult,
+  readCachedToolResult,
+  writeCachedToolResult,
+} from './toolResultCache.js';
+import { offloadToolResult } from './toolResultStore.js';
 import type {
+  AgentBudget,
+  AgentCompactionConfig,
   AgentMessage,
   AgentOutputBuilder,
+  AgentPlan,
   AgentToolCallContent,
   AgentToolDefinition,
+  AgentToolRequest,
+  AgentToolResultCacheConfig,
   AgentToolResultContent,
+  AgentToolResultStoreConfig,
+  AgentToolServerConfig,
+  AgentVerificationConfig,
   AnyArvoContract,
   CreateArvoAgentParam,
 } from './types.js';
-import { prioritizeToolCalls } from './utils';
+import {
+  createConcurrencyLimiter,
+  executeToolWithPolicy,
+  getExhaustedBudgets,
+  prioritizeToolCalls,
+  tryParseJson,
+} from './utils';
+import { DEFAULT_MAX_VERIFICATION_RETRIES, verifyOutput } from './verification.js';
 
 /**
  * The Core Cognitive Loop of the Arvo Agent.
@@ -50,6 +80,68 @@ import { prioritizeToolCalls } from './utils';
  * **Self-Correction:**
  * If the LLM's final output fails the Contract's Output Schema validation (via `outputBuilder`),
  * the loop catches the error and feeds it back to the LLM for auto-correction.
+ *
+ * **Budget Enforcement:**
+ * Before every LLM call, the accumulated execution units and token usage are checked against the
+ * configured `budget`, less the budget `offset` of an earlier session turn. The first time a limit
+ * is reached, the LLM gets one forced final-answer turn (the same treatment as an exhausted tool
+ * quota). If the Agent still needs another LLM call after that turn, the loop fails.
+ *
+ * **Tool Execution Safeguards:**
+ * Synchronous tools run under their `executionPolicy` (merged over the Agent's default
+ * `toolExecutionPolicy`). Each call is bounded by a timeout, retried on failure and limited
+ * in per-tool parallelism across all the turns of the loop. A timed out call is aborted through
+ * the `signal` of the tool, and one that ultimately times out is returned to the LLM as a
+ * structured error `tool_result` instead of stalling the loop.
+ *
+ * **Lower Priority Tool Calls:**
+ * Only the highest priority batch of a turn is executed. The remaining calls are handled by the
+ * `lowPriorityToolCallStrategy`: `'drop'` discards them, `'defer'` answers each with a synthetic
+ * `tool_result` asking the LLM to re-issue it and `'queue'` executes them, batch by batch, once
+ * the higher priority batch resolves. Queued calls survive a suspension via the returned
+ * `queuedToolCalls`. Every such call emits an `agent.tool.deferred` stream event. The queue is
+ * always flushed before the LLM is called again, so it runs ahead of the forced final-answer
+ * turn of an exhausted tool quota. Once the budget is exhausted, the queued calls are answered
+ * with a "not executed" `tool_result` instead.
+ *
+ * **Conversation Compaction:**
+ * When a `compaction` configuration is provided, the history is checked before every LLM call.
+ * Once it exceeds the configured thresholds, the older messages are replaced by a summary so the
+ * persisted state does not grow without bound.
+ *
+ * **Plan Tracking:**
+ * When a `plan` is provided, its current state is appended to the system prompt of every LLM
+ * call, so the changes made through the plan tool are visible on the next turn.
+ *
+ * **Output Verification:**
+ * When a `verification` configuration is provided, every output accepted by the output builder
+ * is judged by the verifier before it is returned. A rejected output is sent back to the LLM
+ * with the feedback under the `'verification_feedback'` lifecycle, until the retry cap is
+ * reached. The attempts are returned as `verificationAttempts` so the cap survives a suspension.
+ *
+ * **Guardrails:**
+ * The `guardrails` check every synchronous tool result before it enters the history and the
+ * final output before it is returned. A redacted output must still satisfy the output format.
+ *
+ * **Tool Result Caching:**
+ * When a `toolResultCache` is provided, the calls of tools with a `cache` policy are first
+ * looked up in it. A hit is answered from the cache, without executing the tool or emitting
+ * the service event, and fires an `agent.tool.cache.hit` stream event. The successful results
+ * of synchronous tools are cached here, the service responses when the Agent resumes.
+ *
+ * **Tool Result Offloading:**
+ * When a `toolResultStore` is provided, synchronous tool results longer than its inline limit
+ * are moved to the store and only a preview with a reference is added to the history. The
+ * results of the reader tool itself are never offloaded.
+ *
+ * **Integration State:**
+ * The state returned by the LLM integration is handed to its next call and kept in
+ * `llmState`, which is updated in place so the caller can persist it with the Agent state.
+ *
+ * **Handoff:**
+ * A handoff call ends the workflow, so it must be the only call of its turn. When the LLM
+ * returns it along with other calls, none of them is executed. Each is answered with an error
+ * `tool_result` asking the LLM to either hand off alone or make the other calls first.
  */
 export const agentLoop = async (
   param: {
@@ -71,12 +163,38 @@ export const agentLoop = async (
       prompt: number;
       completion: number;
     };
+    budget: {
+      max: AgentBudget;
+      exhaustedBy: (keyof AgentBudget)[] | null;
+      /** The usage spent before the current session turn, which does not count. */
+      offset?: Required<AgentBudget> | null;
+    };
+    toolExecutionPolicy: AgentToolExecutionPolicy;
+    lowPriorityToolCallStrategy: NonNullable<CreateArvoAgentParam['lowPriorityToolCallStrategy']>;
+    queuedToolCalls: AgentToolRequest[];
+    compaction: AgentCompactionConfig | null;
+    toolResultStore: { config: AgentToolResultStoreConfig; readerToolName: string } | null;
+    plan: { holder: { current: AgentPlan | null }; toolName: string } | null;
+    llmState: { current: Record<string, unknown> | null };
+    verification: { config: AgentVerificationConfig; attempts: number } | null;
+    guardrails: IGuardrail[];
+    toolResultCache: { config: AgentToolResultCacheConfig; rootSubject: string } | null;
     onStream: AgentEventStreamer;
     permissionPolicy: string[];
     permissionManager: IPermissionManager | null;
     permissionManagerContext: PermissionManagerContext;
+    handoffToolNames: string[];
+  },
+  config: {
+    otelInfo: OtelInfoType;
+    /** Stops the loop at its next step once aborted, by throwing the abort reason. */
+    signal?: AbortSignal;
+    /** Receives the running usage totals once the loop settles, including when it throws. */
+    onSettled?: (usage: {
+      executionUnits: number;
+      tokens: { prompt: number; completion: number };
+    }) => void;
   },
-  config: { otelInfo: OtelInfoType },
 ) =>
   await ArvoOpenTelemetry.getInstance().startActiveSpan({
     name: 'AgentLoop',
@@ -101,67 +219,424 @@ export const agentLoop = async (
       let lifecycle: typeof param.initLifecycle = param.initLifecycle;
       let executionUnits = param.currentTotalExecutionUnits;
       const tokenUsage = param.currentTotalUsageTokens;
+      let budgetExhaustedBy = param.budget.exhaustedBy;
+      const getBudgetUsage = (): Required<AgentBudget> => ({
+        executionUnits: executionUnits - (param.budget.offset?.executionUnits ?? 0),
+        promptTokens: tokenUsage.prompt - (param.budget.offset?.promptTokens ?? 0),
+        completionTokens: tokenUsage.completion - (param.budget.offset?.completionTokens ?? 0),
+      });
+      let verificationAttempts = param.verification?.attempts ?? 0;
       try {
         let currentToolInteractionCount = param.toolInteraction.current;
         const messages = [...param.messages];
+        let queuedToolCalls = param.queuedToolCalls;
+        // Shared by all the turns, so `maxParallelism` bounds the calls of the whole execution
+        const toolConcurrencyLimiters: Record<
+          string,
+          ReturnType<typeof createConcurrencyLimiter>
+        > = {};
         while (currentToolInteractionCount <= param.toolInteraction.max) {
-          const toolQuotaExhausted = !(currentToolInteractionCount < param.toolInteraction.max);
-
-          param.onStream({
-            type:
-              lifecycle === 'init'
-                ? 'agent.init'
-                : lifecycle === 'tool_result'
-                  ? 'agent.resume'
-                  : 'agent.self.correction',
-            data: {
-              system: param.system,
-              messages: messages,
-              tools: param.tools.map((item) => item.name),
-              llmResponseType: param.llmResponseType,
-              toolIteractionCycle: {
-                max: param.toolInteraction.max,
-                current: param.toolInteraction.current,
-                exhausted: toolQuotaExhausted,
+          config.signal?.throwIfAborted();
+          // Lower priority calls queued behind an executed batch run before the LLM is called again
+          let toolRequests = queuedToolCalls;
+          queuedToolCalls = [];
+          if (
+            toolRequests.length &&
+            getExhaustedBudgets(param.budget.max, getBudgetUsage()).length
+          ) {
+            // Nothing more is spent once the budget is exhausted, but every queued call still
+            // gets a result ahead of the final-answer turn
+            logToSpan(
+              {
+                level: 'WARNING',
+                message: `Budget exhausted. ${toolRequests.length} queued tool call(s) not executed`,
+                tools: JSON.stringify(toolRequests.map((item) => item.name)),
               },
-            },
-          });
+              span,
+            );
+            for (const item of toolRequests) {
+              messages.push({
+                role: 'assistant',
+                content: {
+                  type: 'tool_use',
+                  toolUseId: item.toolUseId,
+                  name: item.name,
+                  input: item.input,
+                },
+                // This has been viewed by the LLM as it was generated by it
+                seenCount: 1,
+                responseId: item.responseId,
+              });
+              messages.push({
+                role: 'user',
+                content: {
+                  type: 'tool_result',
+                  toolUseId: item.toolUseId,
+                  content: cleanString(`
+                    [Not executed] The queued tool call "${item.name}" was not executed because
+                    the budget of the agent was exhausted.
+                  `),
+                },
+                seenCount: 0,
+              });
+            }
+            toolRequests = [];
+          }
+          let response: AgentLLMIntegrationOutput | null = null;
+          if (!toolRequests.length) {
+            if (param.compaction) {
+              const compacted = await compactMessages(
+                {
+                  messages,
+                  system: param.system,
+                  config: param.compaction,
+                  llm: param.llm,
+                },
+                { otelInfo },
+              );
+              if (compacted) {
+                messages.splice(0, messages.length, ...compacted.messages);
+                executionUnits += compacted.executionUnits;
+                tokenUsage.prompt += compacted.usage.prompt;
+                tokenUsage.completion += compacted.usage.completion;
+                param.onStream({
+                  type: 'agent.context.compaction',
+                  data: {
+                    compactedMessages: compacted.compactedMessageCount,
+                    remainingMessages: messages.length,
+                    estimatedTokens: compacted.estimatedTokens,
+                    usage: tokenUsage,
+                    executionunits: executionUnits,
+                  },
+                });
+              }
+            }
+            const toolQuotaExhausted = !(currentToolInteractionCount < param.toolInteraction.max);
+            const currentBudgetUsage = getBudgetUsage();
+            const exceededBudgets = getExhaustedBudgets(param.budget.max, currentBudgetUsage);
+            if (exceededBudgets.length) {
+              if (budgetExhaustedBy) {
+                // The forced final-answer turn has already been used
+                throw new Error(`Budget exhausted the max quota: ${budgetExhaustedBy.join(', ')}`);
+              }
+              budgetExhaustedBy = exceededBudgets;
 
-          const response = await param.llm(
-            {
-              lifecycle,
-              system: param.system,
-              messages: messages,
-              tools: param.tools,
-              toolInteractions: {
-                current: currentToolInteractionCount,
-                max: param.toolInteraction.max,
-                exhausted: toolQuotaExhausted,
+              logToSpan(
+                {
+                  level: 'WARNING',
+                  message: `Agent budget exhausted by ${exceededBudgets.join(', ')}. Forcing final response`,
+                  budget: JSON.stringify({ max: param.budget.max, current: currentBudgetUsage }),
+                },
+                span,
+              );
+
+              param.onStream({
+                type: 'agent.budget.exhausted',
+                data: {
+                  exhaustedBy: exceededBudgets,
+                  max: param.budget.max,
+                  usage: tokenUsage,
+                  executionunits: executionUnits,
+                },
+              });
+            }
+
+            // The plan is re-rendered on every turn as the plan tool may have changed it
+            const system = param.plan?.holder.current
+              ? [param.system, renderPlan(param.plan.holder.current, param.plan.toolName)]
+                  .filter(Boolean)
+                  .join('\n\n')
+              : param.system;
+
+            param.onStream({
+              type:
+                lifecycle === 'init'
+                  ? 'agent.init'
+                  : lifecycle === 'tool_result'
+                    ? 'agent.resume'
+                    : 'agent.self.correction',
+              data: {
+                system,
+                messages: messages,
+                tools: param.tools.map((item) => item.name),
+                llmResponseType: param.llmResponseType,
+                toolIteractionCycle: {
+                  max: param.toolInteraction.max,
+                  current: param.toolInteraction.current,
+                  exhausted: toolQuotaExhausted,
+                },
               },
-              outputFormat: {
-                type: param.llmResponseType,
-                format: param.outputFormat,
+            });
+
+            response = await param.llm(
+              {
+                lifecycle,
+                system,
+                messages: messages,
+                tools: param.tools,
+                toolInteractions: {
+                  current: currentToolInteractionCount,
+                  max: param.toolInteraction.max,
+                  exhausted: toolQuotaExhausted,
+                },
+                budget: {
+                  max: param.budget.max,
+                  current: currentBudgetUsage,
+                  exhausted: budgetExhaustedBy !== null,
+                },
+                outputFormat: {
+                  type: param.llmResponseType,
+                  format: param.outputFormat,
+                },
+                onStream: param.onStream,
+                state: param.llmState.current,
               },
-              onStream: param.onStream,
-            },
-            { otelInfo },
-          );
-          currentToolInteractionCount++;
-          executionUnits += response.executionUnits;
-          tokenUsage.completion += response.usage.tokens.completion;
-          tokenUsage.prompt += response.usage.tokens.prompt;
-
-          // Update the message seen count by one for all the
-          // messages which the LLM has seen
-          for (let i = 0; i < messages.length; i++) {
-            messages[i].seenCount += 1;
+              { otelInfo },
+            );
+            if (response.state !== undefined) param.llmState.current = response.state;
+            currentToolInteractionCount++;
+            executionUnits += response.executionUnits;
+            tokenUsage.completion += response.usage.tokens.completion;
+            tokenUsage.prompt += response.usage.tokens.prompt;
+            config.signal?.throwIfAborted();
+
+            // Update the message seen count by one for all the
+            // messages which the LLM has seen
+            for (let i = 0; i < messages.length; i++) {
+              messages[i].seenCount += 1;
+            }
+            if (response.type === 'tool_call') {
+              // Every call of the response carries its id, so the integrations can send the calls
+              // back as one turn even when the results of other calls are stored in between
+              const responseId = v4();
+              toolRequests = response.toolRequests.map((item) => ({ ...item, responseId }));
+              // The reasoning is kept ahead of the tool calls it led to, as the providers
+              // expect it back along with them
+              for (const thinking of response.thinking ?? []) {
+                messages.push({ role: 'assistant', content: thinking, seenCount: 1, responseId });
+              }
+              const handoffCalls = toolRequests.filter((item) =>
+                param.handoffToolNames.includes(item.name),
+              );
+              if (handoffCalls.length && toolRequests.length > 1) {
+                logToSpan(
+                  {
+                    level: 'WARNING',
+                    message: `Rejected ${toolRequests.length} tool call(s) because a handoff was mixed with other calls`,
+                    tools: JSON.stringify(toolRequests.map((item) => item.name)),
+                  },
+                  span,
+                );
+                param.onStream({
+                  type: 'agent.handoff.rejected',
+                  data: {
+                    handoffs: handoffCalls.map((item) => item.name),
+                    tools: toolRequests.map((item) => item.name),
+                    usage: tokenUsage,
+                    executionunits: executionUnits,
+                  },
+                });
+                for (const item of toolRequests) {
+                  messages.push({
+                    role: 'assistant',
+                    content: {
+                      type: 'tool_use',
+                      toolUseId: item.toolUseId,
+                      name: item.name,
+                      input: item.input,
+                    },
+                    // This has been viewed by the LLM as it was generated by it
+                    seenCount: 1,
+                    responseId,
+                  });
+                  messages.push({
+                    role: 'user',
+                    content: {
+                      type: 'tool_result',
+                      toolUseId: item.toolUseId,
+                      content: JSON.stringify({
+                        type: 'error',
+                        name: 'HandoffNotAloneError',
+                        message: cleanString(`
+                          The tool call "${item.name}" was not executed. A handoff
+                          (${handoffCalls.map((call) => call.name).join(', ')}) ends your work, so it
+                          must be the only tool call of its turn. Either hand off alone or make the
+                          other tool calls first and hand off after reviewing their results.
+                        `),
+                      }),
+                    },
+                    seenCount: 0,
+                  });
+                }
+                lifecycle = 'tool_result';
+                continue;
+              }
+            }
           }
 
-          if (response.type === 'tool_call') {
+          if (!response || response.type === 'tool_call') {
             const arvoToolCalls: AgentToolCallContent[] = [];
             const mcpToolResultPromises: Promise<AgentToolResultContent>[] = [];
             const internalToolResultPromises: Promise<AgentToolResultContent>[] = [];
-            const prioritizedToolCalls = prioritizeToolCalls(response.toolRequests, nameToToolMap);
+            const { prioritized: prioritizedToolCalls, deferred: deferredToolCalls } =
+              prioritizeToolCalls(toolRequests, nameToToolMap);
+            if (param.lowPriorityToolCallStrategy === 'queue') {
+              queuedToolCalls = deferredToolCalls;
+            }
+            // Applies the guardrails and the offloading to a tool result before it enters the history
+            const toToolResultContent = async (
+              item: { name: string; toolUseId: string },
+              content: string,
+            ): Promise<AgentToolResultContent> => {
+              const guardedContent = await applyGuardrails(
+                {
+                  guardrails: param.guardrails,
+                  stage: 'tool_result',
+                  content,
+                  tool: item.name,
+                  source: param.permissionManagerContext,
+                  onStream: param.onStream,
+                },
+                { otelInfo },
+              );
+              return {
+                type: 'tool_result',
+                toolUseId: item.toolUseId,
+                content:
+                  param.toolResultStore && item.name !== param.toolResultStore.readerToolName
+                    ? await offloadToolResult(
+                        {
+                          content: guardedContent,
+                          subject: param.permissionManagerContext.subject,
+                          config: param.toolResultStore.config,
+                          readerToolName: param.toolResultStore.readerToolName,
+                        },
+                        { otelInfo },
+                      )
+                    : guardedContent,
+              };
+            };
+            // Looks up the cached result of a tool call. The key is null when the tool is not
+            // cacheable or the Agent has no cache.
+            const lookUpToolCache = async (
+              item: { name: string; toolUseId: string },
+              definition: { serverConfig: AgentToolServerConfig<unknown> },
+              input: Record<string, unknown>,
+            ) => {
+              const policy = definition.serverConfig.cache;
+              if (!policy || !param.toolResultCache) return { key: null, content: null };
+              const key = createToolCacheKey({
+                tool: definition.serverConfig.name,
+                input,
+                policy,
+                subject: param.permissionManagerContext.subject,
+                rootSubject: param.toolResultCache.rootSubject,
+              });
+              const content = await readCachedToolResult(
+                { key, config: param.toolResultCache.config },
+                { otelInfo },
+              );
+              if (content !== null) {
+                logToSpan(
+                  {
+                    level: 'INFO',
+                    message: `Tool "${item.name}" served from the cache`,
+                    toolUseId: item.toolUseId,
+                  },
+                  span,
+                );
+                param.onStream({
+                  type: 'agent.tool.cache.hit',
+                  data: {
+                    tool: {
+                      name: item.name,
+                      kind: definition.serverConfig.kind,
+                      originalName: definition.serverConfig.name,
+                    },
+                    toolUseId: item.toolUseId,
+                    scope: policy.scope ?? 'subject',
+                    usage: tokenUsage,
+                    executionunits: executionUnits,
+                  },
+                });
+              }
+              return { key, content };
+            };
+            const executeSynchronousTool = async (
+              item: (typeof prioritizedToolCalls)[number],
+              definition: { serverConfig: AgentToolServerConfig<unknown> },
+              execute: (signal: AbortSignal) => Promise<string>,
+            ): Promise<AgentToolResultContent> => {
+              const cached = await lookUpToolCache(item, definition, item.input);
+              if (cached.content !== null) return await toToolResultContent(item, cached.content);
+              const policy: AgentToolExecutionPolicy = {
+                ...param.toolExecutionPolicy,
+                ...definition.serverConfig.executionPolicy,
+              };
+              if (policy.maxParallelism) {
+                toolConcurrencyLimiters[item.name] ??= createConcurrencyLimiter(
+                  policy.maxParallelism,
+                );
+              }
+              return await executeToolWithPolicy({
+                policy,
+                limiter: policy.maxParallelism ? toolConcurrencyLimiters[item.name] : undefined,
+                // Only the successful results are cached. The thrown failures are returned by the
+                // policy and the ones returned by the tool are recognized by their shape
+                execute: async (signal) => {
+                  const content = await execute(signal);
+                  if (
+                    cached.key &&
+                    param.toolResultCache &&
+                    definition.serverConfig.cache &&
+                    !isToolErrorResult(content)
+                  ) {
+                    await writeCachedToolResult(
+                      {
+                        key: cached.key,
+                        content,
+                        ttlMs: definition.serverConfig.cache.ttlMs,
+                        config: param.toolResultCache.config,
+                      },
+                      { otelInfo },
+                    );
+                  }
+                  return content;
+                },
+                onTimeout: ({ timeoutMs, attempt, willRetry }) => {
+                  logToSpan(
+                    {
+                      level: 'WARNING',
+                      message: `Tool "${item.name}" timed out after ${timeoutMs}ms (attempt ${attempt})`,
+                      tool: JSON.stringify({
+                        name: item.name,
+                        kind: definition.serverConfig.kind,
+                        originalName: definition.serverConfig.name,
+                        toolUseId: item.toolUseId,
+                      }),
+                      willRetry: willRetry.toString(),
+                    },
+                    span,
+                  );
+                  param.onStream({
+                    type: 'agent.tool.timeout',
+                    data: {
+                      tool: {
+                        name: item.name,
+                        kind: definition.serverConfig.kind,
+                        originalName: definition.serverConfig.name,
+                      },
+                      toolUseId: item.toolUseId,
+                      timeoutMs,
+                      attempt,
+                      willRetry,
+                      usage: tokenUsage,
+                      executionunits: executionUnits,
+                    },
+                  });
+                },
+              }).then((content) => toToolResultContent(item, content));
+            };
 
             const toolPermissionRequest: Parameters<IPermissionManager['get']>[0]['tools'] = {};
             for (const item of prioritizedToolCalls) {
@@ -211,6 +686,7 @@ export const agentLoop = async (
                 content: toolCallContent,
                 // This has been viewed by the LLM as it was generated by it
                 seenCount: 1,
+                responseId: item.responseId,
               });
 
               const resolvedToolDef = nameToToolMap[item.name] as
@@ -345,62 +821,61 @@ export const agentLoop = async (
 
               if (resolvedToolDef.serverConfig.kind === 'mcp') {
                 mcpToolResultPromises.push(
-                  (async () => {
-                    const response = await param.mcp
-                      ?.invokeTool(
-                        { name: resolvedToolDef.serverConfig.name, arguments: item.input },
-                        { otelInfo },
-                      )
-                      ?.catch((err: Error) => ({
-                        type: 'error',
-                        name: err.name,
-                        message: err.message,
-                      }));
-                    return {
-                      type: 'tool_result',
-                      toolUseId: item.toolUseId,
-                      content: response
-                        ? JSON.stringify(response)
-                        : 'No response available from the MCP',
-                    };
-                  })(),
+                  executeSynchronousTool(item, resolvedToolDef, async (signal) => {
+                    const response = await param.mcp?.invokeTool(
+                      { name: resolvedToolDef.serverConfig.name, arguments: item.input },
+                      { otelInfo, signal },
+                    );
+                    return response
+                      ? JSON.stringify(response)
+                      : 'No response available from the MCP';
+                  }),
                 );
               } else if (resolvedToolDef.serverConfig.kind === 'internal') {
-                internalToolResultPromises.push(
-                  (async () => {
-                    const serverConfig = (
-                      resolvedToolDef as unknown as AgentToolDefinition<AgentInternalTool>
-                    ).serverConfig;
-                    if (
-                      !(
-                        'fn' in serverConfig.contract &&
-                        serverConfig.contract.fn &&
-                        typeof serverConfig.contract.fn === 'function'
-                      )
-                    ) {
-                      return {
-                        type: 'tool_result',
-                        toolUseId: item.toolUseId,
-                        content: 'Invalid internal tool call',
-                      };
-                    }
-
-                    const response = await serverConfig.contract
-                      .fn(item.input, { otelInfo })
-                      ?.catch((err: Error) => ({
-                        type: 'error',
-                        name: err.name,
-                        message: err.message,
-                      }));
-
-                    return {
+                const serverConfig = (
+                  resolvedToolDef as unknown as AgentToolDefinition<AgentInternalTool>
+                ).serverConfig;
+                if (
+                  !(
+                    'fn' in serverConfig.contract &&
+                    serverConfig.contract.fn &&
+                    typeof serverConfig.contract.fn === 'function'
+                  )
+                ) {
+                  internalToolResultPromises.push(
+                    Promise.resolve({
                       type: 'tool_result',
                       toolUseId: item.toolUseId,
-                      content: response
-                        ? JSON.stringify(response)
-                        : 'No response available from the internal tool',
-                    };
-                  })(),
+                      content: 'Invalid internal tool call',
+                    }),
+                  );
+                  continue;
+                }
+                internalToolResultPromises.push(
+                  executeSynchronousTool(item, resolvedToolDef, async (signal) => {
+                    let settled = false;
+                    const response = await Promise.resolve(
+                      serverConfig.contract.fn(item.input, {
+                        otelInfo,
+                        toolUseId: item.toolUseId,
+                        signal,
+                        onStream: param.onStream,
+                        reportUsage: (usage) => {
+                          // The loop has moved on from a call which settled or timed out, so
+                          // its late reports are not counted
+                          if (settled || signal.aborted) return;
+                          executionUnits += usage.executionUnits;
+                          tokenUsage.prompt += usage.tokens.prompt;
+                          tokenUsage.completion += usage.tokens.completion;
+                        },
+                      }),
+                    ).finally(() => {
+                      settled = true;
+                    });
+                    return response
+                      ? JSON.stringify(response)
+                      : 'No response available from the internal tool';
+                  }),
                 );
               } else if (resolvedToolDef.serverConfig.kind === 'arvo') {
                 const zodParseResult = (
@@ -424,6 +899,18 @@ export const agentLoop = async (
                     seenCount: 0,
                   });
                 } else {
+                  const cached = await lookUpToolCache(item, resolvedToolDef, zodParseResult.data);
+                  if (cached.content !== null) {
+                    messages.push({
+                      role: 'user',
+                      content: await toToolResultContent(
+                        { name: resolvedToolDef.serverConfig.name, toolUseId: item.toolUseId },
+                        cached.content,
+                      ),
+                      seenCount: 0,
+                    });
+                    continue;
+                  }
                   arvoToolCalls.push({
                     ...toolCallContent,
                     input: zodParseResult.data,
@@ -440,6 +927,48 @@ export const agentLoop = async (
             for (const item of await Promise.all(internalToolResultPromises)) {
               messages.push({ role: 'user', content: item, seenCount: 0 });
             }
+            for (const item of deferredToolCalls) {
+              param.onStream({
+                type: 'agent.tool.deferred',
+                data: {
+                  tool: {
+                    name: item.name,
+                    kind: nameToToolMap[item.name]?.serverConfig?.kind ?? 'unknown',
+                    originalName: nameToToolMap[item.name]?.serverConfig?.name ?? 'unknown',
+                  },
+                  toolUseId: item.toolUseId,
+                  strategy: param.lowPriorityToolCallStrategy,
+                  usage: tokenUsage,
+                  executionunits: executionUnits,
+                },
+              });
+              if (param.lowPriorityToolCallStrategy !== 'defer') continue;
+              messages.push({
+                role: 'assistant',
+                content: {
+                  type: 'tool_use',
+                  toolUseId: item.toolUseId,
+                  name: item.name,
+                  input: item.input,
+                },
+                // This has been viewed by the LLM as it was generated by it
+                seenCount: 1,
+                responseId: item.responseId,
+              });
+              messages.push({
+                role: 'user',
+                content: {
+                  type: 'tool_result',
+                  toolUseId: item.toolUseId,
+                  content: cleanString(`
+                    [Deferred] The tool "${item.name}" was not executed because higher priority tools
+                    (${Array.from(new Set(prioritizedToolCalls.map((call) => call.name))).join(', ')})
+                    had to run first. Re-issue this call after reviewing their results, if it is still required.
+                  `),
+                },
+                seenCount: 0,
+              });
+            }
             if (param.permissionManager && Object.keys(toolsPendingPermission).length) {
               const toolPermissionRequest = await param.permissionManager?.requestBuilder({
                 source: param.permissionManagerContext,
@@ -507,6 +1036,9 @@ export const agentLoop = async (
                 },
                 executionUnits,
                 tokenUsage,
+                budget: { ...param.budget, exhaustedBy: budgetExhaustedBy },
+                queuedToolCalls,
+                verificationAttempts,
               };
             }
             lifecycle = 'tool_result';
@@ -555,11 +1087,105 @@ export const agentLoop = async (
           }
 
           if ('data' in outputResult && outputResult.data) {
+            if (param.verification) {
+              const maxRetries =
+                param.verification.config.maxRetries ?? DEFAULT_MAX_VERIFICATION_RETRIES;
+              const verification = await verifyOutput(
+                {
+                  output: outputResult.data,
+                  messages,
+                  system: param.system,
+                  config: param.verification.config,
+                  llm: param.llm,
+                },
+                { otelInfo },
+              );
+              executionUnits += verification.executionUnits;
+              tokenUsage.prompt += verification.usage.prompt;
+              tokenUsage.completion += verification.usage.completion;
+              const { verdict } = verification;
+              param.onStream({
+                type: 'agent.output.verification',
+                data: {
+                  approved: verdict.approved,
+                  score: verdict.score,
+                  feedback: verdict.feedback,
+                  attempt: verificationAttempts + 1,
+                  maxRetries,
+                  usage: tokenUsage,
+                  executionunits: executionUnits,
+                },
+              });
+              if (!verdict.approved) {
+                if (verificationAttempts < maxRetries) {
+                  verificationAttempts++;
+                  messages.push({
+                    role: 'assistant',
+                    content: { type: 'text', content: JSON.stringify(outputResult.data) },
+                    // This has been viewed by the LLM as it was generated by it
+                    seenCount: 1,
+                  });
+                  messages.push({
+                    role: 'user',
+                    content: {
+                      type: 'text',
+                      content: cleanString(`
+                        [Verification feedback] Your answer was rejected by the reviewer
+                        (attempt ${verificationAttempts} of ${maxRetries}). Revise it and respond
+                        with the complete corrected answer.
+                        Feedback: ${verdict.feedback ?? 'No feedback was given'}
+                      `),
+                    },
+                    seenCount: 0,
+                  });
+                  lifecycle = 'verification_feedback';
+                  continue;
+                }
+                if ((param.verification.config.onExhausted ?? 'fail') === 'fail') {
+                  throw new Error(
+                    `The verifier rejected the output after ${maxRetries} revisions. ${verdict.feedback ?? ''}`.trim(),
+                  );
+                }
+                logToSpan(
+                  {
+                    level: 'WARNING',
+                    message: `Verification retries exhausted after ${maxRetries} revisions. Accepting the last output`,
+                  },
+                  span,
+                );
+              }
+            }
+
+            let output = outputResult.data;
+            const outputContent = JSON.stringify(output);
+            const guardedOutputContent = await applyGuardrails(
+              {
+                guardrails: param.guardrails,
+                stage: 'output',
+                content: outputContent,
+                tool: null,
+                source: param.permissionManagerContext,
+                onStream: param.onStream,
+              },
+              { otelInfo },
+            );
+            if (guardedOutputContent !== outputContent) {
+              const redactedOutput = param.outputFormat.safeParse(
+                tryParseJson(guardedOutputContent),
+              );
+              if (redactedOutput.error) {
+                throw new Error(
+                  `The output redacted by the guardrails does not satisfy the output format. ${redactedOutput.error.message}`,
+                );
+              }
+              output = redactedOutput.data;
+            }
+
             messages.push({
               role: 'assistant',
               content: {
                 type: 'text',
-                content: JSON.stringify(outputResult.data),
+                content: JSON.stringify(output),
               },
               // This has been viewed by the LLM as it was generated by it
               seenCount: 1,
@@ -568,7 +1194,7 @@ export const agentLoop = async (
             param.onStream({
               type: 'agent.output',
               data: {
-                content: JSON.stringify(outputResult.data),
+                content: JSON.stringify(output),
                 usage: tokenUsage,
                 executionunits: executionUnits,
               },
@@ -576,18 +1202,25 @@ export const agentLoop = async (
 
             return {
               messages,
-              output: outputResult.data,
+              output,
               toolInteractions: {
                 current: currentToolInteractionCount,
                 max: param.toolInteraction.max,
               },
               executionUnits,
               tokenUsage,
+              budget: { ...param.budget, exhaustedBy: budgetExhaustedBy },
+              queuedToolCalls,
+              verificationAttempts,
             };
           }
         }
         throw new Error(`Tool calls exhausted the max quota: ${currentToolInteractionCount}`);
       } finally {
+        config.onSettled?.({
+          executionUnits,
+          tokens: { prompt: tokenUsage.prompt, completion: tokenUsage.completion },
+        });
         span.end();
       }
     },
@@ -0,0 +1,79 @@
+import { type ArvoEvent, createArvoEventFactory, createSimpleArvoContract } from 'arvo-core';
+import z from 'zod';
+import type { ICancellationRegistry } from '../interfaces.cancellation.registry.js';
+import type { OtelInfoType } from '../types.js';
+
+/**
+ * Contract of the event which cancels a running agent workflow.
+ *
+ * Agents with `cancellation` enabled register this contract as one of their services,
+ * so they accept its emitted event type (`evt.arvo.default.agent.cancel.success`). Send
+ * that event with the agent workflow's `subject` to cancel the workflow.
+ */
+export const agentCancellationContract = createSimpleArvoContract({
+  uri: '#/arvo/tools/default/agentic/cancellation',
+  type: 'arvo.default.agent.cancel',
+  description: 'Cancels a running agent workflow and the workflows it started',
+  versions: {
+    '1.0.0': {
+      accepts: z.object({
+        reason: z.string().nullable().describe('Why the workflow is cancelled'),
+      }),
+      emits: z.object({
+        reason: z.string().nullable().default(null).describe('Why the workflow is cancelled'),
+      }),
+    },
+  },
+});
+
+/**
+ * Thrown by a cancelled agent workflow which has no `cancellationOutput` configured.
+ *
+ * The Arvo Resumable turns it into the system error event of the agent, which is the
+ * terminal event of the cancelled workflow.
+ */
+export class AgentCancellationError extends Error {
+  readonly reason: string | null;
+
+  constructor(param: { subject: string; reason: string | null }) {
+    super(
+      `The agent workflow ${param.subject} was cancelled${param.reason ? `. Reason: ${param.reason}` : ''}`,
+    );
+    this.name = 'AgentCancellationError';
+    this.reason = param.reason;
+  }
+}
+
+/**
+ * Builds the cancel events of the child workflows which have not responded to a cancelled
+ * workflow, addressed to the subjects the children recorded in the registry.
+ */
+export const createChildCancellationEvents = async (
+  param: {
+    registry: ICancellationRegistry;
+    subject: string;
+    source: string;
+    reason: string | null;
+    /** The calls of the cancelled workflow which have not been responded to. */
+    toolCalls: { toolUseId: string; type: string }[];
+  },
+  config: { otelInfo: OtelInfoType },
+): Promise<ArvoEvent[]> => {
+  if (!param.toolCalls.length || !param.registry.children) return [];
+  const children = await param.registry.children({ subject: param.subject }, config);
+  return children.flatMap((child) => {
+    const toolCall = param.toolCalls.find((item) => item.toolUseId === child.toolUseId);
+    if (!toolCall) return [];
+    return [
+      createArvoEventFactory(agentCancellationContract.version('1.0.0')).emits({
+        type: 'evt.arvo.default.agent.cancel.success',
+        source: param.source,
+        subject: child.subject,
+        to: toolCall.type,
+        data: {
+          reason: `The parent workflow ${param.subject} was cancelled${param.reason ? `. Reason: ${param.reason}` : ''}`,
+        },
+      }),
+    ];
+  });
+};
@@ -0,0 +1,191 @@
+import {
+  SemanticConventions as OpenInferenceSemanticConventions,
+  OpenInferenceSpanKind,
+} from '@arizeai/openinference-semantic-conventions';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { ArvoOpenTelemetry, exceptionToSpan, getOtelHeaderFromSpan, logToSpan } from 'arvo-core';
+import { DEFAULT_COMPACTION_PROMPT } from '../Integrations/prompts.js';
+import type { AgentLLMIntegration } from '../Integrations/types.js';
+import { estimateMessageTokens } from '../Integrations/utils.js';
+import type { OtelInfoType } from '../types.js';
+import type { AgentCompactionConfig, AgentMessage } from './types.js';
+
+/**
+ * Finds the index at which the history can be split into an older (summarized) part and a
+ * recent (kept) part without separating any `tool_use` from its `tool_result`.
+ *
+ * Starts from `messages.length - keepRecentMessages` and walks backwards until every tool call
+ * in the older part has its result in the older part as well. Returns `0` when no valid split
+ * exists, meaning nothing can be compacted.
+ */
+export const findCompactionSplitIndex = (
+  messages: AgentMessage[],
+  keepRecentMessages: number,
+): number => {
+  for (let index = messages.length - keepRecentMessages; index > 0; index--) {
+    const toolUseIds = new Set<string>();
+    const toolResultIds = new Set<string>();
+    for (const { content } of messages.slice(0, index)) {
+      if (content.type === 'tool_use') toolUseIds.add(content.toolUseId);
+      if (content.type === 'tool_result') toolResultIds.add(content.toolUseId);
+    }
+    if (
+      toolUseIds.size === toolResultIds.size &&
+      Array.from(toolUseIds).every((id) => toolResultIds.has(id))
+    ) {
+      return index;
+    }
+  }
+  return 0;
+};
+
+/** Renders messages as a plain text transcript for the summarizing LLM. */
+const toTranscript = (messages: AgentMessage[]): string =>
+  messages
+    .map(({ role, content }) => {
+      // The reasoning is left out of the summary
+      if (content.type === 'thinking') return null;
+      if (content.type === 'text') return `[${role}] ${content.content}`;
+      if (content.type === 'media') {
+        return `[${role}] (media ${content.contentType.type}: ${content.contentType.name})`;
+      }
+      if (content.type === 'tool_use') {
+        return `[${role}] called tool "${content.name}" (id: ${content.toolUseId}) with input ${JSON.stringify(content.input)}`;
+      }
+      return `[tool result] (id: ${content.toolUseId}) ${content.content}`;
+    })
+    .filter((item) => item !== null)
+    .join('\n\n');
+
+/**
+ * Compacts the conversation history when it exceeds the configured thresholds.
+ *
+ * The older messages are summarized (by the custom `summarizer` or the LLM) and replaced with a
+ * single user message holding the summary. Returns `null` when no compaction was needed or
+ * possible.
+ */
+export const compactMessages = async (
+  param: {
+    messages: AgentMessage[];
+    system: string | null;
+    config: AgentCompactionConfig;
+    llm: AgentLLMIntegration;
+  },
+  config: { otelInfo: OtelInfoType },
+) => {
+  const estimateTokens = param.config.estimateTokens ?? estimateMessageTokens;
+  const { messageCount, estimatedTokens } = param.config.trigger;
+  const tokensBefore = estimateTokens(param.messages);
+  const triggered =
+    (messageCount !== undefined && param.messages.length > messageCount) ||
+    (estimatedTokens !== undefined && tokensBefore > estimatedTokens);
+  if (!triggered) return null;
+
+  const splitIndex = findCompactionSplitIndex(param.messages, param.config.keepRecentMessages ?? 6);
+  if (splitIndex === 0) {
+    logToSpan(
+      {
+        level: 'WARNING',
+        message: 'Conversation compaction skipped. No split point keeps tool calls intact',
+      },
+      config.otelInfo.span,
+    );
+    return null;
+  }
+
+  return await ArvoOpenTelemetry.getInstance().startActiveSpan({
+    name: 'AgentCompaction',
+    disableSpanManagement: true,
+    context: {
+      inheritFrom: 'TRACE_HEADERS',
+      traceHeaders: config.otelInfo.headers,
+    },
+    spanOptions: {
+      attributes: {
+        [OpenInferenceSemanticConventions.OPENINFERENCE_SPAN_KIND]: OpenInferenceSpanKind.CHAIN,
+      },
+    },
+    fn: async (span) => {
+      const otelInfo: OtelInfoType = { span, headers: getOtelHeaderFromSpan(span) };
+      try {
+        const olderMessages = param.messages.slice(0, splitIndex);
+        let summary: string;
+        let usage = { prompt: 0, completion: 0 };
+        let executionUnits = 0;
+        if (param.config.summarizer) {
+          summary = await param.config.summarizer(
+            { messages: olderMessages, system: param.system },
+            { otelInfo },
+          );
+        } else {
+          const response = await (param.config.llm ?? param.llm)(
+            {
+              lifecycle: 'init',
+              system: param.config.prompt ?? DEFAULT_COMPACTION_PROMPT,
+              messages: [
+                {
+                  role: 'user',
+                  content: { type: 'text', content: toTranscript(olderMessages) },
+                  seenCount: 0,
+                },
+              ],
+              tools: [],
+              toolInteractions: { current: 0, max: 1, exhausted: false },
+              budget: {
+                max: {},
+                current: { executionUnits: 0, promptTokens: 0, completionTokens: 0 },
+                exhausted: false,
+              },
+              outputFormat: { type: 'text' },
+              // The summarization is internal to the Agent and is not streamed
+              onStream: () => {},
+            },
+            { otelInfo },
+          );
+          if (response.type === 'tool_call') {
+            throw new Error('The compaction LLM responded with tool calls instead of a summary');
+          }
+          summary = response.content;
+          usage = response.usage.tokens;
+          executionUnits = response.executionUnits;
+        }
+
+        const messages: AgentMessage[] = [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              content: `[Summary of the earlier conversation]\n${summary}`,
+            },
+            seenCount: 0,
+          },
+          ...param.messages.slice(splitIndex),
+        ];
+        const result = {
+          messages,
+          compactedMessageCount: olderMessages.length,
+          estimatedTokens: { before: tokensBefore, after: estimateTokens(messages) },
+          usage,
+          executionUnits,
+        };
+
+        logToSpan(
+          {
+            level: 'INFO',
+            message: `Compacted ${olderMessages.length} messages into a summary`,
+            estimatedTokens: JSON.stringify(result.estimatedTokens),
+          },
+          span,
+        );
+        span.setStatus({ code: SpanStatusCode.OK });
+        return result;
+      } catch (error) {
+        exceptionToSpan(error as Error, span);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: (error as Error).message });
+        throw error;
+      } finally {
+        span.end();
+      }
+    },
+  });
+};
@@ -0,0 +1,56 @@
+import { createSimpleArvoContract } from 'arvo-core';
+import z from 'zod';
+import type { AgentState } from './index.js';
+
+/**
+ * Contract of the wake-up request an agent emits when it suspends on service calls
+ * with a deadline.
+ *
+ * A scheduler (e.g. a delayed queue consumer) should reply with the emitted event type
+ * (`evt.arvo.default.agent.wakeup.success`) at or after `wakeAt`. The reply resumes the
+ * agent, which then answers the overdue service calls with a timeout error.
+ */
+export const agentWakeUpContract = createSimpleArvoContract({
+  uri: '#/arvo/tools/default/agentic/wakeup',
+  type: 'arvo.default.agent.wakeup',
+  description: 'Schedules a wake-up of a suspended agent at the deadline of its service calls',
+  versions: {
+    '1.0.0': {
+      accepts: z.object({
+        wakeAt: z.string().describe('The ISO 8601 time at which the agent must be woken up'),
+      }),
+      emits: z.object({}),
+    },
+  },
+});
+
+/**
+ * Answers the awaited service calls whose deadline has passed with a synthetic timeout error.
+ *
+ * Mutates the `awaitingToolCalls` in place and returns the calls which timed out.
+ */
+export const resolveOverdueToolCalls = (
+  awaitingToolCalls: AgentState['awaitingToolCalls'],
+  now: number = Date.now(),
+) => {
+  const overdue: { toolUseId: string; type: string; timeoutMs: number }[] = [];
+  for (const [toolUseId, item] of Object.entries(awaitingToolCalls)) {
+    if (item.data !== null || !item.deadline || item.deadline.at > now) continue;
+    item.data = {
+      type: 'error',
+      name: 'ServiceTimeoutError',
+      message: `The service "${item.type}" did not respond within ${item.deadline.timeoutMs}ms. You may retry the call or continue without its result.`,
+    };
+    item.timedOut = true;
+    overdue.push({ toolUseId, type: item.type, timeoutMs: item.deadline.timeoutMs });
+  }
+  return overdue;
+};
+
+/** The earliest deadline among the service calls which are still awaited, if any. */
+export const getNextDeadline = (awaitingToolCalls: AgentState['awaitingToolCalls']) => {
+  const deadlines = Object.values(awaitingToolCalls)
+    .filter((item) => item.data === null && item.deadline)
+    .map((item) => item.deadline?.at ?? Number.POSITIVE_INFINITY);
+  return deadlines.length ? Math.min(...deadlines) : null;
+};
@@ -0,0 +1,178 @@
+import {
+  SemanticConventions as OpenInferenceSemanticConventions,
+  OpenInferenceSpanKind,
+} from '@arizeai/openinference-semantic-conventions';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { ArvoOpenTelemetry, exceptionToSpan, logToSpan } from 'arvo-core';
+import type { GuardrailStage, IGuardrail } from '../interfaces.guardrail.js';
+import type { PermissionManagerContext } from '../interfaces.permission.manager.js';
+import type { OtelInfoType } from '../types.js';
+import type { AgentEventStreamer } from './stream/types.js';
+import type { AgentMessage } from './types.js';
+
+/**
+ * Thrown when a guardrail blocks content.
+ *
+ * The Arvo Resumable turns it into the system error event of the agent, which is the
+ * terminal event of the workflow.
+ */
+export class GuardrailBlockError extends Error {
+  readonly guardrail: string;
+  readonly stage: GuardrailStage;
+  readonly reason: string;
+
+  constructor(param: { guardrail: string; stage: GuardrailStage; reason: string }) {
+    super(`The guardrail "${param.guardrail}" blocked the ${param.stage}. Reason: ${param.reason}`);
+    this.name = 'GuardrailBlockError';
+    this.guardrail = param.guardrail;
+    this.stage = param.stage;
+    this.reason = param.reason;
+  }
+}
+
+/**
+ * Runs the content through the guardrails which apply to the stage, in order.
+ *
+ * Each guardrail runs in its own guardrail span and sees the content as redacted by the
+ * previous ones. Redactions and blocks are streamed as `agent.guardrail.redacted` and
+ * `agent.guardrail.blocked` events.
+ *
+ * @returns The content after all the redactions
+ * @throws {GuardrailBlockError} When a guardrail blocks the content
+ */
+export const applyGuardrails = async (
+  param: {
+    guardrails: IGuardrail[];
+    stage: GuardrailStage;
+    content: string;
+    tool: string | null;
+    source: PermissionManagerContext;
+    onStream: AgentEventStreamer;
+  },
+  config: { otelInfo: OtelInfoType },
+): Promise<string> => {
+  let content = param.content;
+  for (const guardrail of param.guardrails) {
+    if (guardrail.stages && !guardrail.stages.includes(param.stage)) continue;
+    content = await ArvoOpenTelemetry.getInstance().startActiveSpan({
+      name: `Guardrail<${guardrail.name}>`,
+      disableSpanManagement: true,
+      context: {
+        inheritFrom: 'TRACE_HEADERS',
+        traceHeaders: config.otelInfo.headers,
+      },
+      spanOptions: {
+        attributes: {
+          [OpenInferenceSemanticConventions.OPENINFERENCE_SPAN_KIND]:
+            OpenInferenceSpanKind.GUARDRAIL,
+          'guardrail.stage': param.stage,
+          ...(param.tool ? { 'guardrail.tool': param.tool } : {}),
+        },
+      },
+      fn: async (span) => {
+        try {
+          const verdict = await guardrail.check(
+            {
+              stage: param.stage,
+              content,
+              tool: param.tool,
+              source: param.source,
+            },
+            { otelInfo: config.otelInfo },
+          );
+          span.setAttribute('guardrail.action', verdict.action);
+          if (verdict.action === 'block') {
+            logToSpan(
+              {
+                level: 'WARNING',
+                message: `Guardrail "${guardrail.name}" blocked the ${param.stage}`,
+                reason: verdict.reason,
+              },
+              span,
+            );
+            param.onStream({
+              type: 'agent.guardrail.blocked',
+              data: {
+                guardrail: guardrail.name,
+                stage: param.stage,
+                tool: param.tool,
+                reason: verdict.reason,
+              },
+            });
+            throw new GuardrailBlockError({
+              guardrail: guardrail.name,
+              stage: param.stage,
+              reason: verdict.reason,
+            });
+          }
+          if (verdict.action === 'redact') {
+            logToSpan(
+              {
+                level: 'INFO',
+                message: `Guardrail "${guardrail.name}" redacted the ${param.stage}`,
+              },
+              span,
+            );
+            param.onStream({
+              type: 'agent.guardrail.redacted',
+              data: {
+                guardrail: guardrail.name,
+                stage: param.stage,
+                tool: param.tool,
+              },
+            });
+            span.setStatus({ code: SpanStatusCode.OK });
+            return verdict.content;
+          }
+          span.setStatus({ code: SpanStatusCode.OK });
+          return content;
+        } catch (error) {
+          exceptionToSpan(error as Error, span);
+          span.setStatus({ code: SpanStatusCode.ERROR, message: (error as Error).message });
+          throw error;
+        } finally {
+          span.end();
+        }
+      },
+    });
+  }
+  return content;
+};
+
+/** Runs the text messages through the `'input'` guardrails and returns the checked messages. */
+export const applyInputGuardrails = async (
+  param: {
+    guardrails: IGuardrail[];
+    messages: AgentMessage[];
+    source: PermissionManagerContext;
+    onStream: AgentEventStreamer;
+  },
+  config: { otelInfo: OtelInfoType },
+): Promise<AgentMessage[]> => {
+  if (!param.guardrails.length) return param.messages;
+  const messages: AgentMessage[] = [];
+  for (const message of param.messages) {
+    if (message.content.type !== 'text') {
+      messages.push(message);
+      continue;
+    }
+    messages.push({
+      ...message,
+      content: {
+        ...message.content,
+        content: await applyGuardrails(
+          {
+            guardrails: param.guardrails,
+            stage: 'input',
+            content: message.content.content,
+            tool: null,
+            source: param.source,
+            onStream: param.onStream,
+          },
+          config,
+        ),
+      },
+    });
+  }
+  return messages;
+};
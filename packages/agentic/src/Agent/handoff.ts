@@ -0,0 +1,62 @@
+import { cleanString } from 'arvo-core';
+import z from 'zod';
+import { AgentMessageSchema } from './schema.js';
+import type { AgentHandoffTarget, AgentMessage, AgentToolDefinition } from './types.js';
+import { generateServiceToolDefinitions } from './utils.js';
+
+/**
+ * Schema of the conversation an agent hands over to another agent.
+ *
+ * An agent can only be a handoff target when the init schema of its contract declares the
+ * `handoff$$` field with this schema, e.g. `handoff$$: AgentHandoffSchema.nullable().optional()`.
+ * The receiving agent starts with the transferred messages ahead of its own initial messages.
+ */
+export const AgentHandoffSchema = z.object({
+  from: z.string().describe('The type of the agent which handed the conversation over'),
+  subject: z.string().describe('The subject of the workflow which handed the conversation over'),
+  messages: AgentMessageSchema.array().describe('The transferred conversation'),
+});
+
+/**
+ * The default filter of the transferred conversation.
+ *
+ * Keeps the text and media messages and drops the tool calls and results, since the target
+ * agent does not have the tools of the source agent.
+ */
+export const filterHandoffMessages = (messages: AgentMessage[]): AgentMessage[] =>
+  messages.filter((item) => item.content.type === 'text' || item.content.type === 'media');
+
+/**
+ * Converts the handoff targets into the tool definitions offered to the LLM.
+ *
+ * The tools reuse the Arvo service tool mechanics, so a handoff call reaches the agent as a
+ * regular service call on the init event type of the target. The `handoff$$` field is filled
+ * in by the agent and hidden from the LLM.
+ */
+export const generateHandoffToolDefinitions = (targets: Record<string, AgentHandoffTarget>) =>
+  Object.entries(
+    generateServiceToolDefinitions(
+      Object.fromEntries(Object.entries(targets).map(([key, { contract }]) => [key, { contract }])),
+    ),
+  ).map(([key, tool]) => {
+    // biome-ignore lint/correctness/noUnusedVariables: the handoff$$ is to be removed that is why it is unused
+    const { handoff$$, ...properties } = (tool.inputSchema.properties ?? {}) as Record<
+      string,
+      unknown
+    >;
+    return {
+      ...tool,
+      name: `handoff_${key.replaceAll('.', '_')}`,
+      description: cleanString(`
+        Hands the whole conversation over to another agent, which then answers the user
+        directly. Your work ends with this call. ${targets[key]?.description ?? tool.description}
+      `),
+      inputSchema: {
+        ...tool.inputSchema,
+        properties,
+        required: ((tool.inputSchema.required ?? []) as string[]).filter(
+          (item) => item !== 'handoff$$',
+        ),
+      },
+    } as unknown as AgentToolDefinition;
+  });
@@ -4,6 +4,7 @@ import {
   cleanString,
   exceptionToSpan,
   getOtelHeaderFromSpan,
+  logToSpan,
 } from 'arvo-core';
 import {
   type ArvoResumableHandler,
@@ -13,15 +14,44 @@ import {
   SimpleMachineMemory,
 } from 'arvo-event-handler';
 import { v4 } from 'uuid';
-import type { AgentInternalTool } from '../AgentTool/types.js';
+import type z from 'zod';
+import type { AgentInternalTool, AgentToolCachePolicy } from '../AgentTool/types.js';
 import type { PermissionManagerContext } from '../interfaces.permission.manager.js';
 import type { NonEmptyArray, OtelInfoType } from '../types.js';
 import { agentLoop } from './agentLoop.js';
+import {
+  AgentCancellationError,
+  agentCancellationContract,
+  createChildCancellationEvents,
+} from './cancellation.js';
+import { agentWakeUpContract, getNextDeadline, resolveOverdueToolCalls } from './deadline.js';
+import { applyGuardrails, applyInputGuardrails } from './guardrail.js';
+import {
+  type AgentHandoffSchema,
+  filterHandoffMessages,
+  generateHandoffToolDefinitions,
+} from './handoff.js';
+import { createPlan, createPlanTool } from './planning.js';
+import { getResumeThreshold, PENDING_TOOL_RESULT, shouldKeepWaiting } from './resume.js';
+import { agentSessionCloseContract, agentSessionContract } from './session.js';
 import type { AgentEventStreamer } from './stream/types.js';
 import { createTimestamp } from './stream/utils.js';
+import {
+  createToolCacheKey,
+  isToolErrorResult,
+  resolveRootSubject,
+  writeCachedToolResult,
+} from './toolResultCache.js';
+import { createToolResultReaderTool, offloadToolResult } from './toolResultStore.js';
 import type {
+  AgentBudget,
+  AgentHandoffTarget,
   AgentMessage,
+  AgentPlan,
   AgentServiceContract,
+  AgentToolCallContent,
+  AgentToolDefinition,
+  AgentToolRequest,
   AnyArvoOrchestratorContract,
   CreateArvoAgentParam,
 } from './types.js';
@@ -33,6 +63,8 @@ import {
 
 export type AgentState = {
   initEventAccessControl: string | null;
+  /** Where the completion of the workflow is routed, i.e. the initiator of the workflow. */
+  initEventReplyTo: string | null;
   currentSubject: string;
   system: string | null;
   messages: AgentMessage[];
@@ -40,12 +72,67 @@ export type AgentState = {
     max: number;
     current: number;
   };
-  awaitingToolCalls: Record<string, { type: string; data: Record<string, unknown> | null }>;
+  awaitingToolCalls: Record<
+    string,
+    {
+      type: string;
+      data: Record<string, unknown> | null;
+      cancelled?: boolean;
+      /** When the call is answered with a timeout error, if the service has a `timeoutMs`. */
+      deadline?: { at: number; timeoutMs: number } | null;
+      timedOut?: boolean;
+      /** The LLM was resumed before the response arrived and was shown a placeholder result. */
+      placeholder?: boolean;
+      /** Where the response is cached, if the service has a `cache` policy. */
+      cache?: { key: string; ttlMs: number } | null;
+    }
+  >;
   totalExecutionUnits: number;
   totalTokenUsage: {
     prompt: number;
     completion: number;
   };
+  budget: {
+    max: AgentBudget;
+    exhaustedBy: (keyof AgentBudget)[] | null;
+    /**
+     * The usage spent before the current session turn. Each turn of a session gets the
+     * whole budget, so this usage does not count towards it.
+     */
+    offset?: Required<AgentBudget> | null;
+  };
+  queuedToolCalls: AgentToolRequest[];
+  parentSubject: string | null;
+  cancelled: { reason: string | null } | null;
+  /** The state of the multi-turn session, when the `session` mode is enabled. */
+  session: {
+    /** The number of turns which have responded. */
+    turn: number;
+    /** Whether the session waits for the next user message. */
+    idle: boolean;
+    expiresAt: number | null;
+    lastOutput: Record<string, unknown> | null;
+    /** The user messages which arrived while a turn was in progress. */
+    pendingMessages: string[];
+    /** Set when a close event arrives while a turn is in progress. */
+    close: { reason: string | null } | null;
+  } | null;
+  /** The plan of the plan-and-execute mode, when the version has `planning` configured. */
+  plan: AgentPlan | null;
+  /** The number of revisions requested by the verifier in the current execution or turn. */
+  verificationAttempts: number;
+  /**
+   * The root workflow of this workflow, which owns the `'root_subject'` scoped cached
+   * tool results. Only resolved when the agent has a `toolResultCache`.
+   */
+  rootSubject: string | null;
+  /**
+   * The state the LLM integration carries between its calls, e.g. the id of the previous
+   * OpenAI response when responses are chained.
+   */
+  llmState: Record<string, unknown> | null;
+  /** The handoff whose target agent has not given its final answer yet. */
+  handoff: { target: string; toolUseId: string } | null;
 };
 
 /**
@@ -129,10 +216,20 @@ export const createArvoAgent = <
   llm,
   mcp,
   maxToolInteractions = 5,
+  budget,
+  toolExecutionPolicy = {},
+  lowPriorityToolCallStrategy = 'drop',
+  resumeStrategy = 'all',
+  toolResultStore,
+  toolResultCache,
+  cancellation,
+  session,
+  serviceDeadlineWakeUp,
   llmResponseType = 'text',
   tools,
   onStream,
   permissionManager,
+  guardrails = [],
   defaultEventEmissionDomains,
 }: CreateArvoAgentParam<TSelfContract, TServiceContract, TTools>) => {
   const serviceContracts = Object.fromEntries(
@@ -145,6 +242,18 @@ export const createArvoAgent = <
       .map((item) => [item.contract.accepts.type, item.domains]),
   ) as Record<string, NonEmptyArray<string>>;
 
+  const serviceTypeToTimeoutMap = Object.fromEntries(
+    Object.values(contracts.services)
+      .filter((item) => item.timeoutMs)
+      .map((item) => [item.contract.accepts.type, item.timeoutMs]),
+  ) as Record<string, number>;
+
+  const serviceTypeToCachePolicyMap = Object.fromEntries(
+    Object.values(contracts.services)
+      .filter((item) => item.cache)
+      .map((item) => [item.contract.accepts.type, item.cache]),
+  ) as Record<string, AgentToolCachePolicy>;
+
   if ((Object.keys(serviceContracts).length > 0 || permissionManager) && !memory) {
     // If permissions manager or service contracts are defined and
     // memory is not defined then that is not allowed at by adding
@@ -170,12 +279,125 @@ export const createArvoAgent = <
     );
   }
 
+  const handoffTargets: AgentHandoffTarget[] = Object.keys(contracts.self.versions).flatMap((ver) =>
+    Object.values(handler[ver as ArvoSemanticVersion]?.handoff?.targets ?? {}),
+  );
+  const serviceTypes = Object.values(contracts.services).map((item) => item.contract.accepts.type);
+  for (const { contract } of handoffTargets) {
+    const initSchema = contract.accepts.schema as z.AnyZodObject;
+    if ('handoff$$' in initSchema.shape && !serviceTypes.includes(contract.accepts.type)) continue;
+    throw new ConfigViolation(
+      cleanString(`
+        ArvoAgent<${contracts.self.type}> configuration error. The handoff target
+        ${contract.accepts.type} must declare the 'handoff$$' field in its init schema
+        (with the AgentHandoffSchema) and must not be one of the services of the agent.
+      `),
+    );
+  }
+
+  for (const [ver, strategy] of [
+    ['default', resumeStrategy],
+    ...Object.entries(handler).map(([ver, item]) => [ver, item?.resumeStrategy] as const),
+  ] as const) {
+    if (strategy === undefined || getResumeThreshold(strategy) !== null) continue;
+    throw new ConfigViolation(
+      cleanString(`
+        ArvoAgent<${contracts.self.type}> configuration error. The resume strategy "${strategy}"
+        (${ver}) is invalid. Use 'all', 'each' or 'quorum:<n>' where <n> is a positive integer.
+      `),
+    );
+  }
+
+  if (session?.idleTtlMs && !serviceDeadlineWakeUp) {
+    throw new ConfigViolation(
+      cleanString(`
+        ArvoAgent<${contracts.self.type}> configuration error. The session idleTtlMs
+        requires serviceDeadlineWakeUp. Without the scheduled wake-up, an idle session is
+        only closed when another event for the workflow arrives, which may never happen.
+      `),
+    );
+  }
+
+  const toAwaitingToolCalls = (
+    toolCalls: AgentToolCallContent[] | undefined,
+    state: Pick<AgentState, 'currentSubject' | 'rootSubject'>,
+  ): AgentState['awaitingToolCalls'] => {
+    const now = Date.now();
+    return Object.fromEntries(
+      (toolCalls ?? []).map((item) => {
+        const timeoutMs = serviceTypeToTimeoutMap[item.name];
+        const cachePolicy = toolResultCache ? serviceTypeToCachePolicyMap[item.name] : undefined;
+        return [
+          item.toolUseId,
+          {
+            type: item.name,
+            data: null,
+            deadline: timeoutMs ? { at: now + timeoutMs, timeoutMs } : null,
+            cache: cachePolicy
+              ? {
+                  key: createToolCacheKey({
+                    tool: item.name,
+                    input: item.input,
+                    policy: cachePolicy,
+                    subject: state.currentSubject,
+                    rootSubject: state.rootSubject ?? state.currentSubject,
+                  }),
+                  ttlMs: cachePolicy.ttlMs,
+                }
+              : null,
+          },
+        ];
+      }),
+    );
+  };
+
+  // Asks the scheduler to wake the agent up at the earliest pending deadline
+  const createWakeUpEmissions = (state: AgentState, executionunits: number) => {
+    const deadlines = [
+      getNextDeadline(state.awaitingToolCalls),
+      state.session?.idle ? state.session.expiresAt : null,
+    ].filter((item): item is number => item !== null);
+    const nextDeadline = serviceDeadlineWakeUp && deadlines.length ? Math.min(...deadlines) : null;
+    if (nextDeadline === null) return [];
+    return [
+      {
+        type: agentWakeUpContract.version('1.0.0').accepts.type,
+        data: {
+          wakeAt: new Date(nextDeadline).toISOString(),
+          parentSubject$$: state.currentSubject,
+        },
+        domain: serviceDeadlineWakeUp?.domains,
+        executionunits,
+      },
+    ];
+  };
+
   return createArvoResumable({
     contracts: {
       self: contracts.self,
       services: {
         ...serviceContracts,
         ...(permissionManager ? { [`pm-${v4()}`]: permissionManager.contract } : {}),
+        ...(cancellation ? { [`cancel-${v4()}`]: agentCancellationContract.version('1.0.0') } : {}),
+        ...Object.fromEntries(
+          Array.from(
+            new Map(
+              handoffTargets.map(({ contract }) => [
+                `${contract.accepts.type}@${contract.version}`,
+                contract,
+              ]),
+            ).values(),
+          ).map((contract) => [`handoff-${v4()}`, contract]),
+        ),
+        ...(session
+          ? {
+              [`session-${v4()}`]: agentSessionContract.version('1.0.0'),
+              [`session-close-${v4()}`]: agentSessionCloseContract.version('1.0.0'),
+            }
+          : {}),
+        ...(serviceDeadlineWakeUp
+          ? { [`wakeup-${v4()}`]: agentWakeUpContract.version('1.0.0') }
+          : {}),
       },
     },
     memory: memory ?? new SimpleMachineMemory(),
@@ -237,6 +459,181 @@ export const createArvoAgent = <
             const serviceTools = generateServiceToolDefinitions(contracts.services);
             const mcpTools = await generateMcpToolDefinitions(mcp ?? null, { otelInfo });
             const internalTools = generateAgentInternalToolDefinitions<TTools>(tools ?? {});
+            const toolResultReader = toolResultStore
+              ? (generateAgentInternalToolDefinitions({
+                  toolResultReaderTool: createToolResultReaderTool(
+                    toolResultStore,
+                    permissionManagerContext.subject,
+                  ),
+                }).toolResultReaderTool as unknown as AgentToolDefinition)
+              : null;
+            const handoffConfig = handler[ver as ArvoSemanticVersion]?.handoff ?? null;
+            const planningConfig = handler[ver as ArvoSemanticVersion]?.planning ?? null;
+            // The plan tool updates the plan in place and the updated plan is persisted
+            const planHolder: { current: AgentPlan | null } = {
+              current: context?.plan ? structuredClone(context.plan) : null,
+            };
+            const planTool = planningConfig
+              ? (generateAgentInternalToolDefinitions({ planTool: createPlanTool(planHolder) })
+                  .planTool as unknown as AgentToolDefinition)
+              : null;
+            const planToolConfig = planTool
+              ? { holder: planHolder, toolName: planTool.name }
+              : null;
+            const verificationConfig = handler[ver as ArvoSemanticVersion]?.verification ?? null;
+            // The LLM integration state is updated in place by the agent loop and persisted
+            const llmStateHolder: { current: Record<string, unknown> | null } = {
+              current: context?.llmState ?? null,
+            };
+            const handoffTools = generateHandoffToolDefinitions(handoffConfig?.targets ?? {});
+            const agentTools = [
+              ...Object.values({ ...mcpTools, ...serviceTools, ...internalTools }),
+              ...(toolResultReader ? [toolResultReader] : []),
+              ...(planTool ? [planTool] : []),
+              ...handoffTools,
+            ];
+            const toolResultStoreConfig =
+              toolResultStore && toolResultReader
+                ? { config: toolResultStore, readerToolName: toolResultReader.name }
+                : null;
+
+            type AgentOutput = NonNullable<Awaited<ReturnType<typeof agentLoop>>['output']>;
+            type AgentLoopResponse = Awaited<ReturnType<typeof agentLoop>>;
+
+            const completeWorkflow = async (state: AgentState, output: AgentOutput) => {
+              await permissionManager?.cleanup?.({
+                source: permissionManagerContext,
+                config: { otelInfo },
+              });
+              await toolResultStore?.store.cleanup?.(
+                { subject: permissionManagerContext.subject },
+                { otelInfo },
+              );
+              return {
+                context: state,
+                output: {
+                  __executionunits: state.totalExecutionUnits,
+                  ...output,
+                },
+              };
+            };
+
+            const closeSession = async (
+              state: AgentState,
+              output: AgentOutput,
+              idleTimeout: boolean,
+            ) => {
+              const reason = state.session?.close?.reason ?? null;
+              logToSpan(
+                {
+                  level: 'INFO',
+                  message: `Agent session closed after ${state.session?.turn ?? 0} turn(s)${idleTimeout ? ' due to inactivity' : ''}`,
+                  reason: reason ?? 'unknown',
+                },
+                span,
+              );
+              agentEventStreamer({
+                type: 'agent.session.closed',
+                data: {
+                  turns: state.session?.turn ?? 0,
+                  reason,
+                  idleTimeout,
+                  usage: state.totalTokenUsage,
+                  executionunits: state.totalExecutionUnits,
+                },
+              });
+              return await completeWorkflow(state, output);
+            };
+
+            // A call to a handoff target starts the target agent with the conversation. This
+            // workflow waits for its final answer, so the initiator receives one completion only
+            const handOff = async (state: AgentState, response: AgentLoopResponse) => {
+              const targets = Object.entries(handoffConfig?.targets ?? {});
+              const toolCall = response.toolCalls?.find((call) =>
+                targets.some(([, target]) => target.contract.accepts.type === call.name),
+              );
+              const [key, target] =
+                targets.find(([, item]) => item.contract.accepts.type === toolCall?.name) ?? [];
+              if (!handoffConfig || !toolCall || !key || !target) return null;
+              const transferredMessages = (target.filterMessages ?? filterHandoffMessages)(
+                state.messages,
+              ).map((item) => ({ ...item, seenCount: 0 }));
+              logToSpan(
+                {
+                  level: 'INFO',
+                  message: `Agent handed the conversation over to ${target.contract.accepts.type}`,
+                  transferredMessages: String(transferredMessages.length),
+                },
+                span,
+              );
+              agentEventStreamer({
+                type: 'agent.handoff',
+                data: {
+                  target: key,
+                  type: target.contract.accepts.type,
+                  transferredMessages: transferredMessages.length,
+                  usage: state.totalTokenUsage,
+                  executionunits: state.totalExecutionUnits,
+                },
+              });
+              return {
+                context: { ...state, handoff: { target: key, toolUseId: toolCall.toolUseId } },
+                services: [
+                  {
+                    id: { deduplication: 'DEVELOPER_MANAGED', value: toolCall.toolUseId },
+                    type: toolCall.name,
+                    data: {
+                      ...toolCall.input,
+                      parentSubject$$: state.currentSubject,
+                      handoff$$: {
+                        from: contracts.self.type,
+                        subject: state.currentSubject,
+                        messages: transferredMessages,
+                      },
+                    },
+                    domain: target.domains,
+                    executionunits: state.totalExecutionUnits,
+                  },
+                ],
+              };
+            };
+
+            // In a session, an output responds to the turn and the workflow stays open
+            const respondToTurn = async (state: AgentState, output: AgentOutput) => {
+              if (!state.session) return await completeWorkflow(state, output);
+              const turn = state.session.turn + 1;
+              const respondedState: AgentState = {
+                ...state,
+                session: {
+                  ...state.session,
+                  turn,
+                  idle: true,
+                  expiresAt: session?.idleTtlMs ? Date.now() + session.idleTtlMs : null,
+                  lastOutput: output,
+                },
+              };
+              if (state.session.close) return await closeSession(respondedState, output, false);
+              agentEventStreamer({
+                type: 'agent.session.turn',
+                data: {
+                  turn,
+                  usage: state.totalTokenUsage,
+                  executionunits: state.totalExecutionUnits,
+                },
+              });
+              return {
+                context: respondedState,
+                services: [
+                  {
+                    type: agentSessionContract.version('1.0.0').accepts.type,
+                    data: { turn, output, parentSubject$$: state.currentSubject },
+                    domain: session?.domains,
+                    executionunits: state.totalExecutionUnits,
+                  },
+                  ...createWakeUpEmissions(respondedState, state.totalExecutionUnits),
+                ],
+              };
+            };
 
             const permissionPolicy: string[] =
               (await handler[ver as ArvoSemanticVersion]?.explicitPermissionRequired?.({
@@ -250,9 +647,159 @@ export const createArvoAgent = <
               current: 0,
             };
 
+            const budgetState: AgentState['budget'] = context?.budget ?? {
+              max: handler[ver as ArvoSemanticVersion]?.budget ?? budget ?? {},
+              exhaustedBy: null,
+            };
+
+            const parentSubject: string | null =
+              context?.parentSubject ?? input?.data?.parentSubject$$ ?? null;
+            let cancellationRequest: { reason: string | null; cascaded: boolean } | null = null;
+            // The cancellation of the parent workflow cascades to this workflow, whether its
+            // cancel event arrived or this workflow found it in the registry
+            const parentCancellation =
+              cancellation?.registry && parentSubject
+                ? await cancellation.registry.get({ subject: parentSubject }, { otelInfo })
+                : null;
+            if (parentCancellation) {
+              cancellationRequest = {
+                reason: `The parent workflow ${parentSubject} was cancelled${parentCancellation.reason ? `. Reason: ${parentCancellation.reason}` : ''}`,
+                cascaded: true,
+              };
+            } else if (
+              cancellation &&
+              service?.type === agentCancellationContract.version('1.0.0').emitList[0].type
+            ) {
+              cancellationRequest = {
+                reason: (service.data as { reason?: string | null } | null)?.reason ?? null,
+                cascaded: false,
+              };
+            }
+
+            if (cancellationRequest) {
+              const cancelledToolCalls = Object.entries(context?.awaitingToolCalls ?? {})
+                .filter(([, item]) => item.data === null)
+                .map(([toolUseId, { type }]) => ({ toolUseId, type }));
+              const cancelledContext: AgentState = {
+                initEventAccessControl:
+                  context?.initEventAccessControl ?? input?.accesscontrol ?? null,
+                initEventReplyTo:
+                  context?.initEventReplyTo ?? input?.redirectto ?? input?.source ?? null,
+                currentSubject: permissionManagerContext.subject,
+                system: context?.system ?? null,
+                messages: context?.messages ?? [],
+                toolInteractions: toolInteraction,
+                awaitingToolCalls: Object.fromEntries(
+                  Object.entries(context?.awaitingToolCalls ?? {}).map(([toolUseId, item]) => [
+                    toolUseId,
+                    item.data === null ? { ...item, cancelled: true } : item,
+                  ]),
+                ),
+                totalExecutionUnits: context?.totalExecutionUnits ?? 0,
+                totalTokenUsage: context?.totalTokenUsage ?? { prompt: 0, completion: 0 },
+                budget: budgetState,
+                queuedToolCalls: [],
+                parentSubject,
+                cancelled: { reason: cancellationRequest.reason },
+                session: context?.session ?? null,
+                plan: context?.plan ?? null,
+                verificationAttempts: context?.verificationAttempts ?? 0,
+                rootSubject: context?.rootSubject ?? null,
+                llmState: context?.llmState ?? null,
+                handoff: context?.handoff ?? null,
+              };
+
+              logToSpan(
+                {
+                  level: 'WARNING',
+                  message: `Agent workflow cancelled${cancellationRequest.cascaded ? ' by its parent workflow' : ''}`,
+                  reason: cancellationRequest.reason ?? 'unknown',
+                  cancelledToolCalls: JSON.stringify(cancelledToolCalls),
+                },
+                span,
+              );
+
+              // Lets the workflows started by this agent cancel themselves as well
+              await cancellation?.registry?.cancel(
+                { subject: cancelledContext.currentSubject, reason: cancellationRequest.reason },
+                { otelInfo },
+              );
+              // Wakes up the children which have not responded, as they may be suspended
+              if (cancellation?.registry && cancellation.emit) {
+                try {
+                  const childCancellationEvents = await createChildCancellationEvents(
+                    {
+                      registry: cancellation.registry,
+                      subject: cancelledContext.currentSubject,
+                      source: contracts.self.type,
+                      reason: cancellationRequest.reason,
+                      toolCalls: cancelledToolCalls,
+                    },
+                    { otelInfo },
+                  );
+                  for (const event of childCancellationEvents) {
+                    await cancellation.emit(event, { otelInfo });
+                  }
+                } catch (e) {
+                  // The children still cancel themselves on their next event
+                  exceptionToSpan(e as Error, span);
+                }
+              }
+
+              agentEventStreamer({
+                type: 'agent.cancelled',
+                data: {
+                  reason: cancellationRequest.reason,
+                  cascaded: cancellationRequest.cascaded,
+                  cancelledToolCalls: cancelledToolCalls.map((item) => item.type),
+                  usage: cancelledContext.totalTokenUsage,
+                  executionunits: cancelledContext.totalExecutionUnits,
+                },
+              });
+
+              await permissionManager?.cleanup?.({
+                source: permissionManagerContext,
+                config: { otelInfo },
+              });
+              await toolResultStore?.store.cleanup?.(
+                { subject: permissionManagerContext.subject },
+                { otelInfo },
+              );
+
+              const cancellationOutput = handler[ver as ArvoSemanticVersion]?.cancellationOutput;
+              if (!cancellationOutput) {
+                throw new AgentCancellationError({
+                  subject: cancelledContext.currentSubject,
+                  reason: cancellationRequest.reason,
+                });
+              }
+
+              return {
+                context: cancelledContext,
+                output: {
+                  __executionunits: cancelledContext.totalExecutionUnits,
+                  ...(await cancellationOutput({
+                    reason: cancellationRequest.reason,
+                    cancelledToolCalls,
+                    span,
+                  })),
+                },
+              };
+            }
+
             if (input) {
-              // biome-ignore lint/correctness/noUnusedVariables: This 'parentSubject$$' needs to be removed
-              const { parentSubject$$, ...inputData } = input.data;
+              const { parentSubject$$, handoff$$, ...inputData } =
+                input.data as typeof input.data & {
+                  handoff$$?: z.infer<typeof AgentHandoffSchema> | null;
+                };
+              // The parent emits the event with the id of its tool call, so its cancellation
+              // can find this workflow
+              if (parentSubject$$) {
+                await cancellation?.registry?.register?.(
+                  { subject: input.subject, parentSubject: parentSubject$$, toolUseId: input.id },
+                  { otelInfo },
+                );
+              }
               const llmContext =
                 (await contextBuilder({
                   lifecycle: 'init',
@@ -261,87 +808,178 @@ export const createArvoAgent = <
                   span,
                   selfContract: selfVersionedContract,
                 })) ?? null;
+              const initMessages = await applyInputGuardrails(
+                {
+                  guardrails,
+                  messages: [
+                    // The conversation handed over by another agent precedes the initial messages
+                    ...(handoff$$
+                      ? [
+                          ...handoff$$.messages,
+                          {
+                            role: 'user',
+                            content: {
+                              type: 'text',
+                              content: `[Handoff] The conversation above was handed over to you by the agent "${handoff$$.from}". Continue it from here.`,
+                            },
+                            seenCount: 0,
+                          },
+                        ]
+                      : []),
+                    ...(llmContext?.messages?.length
+                      ? llmContext.messages
+                      : [
+                          {
+                            role: 'user',
+                            content: { type: 'text', content: JSON.stringify(inputData) },
+                            seenCount: 0,
+                          },
+                        ]),
+                  ].map((item) => ({ ...item, seenCount: item.seenCount ?? 0 })) as AgentMessage[],
+                  source: permissionManagerContext,
+                  onStream: agentEventStreamer,
+                },
+                { otelInfo },
+              );
+
+              const planning = planningConfig
+                ? await createPlan(
+                    {
+                      messages: initMessages,
+                      system: llmContext?.system ?? null,
+                      // The plan tool only exists to track the plan once it is written
+                      tools: agentTools.filter((tool) => tool !== planTool),
+                      config: planningConfig,
+                      llm: thisVersionLlmIntegration,
+                    },
+                    { otelInfo },
+                  )
+                : null;
+              if (planning) {
+                planHolder.current = planning.plan;
+                agentEventStreamer({
+                  type: 'agent.plan.created',
+                  data: {
+                    steps: structuredClone(planning.plan.steps),
+                    usage: planning.usage,
+                    executionunits: planning.executionUnits,
+                  },
+                });
+              }
+
+              const rootSubject = toolResultCache
+                ? await resolveRootSubject(
+                    {
+                      subject: input.subject,
+                      parentSubject: parentSubject$$ ?? null,
+                      config: toolResultCache,
+                    },
+                    { otelInfo },
+                  )
+                : null;
+
               const response = await agentLoop(
                 {
                   permissionManagerContext,
                   initLifecycle: 'init',
                   system: llmContext?.system ?? null,
-                  messages: (llmContext?.messages?.length
-                    ? llmContext.messages
-                    : [
-                        {
-                          role: 'user',
-                          content: { type: 'text', content: JSON.stringify(inputData) },
-                          seenCount: 0,
-                        },
-                      ]
-                  ).map((item) => ({ ...item, seenCount: item.seenCount ?? 0 })) as AgentMessage[],
-                  tools: Object.values({ ...mcpTools, ...serviceTools, ...internalTools }),
+                  messages: initMessages,
+                  tools: agentTools,
                   outputFormat,
                   outputBuilder: outputBuilder,
                   llmResponseType: versionLlmResponseType,
                   llm: thisVersionLlmIntegration,
                   mcp: mcp ?? null,
                   toolInteraction,
-                  currentTotalExecutionUnits: 0,
+                  currentTotalExecutionUnits: planning?.executionUnits ?? 0,
                   onStream: agentEventStreamer,
                   currentTotalUsageTokens: {
-                    prompt: 0,
-                    completion: 0,
+                    prompt: planning?.usage.prompt ?? 0,
+                    completion: planning?.usage.completion ?? 0,
                   },
+                  budget: budgetState,
+                  toolExecutionPolicy,
+                  lowPriorityToolCallStrategy,
+                  queuedToolCalls: [],
+                  compaction: handler[ver as ArvoSemanticVersion]?.compaction ?? null,
+                  toolResultStore: toolResultStoreConfig,
+                  plan: planToolConfig,
+                  llmState: llmStateHolder,
+                  verification: verificationConfig
+                    ? { config: verificationConfig, attempts: 0 }
+                    : null,
+                  guardrails,
+                  toolResultCache:
+                    toolResultCache && rootSubject
+                      ? { config: toolResultCache, rootSubject }
+                      : null,
                   permissionManager: permissionManager ?? null,
                   permissionPolicy,
+                  handoffToolNames: handoffTools.map((item) => item.name),
                 },
                 { otelInfo },
               );
 
               const resumableContextToPersist: AgentState = {
                 initEventAccessControl: input.accesscontrol ?? null,
+                initEventReplyTo: input.redirectto ?? input.source ?? null,
                 currentSubject: input.subject,
                 system: llmContext?.system ?? null,
                 messages: response.messages,
                 toolInteractions: response.toolInteractions,
-                awaitingToolCalls: Object.fromEntries(
-                  (response.toolCalls ?? []).map((item) => [
-                    item.toolUseId,
-                    { type: item.name, data: null },
-                  ]),
-                ),
+                awaitingToolCalls: toAwaitingToolCalls(response.toolCalls, {
+                  currentSubject: input.subject,
+                  rootSubject,
+                }),
                 totalExecutionUnits: response.executionUnits,
                 totalTokenUsage: response.tokenUsage,
+                budget: response.budget,
+                queuedToolCalls: response.queuedToolCalls,
+                parentSubject: parentSubject$$ ?? null,
+                cancelled: null,
+                plan: planHolder.current,
+                verificationAttempts: response.verificationAttempts,
+                rootSubject,
+                llmState: llmStateHolder.current,
+                handoff: null,
+                session: session
+                  ? {
+                      turn: 0,
+                      idle: false,
+                      expiresAt: null,
+                      lastOutput: null,
+                      pendingMessages: [],
+                      close: null,
+                    }
+                  : null,
               };
 
+              const handoffResult = await handOff(resumableContextToPersist, response);
+              if (handoffResult) return handoffResult;
+
               if (response.toolCalls) {
                 return {
                   context: resumableContextToPersist,
-                  services: response.toolCalls.map((item) => ({
-                    id: { deduplication: 'DEVELOPER_MANAGED', value: item.toolUseId },
-                    type: item.name,
-                    data: {
-                      ...item.input,
-                      parentSubject$$: resumableContextToPersist.currentSubject,
-                    },
-                    domain:
-                      permissionManager?.contract.accepts.type === item.name
-                        ? (permissionManager.domains ?? undefined)
-                        : serviceTypeToDomainMap[item.name],
-                    executionunits: response.executionUnits,
-                  })),
+                  services: [
+                    ...response.toolCalls.map((item) => ({
+                      id: { deduplication: 'DEVELOPER_MANAGED', value: item.toolUseId },
+                      type: item.name,
+                      data: {
+                        ...item.input,
+                        parentSubject$$: resumableContextToPersist.currentSubject,
+                      },
+                      domain:
+                        permissionManager?.contract.accepts.type === item.name
+                          ? (permissionManager.domains ?? undefined)
+                          : serviceTypeToDomainMap[item.name],
+                      executionunits: response.executionUnits,
+                    })),
+                    ...createWakeUpEmissions(resumableContextToPersist, response.executionUnits),
+                  ],
                 };
               }
 
-              await permissionManager?.cleanup?.({
-                source: permissionManagerContext,
-                config: { otelInfo },
-              });
-
-              return {
-                context: resumableContextToPersist,
-                output: {
-                  __executionunits: response.executionUnits,
-                  ...response.output,
-                },
-              };
+              return await respondToTurn(resumableContextToPersist, response.output);
             }
 
             if (!context) {
@@ -349,10 +987,78 @@ export const createArvoAgent = <
             }
 
             const resumedContext = { ...context };
+            let startsSessionTurn = false;
+
+            if (resumedContext.session) {
+              const isSessionMessage =
+                service?.type === agentSessionContract.version('1.0.0').emitList[0].type;
+              const closeRequest =
+                service?.type === agentSessionCloseContract.version('1.0.0').emitList[0].type
+                  ? { reason: (service.data as { reason?: string | null }).reason ?? null }
+                  : null;
+              const idleTimeout =
+                resumedContext.session.idle &&
+                resumedContext.session.expiresAt !== null &&
+                resumedContext.session.expiresAt <= Date.now();
+
+              if (resumedContext.session.idle && (closeRequest || idleTimeout)) {
+                return await closeSession(
+                  {
+                    ...resumedContext,
+                    session: {
+                      ...resumedContext.session,
+                      close: closeRequest ?? {
+                        reason: `The session was idle for more than ${session?.idleTtlMs}ms`,
+                      },
+                    },
+                  },
+                  (resumedContext.session.lastOutput ?? {}) as AgentOutput,
+                  idleTimeout,
+                );
+              }
+
+              if (closeRequest || isSessionMessage) {
+                const message = isSessionMessage
+                  ? (service.data as { message: string }).message
+                  : null;
+                resumedContext.session = {
+                  ...resumedContext.session,
+                  idle: false,
+                  expiresAt: null,
+                  pendingMessages: [
+                    ...resumedContext.session.pendingMessages,
+                    ...(message !== null ? [message] : []),
+                  ],
+                  close: closeRequest ?? resumedContext.session.close,
+                };
+                // A message arriving during a turn is added once the turn resumes
+                if (!context.session?.idle) return { context: resumedContext };
+                resumedContext.toolInteractions = {
+                  ...resumedContext.toolInteractions,
+                  current: 0,
+                };
+                resumedContext.verificationAttempts = 0;
+                resumedContext.budget = {
+                  ...resumedContext.budget,
+                  exhaustedBy: null,
+                  offset: {
+                    executionUnits: resumedContext.totalExecutionUnits,
+                    promptTokens: resumedContext.totalTokenUsage.prompt,
+                    completionTokens: resumedContext.totalTokenUsage.completion,
+                  },
+                };
+                startsSessionTurn = true;
+              }
+            }
 
             if (service?.parentid && resumedContext.awaitingToolCalls[service.parentid]) {
               // biome-ignore lint/style/noNonNullAssertion: It cannot be null. The if clause does already
               resumedContext.awaitingToolCalls[service.parentid]!.data = service.data;
+              // The system error events of the services are never cached
+              if (service.type.startsWith('sys.')) {
+                // biome-ignore lint/style/noNonNullAssertion: It cannot be null. The if clause does already
+                resumedContext.awaitingToolCalls[service.parentid]!.cache = null;
+              }
 
               if (service.type === permissionManager?.contract?.emitList?.[0]?.type) {
                 await permissionManager?.set({
@@ -373,17 +1079,120 @@ export const createArvoAgent = <
               }
             }
 
+            // The final answer of the handoff target completes this workflow
+            if (resumedContext.handoff && handoffConfig) {
+              const handoffCall =
+                resumedContext.awaitingToolCalls[resumedContext.handoff.toolUseId];
+              if (!handoffCall?.data) return { context: resumedContext };
+              if (service?.type.startsWith('sys.')) {
+                throw new Error(
+                  cleanString(`
+                    The handoff target ${handoffCall.type} failed with error:
+                    ${JSON.stringify(handoffCall.data)}
+                  `),
+                );
+              }
+              return await completeWorkflow(
+                resumedContext,
+                (await handoffConfig.output({
+                  target: resumedContext.handoff.target,
+                  output: handoffCall.data,
+                  span,
+                })) as AgentOutput,
+              );
+            }
+
+            for (const item of resolveOverdueToolCalls(resumedContext.awaitingToolCalls)) {
+              const serviceTool = Object.values(serviceTools).find(
+                (tool) => tool.serverConfig.name === item.type,
+              );
+              logToSpan(
+                {
+                  level: 'WARNING',
+                  message: `Service "${item.type}" did not respond within ${item.timeoutMs}ms`,
+                  toolUseId: item.toolUseId,
+                },
+                span,
+              );
+              agentEventStreamer({
+                type: 'agent.tool.timeout',
+                data: {
+                  tool: {
+                    name: serviceTool?.name ?? item.type,
+                    kind: 'arvo',
+                    originalName: item.type,
+                  },
+                  toolUseId: item.toolUseId,
+                  timeoutMs: item.timeoutMs,
+                  attempt: 1,
+                  willRetry: false,
+                  usage: resumedContext.totalTokenUsage,
+                  executionunits: resumedContext.totalExecutionUnits,
+                },
+              });
+            }
+
             if (
-              Object.values(resumedContext.awaitingToolCalls).some((item) => item.data === null)
+              !startsSessionTurn &&
+              (resumedContext.session?.idle ||
+                shouldKeepWaiting({
+                  awaitingToolCalls: resumedContext.awaitingToolCalls,
+                  threshold:
+                    getResumeThreshold(
+                      handler[ver as ArvoSemanticVersion]?.resumeStrategy ?? resumeStrategy,
+                    ) ?? Number.POSITIVE_INFINITY,
+                  permissionRequestType: permissionManager?.contract?.accepts?.type ?? null,
+                }))
             ) {
+              if (service?.type === agentWakeUpContract.version('1.0.0').emitList[0].type) {
+                // Woken up before all the deadlines passed. Schedule the next wake-up
+                return {
+                  context: resumedContext,
+                  services: createWakeUpEmissions(
+                    resumedContext,
+                    resumedContext.totalExecutionUnits,
+                  ),
+                };
+              }
               return { context: resumedContext };
             }
 
             const messages = [...resumedContext.messages];
+            // Responses to calls which were answered with a placeholder in an earlier turn.
+            // Their tool_use already has a tool_result, so they are added as user messages
+            // after the tool results of this turn.
+            const lateResponseMessages: AgentMessage[] = [];
+            const stillAwaitingToolCalls: AgentState['awaitingToolCalls'] = {};
+            const toToolResultContent = async (
+              type: string,
+              data: Record<string, unknown> | null,
+            ) => {
+              const content = await applyGuardrails(
+                {
+                  guardrails,
+                  stage: 'tool_result',
+                  content: JSON.stringify(data ?? {}),
+                  tool: type,
+                  source: permissionManagerContext,
+                  onStream: agentEventStreamer,
+                },
+                { otelInfo },
+              );
+              return toolResultStoreConfig
+                ? await offloadToolResult(
+                    {
+                      content,
+                      subject: permissionManagerContext.subject,
+                      config: toolResultStoreConfig.config,
+                      readerToolName: toolResultStoreConfig.readerToolName,
+                    },
+                    { otelInfo },
+                  )
+                : content;
+            };
 
-            for (const [toolUseId, { type, data }] of Object.entries(
-              resumedContext.awaitingToolCalls,
-            )) {
+            for (const [toolUseId, item] of Object.entries(resumedContext.awaitingToolCalls)) {
+              const { type, data } = item;
               if (type === permissionManager?.contract?.accepts?.type) {
                 messages.push({
                   role: 'user',
@@ -395,35 +1204,115 @@ export const createArvoAgent = <
                 });
                 continue;
               }
+              if (data === null) {
+                stillAwaitingToolCalls[toolUseId] = { ...item, placeholder: true };
+                if (item.placeholder) continue;
+                messages.push({
+                  role: 'user',
+                  content: {
+                    type: 'tool_result',
+                    toolUseId,
+                    content: JSON.stringify(PENDING_TOOL_RESULT),
+                  },
+                  seenCount: 0,
+                });
+                continue;
+              }
+              if (
+                toolResultCache &&
+                item.cache &&
+                !item.timedOut &&
+                !item.cancelled &&
+                !isToolErrorResult(JSON.stringify(data))
+              ) {
+                await writeCachedToolResult(
+                  {
+                    key: item.cache.key,
+                    content: JSON.stringify(data),
+                    ttlMs: item.cache.ttlMs,
+                    config: toolResultCache,
+                  },
+                  { otelInfo },
+                );
+              }
+              if (item.placeholder) {
+                lateResponseMessages.push({
+                  role: 'user',
+                  content: {
+                    type: 'text',
+                    content: `The response of the earlier pending tool call "${toolUseId}" (${type}). ${await toToolResultContent(type, data)}`,
+                  },
+                  seenCount: 0,
+                });
+                continue;
+              }
               messages.push({
                 role: 'user',
                 content: {
                   type: 'tool_result',
                   toolUseId,
-                  content: JSON.stringify(data ?? {}),
+                  content: await toToolResultContent(type, data),
                 },
                 seenCount: 0,
               });
             }
+            messages.push(...lateResponseMessages);
+            messages.push(
+              ...(await applyInputGuardrails(
+                {
+                  guardrails,
+                  messages: (resumedContext.session?.pendingMessages ?? []).map((message) => ({
+                    role: 'user',
+                    content: { type: 'text', content: message },
+                    seenCount: 0,
+                  })),
+                  source: permissionManagerContext,
+                  onStream: agentEventStreamer,
+                },
+                { otelInfo },
+              )),
+            );
 
             const response = await agentLoop(
               {
                 permissionManagerContext,
-                initLifecycle: 'tool_result',
+                initLifecycle: startsSessionTurn ? 'init' : 'tool_result',
                 system: resumedContext.system ?? null,
                 messages: messages,
-                tools: Object.values({ ...mcpTools, ...serviceTools, ...internalTools }),
+                tools: agentTools,
                 outputFormat,
                 outputBuilder: outputBuilder,
                 llmResponseType: versionLlmResponseType,
                 llm: thisVersionLlmIntegration,
                 mcp: mcp ?? null,
-                toolInteraction,
+                toolInteraction: resumedContext.toolInteractions,
                 currentTotalExecutionUnits: resumedContext.totalExecutionUnits,
                 onStream: agentEventStreamer,
                 currentTotalUsageTokens: resumedContext.totalTokenUsage,
+                budget: resumedContext.budget,
+                toolExecutionPolicy,
+                lowPriorityToolCallStrategy,
+                queuedToolCalls: resumedContext.queuedToolCalls ?? [],
+                compaction: handler[ver as ArvoSemanticVersion]?.compaction ?? null,
+                toolResultStore: toolResultStoreConfig,
+                plan: planToolConfig,
+                llmState: llmStateHolder,
+                verification: verificationConfig
+                  ? {
+                      config: verificationConfig,
+                      attempts: resumedContext.verificationAttempts ?? 0,
+                    }
+                  : null,
+                guardrails,
+                toolResultCache: toolResultCache
+                  ? {
+                      config: toolResultCache,
+                      rootSubject: resumedContext.rootSubject ?? resumedContext.currentSubject,
+                    }
+                  : null,
                 permissionManager: permissionManager ?? null,
                 permissionPolicy,
+                handoffToolNames: handoffTools.map((item) => item.name),
               },
               { otelInfo },
             );
@@ -432,47 +1321,48 @@ export const createArvoAgent = <
               ...resumedContext,
               messages: response.messages,
               toolInteractions: response.toolInteractions,
-              awaitingToolCalls: Object.fromEntries(
-                (response.toolCalls ?? []).map((item) => [
-                  item.toolUseId,
-                  { type: item.name, data: null },
-                ]),
-              ),
+              awaitingToolCalls: {
+                ...stillAwaitingToolCalls,
+                ...toAwaitingToolCalls(response.toolCalls, resumedContext),
+              },
+              session: resumedContext.session
+                ? { ...resumedContext.session, pendingMessages: [] }
+                : null,
+              plan: planHolder.current,
+              llmState: llmStateHolder.current,
+              verificationAttempts: response.verificationAttempts,
               totalExecutionUnits: response.executionUnits,
               totalTokenUsage: response.tokenUsage,
+              budget: response.budget,
+              queuedToolCalls: response.queuedToolCalls,
             };
 
+            const handoffResult = await handOff(resumableContextToPersist, response);
+            if (handoffResult) return handoffResult;
+
             if (response.toolCalls) {
               return {
                 context: resumableContextToPersist,
-                services: response.toolCalls.map((item) => ({
-                  id: { deduplication: 'DEVELOPER_MANAGED', value: item.toolUseId },
-                  type: item.name,
-                  data: {
-                    ...item.input,
-                    parentSubject$$: resumableContextToPersist.currentSubject,
-                  },
-                  domain:
-                    permissionManager?.contract.accepts.type === item.name
-                      ? (permissionManager.domains ?? undefined)
-                      : serviceTypeToDomainMap[item.name],
-                  executionunits: response.executionUnits,
-                })),
+                services: [
+                  ...response.toolCalls.map((item) => ({
+                    id: { deduplication: 'DEVELOPER_MANAGED', value: item.toolUseId },
+                    type: item.name,
+                    data: {
+                      ...item.input,
+                      parentSubject$$: resumableContextToPersist.currentSubject,
+                    },
+                    domain:
+                      permissionManager?.contract.accepts.type === item.name
+                        ? (permissionManager.domains ?? undefined)
+                        : serviceTypeToDomainMap[item.name],
+                    executionunits: response.executionUnits,
+                  })),
+                  ...createWakeUpEmissions(resumableContextToPersist, response.executionUnits),
+                ],
               };
             }
 
-            await permissionManager?.cleanup?.({
-              source: permissionManagerContext,
-              config: { otelInfo },
-            });
-
-            return {
-              context: resumableContextToPersist,
-              output: {
-                __executionunits: response.executionUnits,
-                ...response.output,
-              },
-            };
+            return await respondToTurn(resumableContextToPersist, response.output);
           } catch (e) {
             // Add correct otelinfo object here
             await permissionManager?.cleanup?.({
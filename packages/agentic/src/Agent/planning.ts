@@ -0,0 +1,203 @@
+import {
+  SemanticConventions as OpenInferenceSemanticConventions,
+  OpenInferenceSpanKind,
+} from '@arizeai/openinference-semantic-conventions';
+import { SpanStatusCode } from '@opentelemetry/api';
+import {
+  ArvoOpenTelemetry,
+  cleanString,
+  exceptionToSpan,
+  getOtelHeaderFromSpan,
+  logToSpan,
+} from 'arvo-core';
+import z from 'zod';
+import { createAgentTool } from '../AgentTool/index.js';
+import { DEFAULT_PLANNING_PROMPT } from '../Integrations/prompts.js';
+import type { AgentLLMIntegration } from '../Integrations/types.js';
+import type { OtelInfoType } from '../types.js';
+import { AgentPlanStepSchema } from './schema.js';
+import type { AgentMessage, AgentPlan, AgentPlanningConfig, AgentToolDefinition } from './types.js';
+
+const DEFAULT_MAX_PLAN_STEPS = 10;
+
+/** Renders the plan as the system prompt section shown to the LLM on every turn. */
+export const renderPlan = (plan: AgentPlan, planToolName: string): string =>
+  [
+    cleanString(`
+      # Plan
+      Work through the following plan step by step. Keep it current with the tool
+      "${planToolName}": mark a step as in_progress when you start it and as completed
+      or skipped once it is done, and add steps when you learn that more work is needed.
+    `),
+    ...plan.steps.map(
+      (step) =>
+        `${step.id}. [${step.status}] ${step.description}${step.note ? ` (${step.note})` : ''}`,
+    ),
+  ].join('\n');
+
+/**
+ * Asks the planner LLM to break the request down into the initial plan.
+ *
+ * The planner sees the system prompt of the Agent, the names and descriptions of its tools
+ * and the initial messages, rendered as text.
+ */
+export const createPlan = async (
+  param: {
+    messages: AgentMessage[];
+    system: string | null;
+    tools: AgentToolDefinition[];
+    config: AgentPlanningConfig;
+    llm: AgentLLMIntegration;
+  },
+  config: { otelInfo: OtelInfoType },
+) =>
+  await ArvoOpenTelemetry.getInstance().startActiveSpan({
+    name: 'AgentPlanning',
+    disableSpanManagement: true,
+    context: {
+      inheritFrom: 'TRACE_HEADERS',
+      traceHeaders: config.otelInfo.headers,
+    },
+    spanOptions: {
+      attributes: {
+        [OpenInferenceSemanticConventions.OPENINFERENCE_SPAN_KIND]: OpenInferenceSpanKind.CHAIN,
+      },
+    },
+    fn: async (span) => {
+      const otelInfo: OtelInfoType = { span, headers: getOtelHeaderFromSpan(span) };
+      try {
+        const maxSteps = param.config.maxSteps ?? DEFAULT_MAX_PLAN_STEPS;
+        const planFormat = z.object({
+          steps: z
+            .array(z.string().describe('What the step does'))
+            .min(1)
+            .max(maxSteps)
+            .describe('The ordered steps of the plan'),
+        });
+        const request = [
+          `## Agent instructions\n${param.system ?? 'None'}`,
+          `## Agent tools\n${param.tools.map((tool) => `- ${tool.name}: ${tool.description}`).join('\n') || 'None'}`,
+          `## Request\n${param.messages
+            .map(({ role, content }) =>
+              content.type === 'text'
+                ? `[${role}] ${content.content}`
+                : `[${role}] (${content.type} content)`,
+            )
+            .join('\n\n')}`,
+        ].join('\n\n');
+        const response = await (param.config.llm ?? param.llm)(
+          {
+            lifecycle: 'init',
+            system: param.config.prompt ?? DEFAULT_PLANNING_PROMPT,
+            messages: [{ role: 'user', content: { type: 'text', content: request }, seenCount: 0 }],
+            tools: [],
+            toolInteractions: { current: 0, max: 1, exhausted: false },
+            budget: {
+              max: {},
+              current: { executionUnits: 0, promptTokens: 0, completionTokens: 0 },
+              exhausted: false,
+            },
+            outputFormat: { type: 'json', format: planFormat },
+            // The planning is internal to the Agent and is not streamed
+            onStream: () => {},
+          },
+          { otelInfo },
+        );
+        if (response.type !== 'json') {
+          throw new Error('The planner LLM did not respond with a JSON plan');
+        }
+        const parsed = planFormat.safeParse(response.parsedContent);
+        if (parsed.error) {
+          throw new Error(
+            `The planner LLM responded with an invalid plan. ${parsed.error.message}`,
+          );
+        }
+        const plan: AgentPlan = {
+          steps: parsed.data.steps.map((description, index) => ({
+            id: index + 1,
+            description,
+            status: 'pending',
+            note: null,
+          })),
+        };
+        logToSpan(
+          {
+            level: 'INFO',
+            message: `Created a plan with ${plan.steps.length} steps`,
+            plan: JSON.stringify(plan),
+          },
+          span,
+        );
+        span.setStatus({ code: SpanStatusCode.OK });
+        return {
+          plan,
+          usage: response.usage.tokens,
+          executionUnits: response.executionUnits,
+        };
+      } catch (error) {
+        exceptionToSpan(error as Error, span);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: (error as Error).message });
+        throw error;
+      } finally {
+        span.end();
+      }
+    },
+  });
+
+/**
+ * Creates the built-in tool through which the LLM keeps the plan current.
+ *
+ * The tool updates the plan held by `holder` in place, so the next LLM call of the loop
+ * already shows the change, and streams the updated plan as an `agent.plan.updated` event.
+ */
+export const createPlanTool = (holder: { current: AgentPlan | null }) =>
+  createAgentTool({
+    name: 'update_plan',
+    description: cleanString(`
+      Updates the plan you are working through. Set the status of steps as you work
+      on them and add new steps when more work turns out to be needed.
+    `),
+    input: z.object({
+      updates: z
+        .array(
+          z.object({
+            id: z.number().int().describe('The id of the step to update'),
+            status: AgentPlanStepSchema.shape.status,
+            note: z.string().optional().describe('What was found or why the step was skipped'),
+          }),
+        )
+        .default([]),
+      add: z.array(z.string()).default([]).describe('New steps appended to the end of the plan'),
+    }),
+    output: z.object({
+      steps: AgentPlanStepSchema.array(),
+    }),
+    fn: async ({ updates, add }, config) => {
+      const plan = holder.current;
+      if (!plan) throw new Error('There is no plan to update');
+      const unknownStep = updates.find(
+        (update) => !plan.steps.some((item) => item.id === update.id),
+      );
+      if (unknownStep) throw new Error(`The plan has no step with the id ${unknownStep.id}`);
+      for (const update of updates) {
+        const step = plan.steps.find((item) => item.id === update.id);
+        if (!step) continue;
+        step.status = update.status;
+        if (update.note !== undefined) step.note = update.note;
+      }
+      for (const description of add) {
+        plan.steps.push({ id: plan.steps.length + 1, description, status: 'pending', note: null });
+      }
+      config.onStream?.({
+        type: 'agent.plan.updated',
+        data: {
+          steps: structuredClone(plan.steps),
+          updatedStepIds: [
+            ...updates.map((item) => item.id),
+            ...plan.steps.slice(plan.steps.length - add.length).map((item) => item.id),
+          ],
+        },
+      });
+      return { steps: plan.steps };
+    },
+  });
@@ -0,0 +1,43 @@
+import type { AgentState } from './index.js';
+import type { AgentResumeStrategy } from './types.js';
+
+/** The tool result which stands in for a service call still awaited when the LLM is resumed. */
+export const PENDING_TOOL_RESULT = {
+  type: 'pending',
+  message:
+    'The service has not responded yet. Its result will be provided in a later message once it arrives.',
+} as const;
+
+/**
+ * Converts a resume strategy into the number of newly arrived responses which resume the LLM.
+ *
+ * Returns `null` when the strategy is malformed.
+ */
+export const getResumeThreshold = (strategy: AgentResumeStrategy): number | null => {
+  if (strategy === 'all') return Number.POSITIVE_INFINITY;
+  if (strategy === 'each') return 1;
+  const match = /^quorum:(\d+)$/.exec(strategy);
+  const quorum = match ? Number(match[1]) : 0;
+  return quorum >= 1 ? quorum : null;
+};
+
+/**
+ * Decides whether the agent, having received a response, must keep waiting for its
+ * awaited calls instead of resuming the LLM.
+ *
+ * The agent resumes once every call has a response or once the number of responses not
+ * yet shown to the LLM reaches the threshold. A pending permission request always holds
+ * the agent, because the blocked tool calls can only be retried after it is answered.
+ */
+export const shouldKeepWaiting = (param: {
+  awaitingToolCalls: AgentState['awaitingToolCalls'];
+  threshold: number;
+  permissionRequestType: string | null;
+}) => {
+  const calls = Object.values(param.awaitingToolCalls);
+  const pending = calls.filter((item) => item.data === null);
+  if (!pending.length) return false;
+  if (pending.some((item) => item.type === param.permissionRequestType)) return true;
+  const arrived = calls.length - pending.length;
+  return arrived < Math.min(param.threshold, calls.length);
+};
@@ -41,12 +41,25 @@ export const AgentToolCallContentSchema = z.object({
   input: z.record(z.string(), z.any()),
 });
 
-/** Discriminated union of all valid payload types (Text, Media, Tool Calls, and Results). */
+/**
+ * Zod schema for the reasoning of an LLM, kept so it can be sent back to the provider.
+ * Redacted reasoning holds the provider's encrypted data as its content.
+ */
+export const AgentThinkingContentSchema = z.object({
+  type: z.literal('thinking'),
+  content: z.string(),
+  signature: z.string().nullable().describe('The provider signature verifying the reasoning'),
+  redacted: z.boolean(),
+  id: z.string().optional().describe('The provider id of the reasoning item, if it has one'),
+});
+
+/** Discriminated union of all valid payload types (Text, Media, Tool Calls, Results and Reasoning). */
 export const AgentMessageContentSchema = z.discriminatedUnion('type', [
   AgentTextContentSchema,
   AgentMediaContentSchema,
   AgentToolResultContentSchema,
   AgentToolCallContentSchema,
+  AgentThinkingContentSchema,
 ]);
 
 /** The primary data structure representing a single turn in the Agent's conversation history. */
@@ -54,4 +67,21 @@ export const AgentMessageSchema = z.object({
   role: z.enum(['user', 'assistant']),
   content: AgentMessageContentSchema,
   seenCount: z.number().describe('Then number of time the LLM integration has seen this message'),
+  responseId: z
+    .string()
+    .optional()
+    .describe('The id of the LLM response which produced the reasoning or the tool call'),
+});
+
+/** A single step of the plan the Agent executes in the plan-and-execute mode. */
+export const AgentPlanStepSchema = z.object({
+  id: z.number().int().describe('The one based position of the step in the plan'),
+  description: z.string(),
+  status: z.enum(['pending', 'in_progress', 'completed', 'skipped']),
+  note: z.string().nullable().describe('What was found or why the step was skipped'),
+});
+
+/** The plan persisted with the Agent state in the plan-and-execute mode. */
+export const AgentPlanSchema = z.object({
+  steps: AgentPlanStepSchema.array(),
 });
@@ -0,0 +1,53 @@
+import { createSimpleArvoContract } from 'arvo-core';
+import z from 'zod';
+
+/**
+ * Contract of a turn of a multi-turn agent session.
+ *
+ * Agents with `session` enabled emit its `accepts` event (`arvo.default.agent.session`)
+ * with the output of each turn instead of completing the workflow. The next user message
+ * is sent back as its emitted event type (`evt.arvo.default.agent.session.success`) with
+ * the agent workflow's `subject`, which appends it to the conversation and starts the next
+ * turn.
+ */
+export const agentSessionContract = createSimpleArvoContract({
+  uri: '#/arvo/tools/default/agentic/session',
+  type: 'arvo.default.agent.session',
+  description: 'Carries the response of an agent session turn and the next user message',
+  versions: {
+    '1.0.0': {
+      accepts: z.object({
+        turn: z.number().int().describe('The one based number of the completed turn'),
+        output: z
+          .record(z.string(), z.unknown())
+          .describe('The output of the turn, in the shape of the agent completion event'),
+      }),
+      emits: z.object({
+        message: z.string().describe('The next user message of the session'),
+      }),
+    },
+  },
+});
+
+/**
+ * Contract of the event which closes an agent session.
+ *
+ * Send its emitted event type (`evt.arvo.default.agent.session.close.success`) with the
+ * agent workflow's `subject` to complete the workflow with the output of the last turn.
+ * When a turn is in progress, the session closes as soon as that turn responds.
+ */
+export const agentSessionCloseContract = createSimpleArvoContract({
+  uri: '#/arvo/tools/default/agentic/session/close',
+  type: 'arvo.default.agent.session.close',
+  description: 'Closes a multi-turn agent session',
+  versions: {
+    '1.0.0': {
+      accepts: z.object({
+        reason: z.string().nullable().describe('Why the session is closed'),
+      }),
+      emits: z.object({
+        reason: z.string().nullable().default(null).describe('Why the session is closed'),
+      }),
+    },
+  },
+});
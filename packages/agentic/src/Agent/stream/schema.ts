@@ -1,4 +1,5 @@
 import z from 'zod';
+import { AgentPlanStepSchema } from '../schema';
 
 const AgentStartSchema = z.object({
   system: z.string().nullable(),
@@ -40,6 +41,59 @@ export const AgentStreamEventSchema = z.discriminatedUnion('type', [
       executionunits: z.number(),
     }),
   }),
+  z.object({
+    type: z.literal('agent.tool.timeout'),
+    data: z.object({
+      tool: z.object({
+        kind: z.string(),
+        name: z.string(),
+        originalName: z.string(),
+      }),
+      toolUseId: z.string(),
+      timeoutMs: z.number(),
+      attempt: z.number(),
+      willRetry: z.boolean(),
+      usage: z.object({
+        prompt: z.number(),
+        completion: z.number(),
+      }),
+      executionunits: z.number(),
+    }),
+  }),
+  z.object({
+    type: z.literal('agent.tool.deferred'),
+    data: z.object({
+      tool: z.object({
+        kind: z.string(),
+        name: z.string(),
+        originalName: z.string(),
+      }),
+      toolUseId: z.string(),
+      strategy: z.enum(['drop', 'defer', 'queue']),
+      usage: z.object({
+        prompt: z.number(),
+        completion: z.number(),
+      }),
+      executionunits: z.number(),
+    }),
+  }),
+  z.object({
+    type: z.literal('agent.tool.cache.hit'),
+    data: z.object({
+      tool: z.object({
+        kind: z.string(),
+        name: z.string(),
+        originalName: z.string(),
+      }),
+      toolUseId: z.string(),
+      scope: z.enum(['subject', 'root_subject', 'global']),
+      usage: z.object({
+        prompt: z.number(),
+        completion: z.number(),
+      }),
+      executionunits: z.number(),
+    }),
+  }),
   z.object({
     type: z.literal('agent.output.finalization'),
     data: z.object({
@@ -73,6 +127,187 @@ export const AgentStreamEventSchema = z.discriminatedUnion('type', [
       executionunits: z.number(),
     }),
   }),
+  z.object({
+    type: z.literal('agent.budget.exhausted'),
+    data: z.object({
+      exhaustedBy: z.string().array(),
+      max: z.object({
+        executionUnits: z.number().optional(),
+        promptTokens: z.number().optional(),
+        completionTokens: z.number().optional(),
+      }),
+      usage: z.object({
+        prompt: z.number(),
+        completion: z.number(),
+      }),
+      executionunits: z.number(),
+    }),
+  }),
+  z.object({
+    type: z.literal('agent.context.compaction'),
+    data: z.object({
+      compactedMessages: z.number(),
+      remainingMessages: z.number(),
+      estimatedTokens: z.object({
+        before: z.number(),
+        after: z.number(),
+      }),
+      usage: z.object({
+        prompt: z.number(),
+        completion: z.number(),
+      }),
+      executionunits: z.number(),
+    }),
+  }),
+  z.object({
+    type: z.literal('agent.cancelled'),
+    data: z.object({
+      reason: z.string().nullable(),
+      cascaded: z.boolean(),
+      cancelledToolCalls: z.string().array(),
+      usage: z.object({
+        prompt: z.number(),
+        completion: z.number(),
+      }),
+      executionunits: z.number(),
+    }),
+  }),
+  z.object({
+    type: z.literal('agent.session.turn'),
+    data: z.object({
+      turn: z.number(),
+      usage: z.object({
+        prompt: z.number(),
+        completion: z.number(),
+      }),
+      executionunits: z.number(),
+    }),
+  }),
+  z.object({
+    type: z.literal('agent.session.closed'),
+    data: z.object({
+      turns: z.number(),
+      reason: z.string().nullable(),
+      idleTimeout: z.boolean(),
+      usage: z.object({
+        prompt: z.number(),
+        completion: z.number(),
+      }),
+      executionunits: z.number(),
+    }),
+  }),
+  z.object({
+    type: z.literal('agent.subagent.event'),
+    data: z.object({
+      agent: z.string(),
+      subject: z.string(),
+      toolUseId: z.string().nullable(),
+      event: z.object({
+        type: z.string(),
+        data: z.unknown(),
+      }),
+    }),
+  }),
+  z.object({
+    type: z.literal('agent.handoff'),
+    data: z.object({
+      target: z.string(),
+      type: z.string(),
+      transferredMessages: z.number(),
+      usage: z.object({
+        prompt: z.number(),
+        completion: z.number(),
+      }),
+      executionunits: z.number(),
+    }),
+  }),
+  z.object({
+    type: z.literal('agent.handoff.rejected'),
+    data: z.object({
+      handoffs: z.string().array(),
+      tools: z.string().array(),
+      usage: z.object({
+        prompt: z.number(),
+        completion: z.number(),
+      }),
+      executionunits: z.number(),
+    }),
+  }),
+  z.object({
+    type: z.literal('agent.plan.created'),
+    data: z.object({
+      steps: AgentPlanStepSchema.array(),
+      usage: z.object({
+        prompt: z.number(),
+        completion: z.number(),
+      }),
+      executionunits: z.number(),
+    }),
+  }),
+  z.object({
+    type: z.literal('agent.plan.updated'),
+    data: z.object({
+      steps: AgentPlanStepSchema.array(),
+      updatedStepIds: z.number().array(),
+    }),
+  }),
+  z.object({
+    type: z.literal('agent.output.verification'),
+    data: z.object({
+      approved: z.boolean(),
+      score: z.number().nullable(),
+      feedback: z.string().nullable(),
+      attempt: z.number(),
+      maxRetries: z.number(),
+      usage: z.object({
+        prompt: z.number(),
+        completion: z.number(),
+      }),
+      executionunits: z.number(),
+    }),
+  }),
+  z.object({
+    type: z.literal('agent.guardrail.redacted'),
+    data: z.object({
+      guardrail: z.string(),
+      stage: z.enum(['input', 'tool_result', 'output']),
+      tool: z.string().nullable(),
+    }),
+  }),
+  z.object({
+    type: z.literal('agent.guardrail.blocked'),
+    data: z.object({
+      guardrail: z.string(),
+      stage: z.enum(['input', 'tool_result', 'output']),
+      tool: z.string().nullable(),
+      reason: z.string(),
+    }),
+  }),
+  z.object({
+    type: z.literal('agent.llm.failover'),
+    data: z.object({
+      from: z.string(),
+      to: z.string(),
+      error: z.string(),
+      streamed: z.boolean(),
+    }),
+  }),
+  z.object({
+    type: z.literal('agent.llm.provider'),
+    data: z.object({
+      provider: z.string(),
+      attempt: z.number(),
+      failed: z.array(z.object({ provider: z.string(), error: z.string() })),
+    }),
+  }),
+  z.object({
+    type: z.literal('agent.llm.throttled'),
+    data: z.object({
+      bucket: z.string(),
+      waitedMs: z.number(),
+      estimatedTokens: z.number(),
+    }),
+  }),
   z.object({
     type: z.literal('agent.llm.delta'),
     data: z.object({
@@ -110,6 +345,25 @@ export const AgentStreamEventSchema = z.discriminatedUnion('type', [
       }),
     }),
   }),
+  z.object({
+    type: z.literal('agent.llm.delta.thinking'),
+    data: z.object({
+      delta: z.string().nullable(),
+      content: z.string(),
+      comment: z.string(),
+      meta: z.object({
+        error: z.string().nullable(),
+        token: z.object({
+          prompt: z.number(),
+          completion: z.number(),
+        }),
+        otel: z.object({
+          traceparent: z.string().nullable(),
+          tracestate: z.string().nullable(),
+        }),
+      }),
+    }),
+  }),
   z.object({
     type: z.literal('agent.llm.delta.tool'),
     data: z.object({
@@ -0,0 +1,290 @@
+import {
+  ArvoOrchestrationSubject,
+  type ArvoSemanticVersion,
+  cleanString,
+  createArvoOrchestratorEventFactory,
+  exceptionToSpan,
+} from 'arvo-core';
+import { ConfigViolation } from 'arvo-event-handler';
+import { v4 } from 'uuid';
+import type z from 'zod';
+import { createAgentTool } from '../AgentTool/index.js';
+import type { AgentInternalTool, AgentToolExecutionPolicy } from '../AgentTool/types.js';
+import { agentLoop } from './agentLoop.js';
+import { applyInputGuardrails } from './guardrail.js';
+import { createPlan, createPlanTool } from './planning.js';
+import type { AgentEventStreamer } from './stream/types.js';
+import { createTimestamp } from './stream/utils.js';
+import { createToolResultReaderTool } from './toolResultStore.js';
+import type {
+  AgentMessage,
+  AgentPlan,
+  AgentServiceContract,
+  AgentToolDefinition,
+  AnyArvoOrchestratorContract,
+  CreateArvoAgentParam,
+} from './types.js';
+import { generateAgentInternalToolDefinitions, generateMcpToolDefinitions } from './utils.js';
+
+/**
+ * Wraps an agent definition as an internal tool which runs the agent in-process.
+ *
+ * Calling another agent as an Arvo service requires a memory backend, a broker and a
+ * suspension of the calling agent. A helper agent which only uses internal and MCP tools can
+ * instead run synchronously inside the caller's loop. The sub-agent keeps its own message
+ * history, tool interaction limit and budget. Its stream events are forwarded to the caller's
+ * stream as `agent.subagent.event` events and its token and execution unit usage is added to
+ * the caller's usage once it settles, where it also counts towards the caller's budget. The
+ * usage of a failed run is added as well. A run whose call times out stops at its next step
+ * and its usage is no longer added.
+ *
+ * The tool input is the init event data of the given contract version and the tool output is
+ * its completion event data. The sub-agent cannot declare Arvo services or a permission
+ * manager, as both need a suspension boundary. Its memory, session, cancellation and deadline
+ * settings do not apply.
+ *
+ * @param agent - The agent definition, as passed to `createArvoAgent`
+ * @param options - The contract version to run and the overrides of the tool definition
+ *
+ * @throws {ConfigViolation} When the agent definition declares services or a permission manager
+ *
+ * @example
+ * ```typescript
+ * const summarizer = createSubAgentTool(
+ *   {
+ *     contracts: { self: summarizerContract, services: {} },
+ *     llm: openaiLLMIntegration(new OpenAI(), { model: 'gpt-4o-mini' }),
+ *     handler: {
+ *       '1.0.0': {
+ *         context: AgentDefaults.CONTEXT_BUILDER(() => 'Summarize the given text'),
+ *         output: AgentDefaults.OUTPUT_BUILDER,
+ *       },
+ *     },
+ *   },
+ *   { version: '1.0.0', name: 'summarize' },
+ * );
+ *
+ * createArvoAgent({ tools: { summarizer }, ...rest });
+ * ```
+ */
+export const createSubAgentTool = <
+  TSelfContract extends AnyArvoOrchestratorContract,
+  TServiceContract extends Record<string, AgentServiceContract>,
+  TTools extends Record<string, AgentInternalTool>,
+>(
+  agent: CreateArvoAgentParam<TSelfContract, TServiceContract, TTools>,
+  options: {
+    version: ArvoSemanticVersion;
+    /** @default - The type of the agent contract */
+    name?: string;
+    /** @default - The description of the agent contract */
+    description?: string;
+    priority?: number;
+    executionPolicy?: AgentToolExecutionPolicy;
+  },
+) => {
+  const selfType = agent.contracts.self.type;
+  if (Object.keys(agent.contracts.services).length || agent.permissionManager) {
+    throw new ConfigViolation(
+      cleanString(`
+        Sub-agent tool<${selfType}> configuration error. A sub-agent runs synchronously inside
+        the calling agent and cannot suspend, so it cannot declare service contracts or a
+        permission manager. Call the agent as an Arvo service instead.
+      `),
+    );
+  }
+  const versionHandler = agent.handler[options.version];
+  if (!versionHandler) {
+    throw new ConfigViolation(
+      `Sub-agent tool<${selfType}> configuration error. No handler exists for the version ${options.version}`,
+    );
+  }
+  const selfVersionedContract = agent.contracts.self.version(options.version);
+  const outputFormat =
+    selfVersionedContract.emits[selfVersionedContract.metadata.completeEventType];
+
+  return createAgentTool({
+    name: options.name ?? selfType,
+    description: options.description ?? selfVersionedContract.description ?? '',
+    input: (selfVersionedContract.accepts.schema as z.AnyZodObject).omit({
+      parentSubject$$: true,
+    }),
+    output: outputFormat as z.AnyZodObject,
+    priority: options.priority,
+    executionPolicy: options.executionPolicy,
+    fn: async (input, config) => {
+      const { otelInfo } = config;
+      const event = createArvoOrchestratorEventFactory(selfVersionedContract).init({
+        source: selfType,
+        data: { ...input, parentSubject$$: null },
+      });
+      const subject = event.subject;
+
+      const streamer: AgentEventStreamer = (streamEvent) => {
+        config.onStream?.({
+          type: 'agent.subagent.event',
+          data: {
+            agent: selfType,
+            subject,
+            toolUseId: config.toolUseId ?? null,
+            event: streamEvent,
+          },
+        });
+        try {
+          agent.onStream?.(
+            { ...streamEvent, id: v4(), time: createTimestamp() },
+            {
+              initiatorId: ArvoOrchestrationSubject.parse(subject).execution.initiator,
+              subject,
+              selfId: selfType,
+              selfVersion: options.version,
+            },
+          );
+        } catch (e) {
+          exceptionToSpan(e as Error, config.otelInfo.span);
+        }
+      };
+
+      // The usage is reported once the sub-agent settles, so the usage of a failed run
+      // counts as well
+      let usage = { executionUnits: 0, tokens: { prompt: 0, completion: 0 } };
+      await agent.mcp?.connect({ otelInfo });
+      try {
+        const mcpTools = await generateMcpToolDefinitions(agent.mcp ?? null, { otelInfo });
+        const internalTools = generateAgentInternalToolDefinitions<TTools>(agent.tools ?? {});
+        const toolResultReader = agent.toolResultStore
+          ? (generateAgentInternalToolDefinitions({
+              toolResultReaderTool: createToolResultReaderTool(agent.toolResultStore, subject),
+            }).toolResultReaderTool as unknown as AgentToolDefinition)
+          : null;
+        const llmContext =
+          (await versionHandler.context({
+            lifecycle: 'init',
+            // biome-ignore lint/suspicious/noExplicitAny: The event matches the versioned contract
+            input: event as any,
+            tools: { services: {} as never, mcp: mcpTools, tools: internalTools },
+            span: otelInfo.span,
+            selfContract: selfVersionedContract,
+          })) ?? null;
+        const initMessages = (
+          llmContext?.messages?.length
+            ? llmContext.messages
+            : [
+                {
+                  role: 'user',
+                  content: { type: 'text', content: JSON.stringify(input) },
+                  seenCount: 0,
+                },
+              ]
+        ).map((item) => ({ ...item, seenCount: item.seenCount ?? 0 })) as AgentMessage[];
+        const permissionManagerContext = { subject, accesscontrol: null, name: selfType };
+        const messages = await applyInputGuardrails(
+          {
+            guardrails: agent.guardrails ?? [],
+            messages: initMessages,
+            source: permissionManagerContext,
+            onStream: streamer,
+          },
+          { otelInfo },
+        );
+        const llm = versionHandler.llm ?? agent.llm;
+        const planHolder: { current: AgentPlan | null } = { current: null };
+        const planTool = versionHandler.planning
+          ? (generateAgentInternalToolDefinitions({ planTool: createPlanTool(planHolder) })
+              .planTool as unknown as AgentToolDefinition)
+          : null;
+        const tools = [
+          ...Object.values({ ...mcpTools, ...internalTools }),
+          ...(toolResultReader ? [toolResultReader] : []),
+          ...(planTool ? [planTool] : []),
+        ];
+        const planning = versionHandler.planning
+          ? await createPlan(
+              {
+                messages,
+                system: llmContext?.system ?? null,
+                tools: tools.filter((tool) => tool !== planTool),
+                config: versionHandler.planning,
+                llm,
+              },
+              { otelInfo },
+            )
+          : null;
+        if (planning) {
+          usage = { executionUnits: planning.executionUnits, tokens: { ...planning.usage } };
+          planHolder.current = planning.plan;
+          streamer({
+            type: 'agent.plan.created',
+            data: {
+              steps: structuredClone(planning.plan.steps),
+              usage: planning.usage,
+              executionunits: planning.executionUnits,
+            },
+          });
+        }
+
+        const response = await agentLoop(
+          {
+            permissionManagerContext,
+            initLifecycle: 'init',
+            system: llmContext?.system ?? null,
+            messages,
+            tools,
+            outputFormat,
+            outputBuilder: versionHandler.output,
+            llmResponseType: versionHandler.llmResponseType ?? agent.llmResponseType ?? 'text',
+            llm,
+            mcp: agent.mcp ?? null,
+            toolInteraction: { current: 0, max: agent.maxToolInteractions ?? 5 },
+            currentTotalExecutionUnits: planning?.executionUnits ?? 0,
+            onStream: streamer,
+            currentTotalUsageTokens: {
+              prompt: planning?.usage.prompt ?? 0,
+              completion: planning?.usage.completion ?? 0,
+            },
+            budget: { max: versionHandler.budget ?? agent.budget ?? {}, exhaustedBy: null },
+            toolExecutionPolicy: agent.toolExecutionPolicy ?? {},
+            lowPriorityToolCallStrategy: agent.lowPriorityToolCallStrategy ?? 'drop',
+            queuedToolCalls: [],
+            compaction: versionHandler.compaction ?? null,
+            toolResultStore:
+              agent.toolResultStore && toolResultReader
+                ? { config: agent.toolResultStore, readerToolName: toolResultReader.name }
+                : null,
+            plan: planTool ? { holder: planHolder, toolName: planTool.name } : null,
+            llmState: { current: null },
+            verification: versionHandler.verification
+              ? { config: versionHandler.verification, attempts: 0 }
+              : null,
+            guardrails: agent.guardrails ?? [],
+            // The sub-agent runs without a parent workflow, so it is its own root
+            toolResultCache: agent.toolResultCache
+              ? { config: agent.toolResultCache, rootSubject: subject }
+              : null,
+            permissionManager: null,
+            permissionPolicy: [],
+            handoffToolNames: [],
+          },
+          {
+            otelInfo,
+            signal: config.signal,
+            onSettled: (totals) => {
+              usage = totals;
+            },
+          },
+        );
+
+        if (!response.output) {
+          throw new Error(`The sub-agent ${selfType} did not produce an output`);
+        }
+        return Object.fromEntries(
+          Object.entries(response.output).filter(([key]) => !key.startsWith('__')),
+        );
+      } finally {
+        config.reportUsage?.(usage);
+        await agent.toolResultStore?.store.cleanup?.({ subject }, { otelInfo });
+        await agent.mcp?.disconnect({ otelInfo })?.catch(console.error);
+      }
+    },
+  });
+};
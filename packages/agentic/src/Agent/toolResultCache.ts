@@ -0,0 +1,123 @@
+import { createHash } from 'node:crypto';
+import { exceptionToSpan, logToSpan } from 'arvo-core';
+import type { AgentToolCachePolicy } from '../AgentTool/types.js';
+import type { OtelInfoType } from '../types.js';
+import type { AgentToolResultCacheConfig } from './types.js';
+import { stableStringify } from './utils.js';
+
+const DEFAULT_ROOT_SUBJECT_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Creates the cache key of a tool call.
+ *
+ * The key is made of the scope owner, the tool and a hash of its arguments. The
+ * `parentSubject$$` of the service calls differs per workflow, so it is not part of the key.
+ */
+export const createToolCacheKey = (param: {
+  tool: string;
+  input: Record<string, unknown>;
+  policy: AgentToolCachePolicy;
+  subject: string;
+  rootSubject: string;
+}) => {
+  const scope = param.policy.scope ?? 'subject';
+  const owner =
+    scope === 'global' ? 'global' : scope === 'root_subject' ? param.rootSubject : param.subject;
+  // biome-ignore lint/correctness/noUnusedVariables: the parentSubject$$ is to be removed that is why it is unused
+  const { parentSubject$$, ...input } = param.input;
+  const hash = createHash('sha256').update(stableStringify(input)).digest('hex');
+  return `arvo.tool.cache:${scope}:${owner}:${param.tool}:${hash}`;
+};
+
+const rootSubjectKey = (subject: string) => `arvo.tool.cache.root:${subject}`;
+
+/**
+ * Resolves the root workflow of an agent workflow for the `'root_subject'` scope.
+ *
+ * A workflow without a parent is its own root. A child workflow inherits the root its parent
+ * recorded in the cache store and falls back to the parent itself when the parent is not an
+ * agent sharing the store. The resolved root is recorded for the workflows this one starts.
+ */
+export const resolveRootSubject = async (
+  param: { subject: string; parentSubject: string | null; config: AgentToolResultCacheConfig },
+  config: { otelInfo: OtelInfoType },
+): Promise<string> => {
+  try {
+    const rootSubject = param.parentSubject
+      ? ((await param.config.store.get({ key: rootSubjectKey(param.parentSubject) }, config)) ??
+        param.parentSubject)
+      : param.subject;
+    await param.config.store.set(
+      {
+        key: rootSubjectKey(param.subject),
+        content: rootSubject,
+        ttlMs: param.config.rootSubjectTtlMs ?? DEFAULT_ROOT_SUBJECT_TTL_MS,
+      },
+      config,
+    );
+    return rootSubject;
+  } catch (e) {
+    // The root only widens the sharing of the cached results, so the workflow proceeds without it
+    exceptionToSpan(e as Error, config.otelInfo.span);
+    return param.parentSubject ?? param.subject;
+  }
+};
+
+/**
+ * Reads a cached tool result. A failing cache store is treated as a miss.
+ */
+export const readCachedToolResult = async (
+  param: { key: string; config: AgentToolResultCacheConfig },
+  config: { otelInfo: OtelInfoType },
+): Promise<string | null> => {
+  try {
+    return await param.config.store.get({ key: param.key }, config);
+  } catch (e) {
+    exceptionToSpan(e as Error, config.otelInfo.span);
+    return null;
+  }
+};
+
+/**
+ * Tells whether a tool result reports a failure, i.e. a structured error (`{ type: 'error' }`)
+ * or an MCP result with `isError` set. The result may have been serialized more than once.
+ */
+export const isToolErrorResult = (content: string): boolean => {
+  let value: unknown = content;
+  for (let depth = 0; depth < 3 && typeof value === 'string'; depth++) {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return false;
+    }
+  }
+  if (!value || typeof value !== 'object') return false;
+  const result = value as Record<string, unknown>;
+  return result.type === 'error' || result.isError === true;
+};
+
+/**
+ * Stores a successful tool result. A failing cache store does not fail the tool call.
+ */
+export const writeCachedToolResult = async (
+  param: { key: string; content: string; ttlMs: number; config: AgentToolResultCacheConfig },
+  config: { otelInfo: OtelInfoType },
+): Promise<void> => {
+  try {
+    await param.config.store.set(
+      { key: param.key, content: param.content, ttlMs: param.ttlMs },
+      config,
+    );
+    logToSpan(
+      {
+        level: 'INFO',
+        message: 'Tool result cached',
+        key: param.key,
+        ttlMs: String(param.ttlMs),
+      },
+      config.otelInfo.span,
+    );
+  } catch (e) {
+    exceptionToSpan(e as Error, config.otelInfo.span);
+  }
+};
@@ -0,0 +1,115 @@
+import { cleanString, logToSpan } from 'arvo-core';
+import { v4 } from 'uuid';
+import z from 'zod';
+import { createAgentTool } from '../AgentTool/index.js';
+import type { OtelInfoType } from '../types.js';
+import type { AgentToolResultStoreConfig } from './types.js';
+
+const DEFAULT_MAX_INLINE_LENGTH = 8000;
+const DEFAULT_PREVIEW_LENGTH = 1000;
+
+/**
+ * Creates the built-in tool which lets the LLM page through offloaded tool results.
+ *
+ * A page is at most `maxInlineLength` characters long, so reading a result never brings
+ * more content into the history than a regular inline tool result would. The tool is bound
+ * to the `subject` of the workflow and only reads the results offloaded by that workflow.
+ */
+export const createToolResultReaderTool = (config: AgentToolResultStoreConfig, subject: string) => {
+  const maxPageLength = config.maxInlineLength ?? DEFAULT_MAX_INLINE_LENGTH;
+  return createAgentTool({
+    name: 'read_tool_result',
+    description: cleanString(`
+      Reads a page of a tool result which was too large to be shown in full.
+      Such results contain only a preview and a reference id. Use the id and
+      the offset to read the remaining content, page by page, only when the
+      preview is not sufficient for the task.
+    `),
+    input: z.object({
+      id: z.string().describe('The reference id of the offloaded tool result'),
+      offset: z
+        .number()
+        .int()
+        .min(0)
+        .describe('The character offset to start reading from. Use 0 for the beginning'),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(maxPageLength)
+        .optional()
+        .describe(`The number of characters to read. At most ${maxPageLength}`),
+    }),
+    output: z.object({
+      id: z.string(),
+      offset: z.number(),
+      content: z.string(),
+      totalLength: z.number(),
+      nextOffset: z
+        .number()
+        .nullable()
+        .describe('The offset of the next page or null if the end was reached'),
+    }),
+    fn: async ({ id, offset, limit }, { otelInfo }) => {
+      const result = await config.store.get(
+        { id, subject, offset, limit: limit ?? maxPageLength },
+        { otelInfo },
+      );
+      if (!result) {
+        throw new Error(`No stored tool result exists for the id "${id}"`);
+      }
+      const nextOffset = offset + result.content.length;
+      return {
+        id,
+        offset,
+        content: result.content,
+        totalLength: result.totalLength,
+        nextOffset: nextOffset < result.totalLength ? nextOffset : null,
+      };
+    },
+  });
+};
+
+/**
+ * Moves a tool result longer than `maxInlineLength` into the tool result store.
+ *
+ * Returns the content as is when it is short enough. Otherwise, returns the message which
+ * replaces it in the history: a note with the reference id and the reader tool name,
+ * followed by a preview of the leading characters of the content.
+ */
+export const offloadToolResult = async (
+  param: {
+    content: string;
+    subject: string;
+    config: AgentToolResultStoreConfig;
+    readerToolName: string;
+  },
+  config: { otelInfo: OtelInfoType },
+): Promise<string> => {
+  const maxInlineLength = param.config.maxInlineLength ?? DEFAULT_MAX_INLINE_LENGTH;
+  if (param.content.length <= maxInlineLength) return param.content;
+  const id = v4();
+  const previewLength = Math.min(
+    param.config.previewLength ?? DEFAULT_PREVIEW_LENGTH,
+    maxInlineLength,
+  );
+  await param.config.store.put(
+    { id, subject: param.subject, content: param.content },
+    { otelInfo: config.otelInfo },
+  );
+  logToSpan(
+    {
+      level: 'INFO',
+      message: `Offloaded a tool result of ${param.content.length} characters to the tool result store`,
+      toolResultId: id,
+    },
+    config.otelInfo.span,
+  );
+  const header = cleanString(`
+    [Offloaded] This tool result is ${param.content.length} characters long and was stored
+    with the id "${id}". Only the first ${previewLength} characters are shown below.
+    Use the tool "${param.readerToolName}" with this id and offset ${previewLength}
+    to read the rest, if needed.
+  `);
+  return `${header}\n\n${param.content.slice(0, previewLength)}`;
+};
@@ -1,6 +1,7 @@
 import type { Span } from '@opentelemetry/api';
 import type {
   ArvoContract,
+  ArvoEvent,
   ArvoOrchestratorContract,
   ArvoSemanticVersion,
   CreateArvoEvent,
@@ -9,20 +10,31 @@ import type {
 } from 'arvo-core';
 import type { createArvoResumable, IMachineMemory } from 'arvo-event-handler';
 import type z from 'zod';
-import type { AgentInternalTool } from '../AgentTool/types';
+import type {
+  AgentInternalTool,
+  AgentToolCachePolicy,
+  AgentToolExecutionPolicy,
+} from '../AgentTool/types';
 import type {
   AgentLLMIntegration,
   AgentLLMIntegrationOutput,
   AgentLLMIntegrationParam,
 } from '../Integrations/types';
+import type { ICancellationRegistry } from '../interfaces.cancellation.registry';
+import type { IGuardrail } from '../interfaces.guardrail';
 import type { IMCPClient } from '../interfaces.mcp';
 import type { IPermissionManager } from '../interfaces.permission.manager';
-import type { NonEmptyArray, PromiseAble } from '../types';
+import type { IToolResultCache } from '../interfaces.tool.result.cache';
+import type { IToolResultStore } from '../interfaces.tool.result.store';
+import type { NonEmptyArray, OtelInfoType, PromiseAble } from '../types';
 import type {
   AgentMediaContentSchema,
   AgentMessageContentSchema,
   AgentMessageSchema,
+  AgentPlanSchema,
+  AgentPlanStepSchema,
   AgentTextContentSchema,
+  AgentThinkingContentSchema,
   AgentToolCallContentSchema,
   AgentToolResultContentSchema,
 } from './schema';
@@ -40,6 +52,15 @@ export type AgentToolResultContent = z.infer<typeof AgentToolResultContentSchema
 /** Represents the LLM's request to execute a tool. */
 export type AgentToolCallContent = z.infer<typeof AgentToolCallContentSchema>;
 
+/**
+ * A tool call requested by the LLM, along with the id of the response which requested it
+ * so that the calls the Agent executes later stay grouped with their response.
+ */
+export type AgentToolRequest = Omit<AgentToolCallContent, 'type'> & { responseId?: string };
+
+/** Represents the reasoning of the LLM which preceded its tool calls. */
+export type AgentThinkingContent = z.infer<typeof AgentThinkingContentSchema>;
+
 /** Union of all possible content types within an Agent's conversation message. */
 export type AgentMessageContent = z.infer<typeof AgentMessageContentSchema>;
 
@@ -50,6 +71,12 @@ export type AgentMessageContent = z.infer<typeof AgentMessageContentSchema>;
  */
 export type AgentMessage = z.infer<typeof AgentMessageSchema>;
 
+/** A single step of the plan the Agent executes in the plan-and-execute mode. */
+export type AgentPlanStep = z.infer<typeof AgentPlanStepSchema>;
+
+/** The plan persisted with the Agent state in the plan-and-execute mode. */
+export type AgentPlan = z.infer<typeof AgentPlanSchema>;
+
 // biome-ignore lint/suspicious/noExplicitAny: Needs to be general
 export type AnyArvoOrchestratorContract = ArvoOrchestratorContract<any, any>;
 
@@ -95,6 +122,253 @@ export type AgentServiceContract = {
    * 6. LLM sees approval, and *now* re-issues the `calculate_refund` call.
    */
   priority?: number;
+  /**
+   * The maximum time (in milliseconds) the Agent waits for the service response.
+   *
+   * The deadline is persisted with the awaited call. When the Agent executes after the
+   * deadline (on the next event or on a scheduled wake-up, see `serviceDeadlineWakeUp`), the
+   * call is answered with a synthetic `ServiceTimeoutError` tool result, so the LLM can retry
+   * the call or explain the missing data.
+   *
+   * @default - The Agent waits for the response indefinitely
+   */
+  timeoutMs?: number;
+  /**
+   * Caches the responses of this service. Only set it for idempotent services.
+   *
+   * @default - The responses are not cached
+   */
+  cache?: AgentToolCachePolicy;
+};
+
+/**
+ * Hard spending limits for a single Agent workflow.
+ *
+ * The Agent accumulates execution units and token usage across every LLM call of the workflow
+ * (including calls made after suspensions). Once any configured limit is reached, the Agent
+ * behaves as it does when the tool interaction quota is exhausted: the LLM is given one final turn
+ * with an instruction to stop calling tools and synthesize an answer from the data collected so far.
+ *
+ * Unset fields are not enforced.
+ */
+export type AgentBudget = {
+  /** The maximum accumulated execution units across all LLM calls. */
+  executionUnits?: number;
+  /** The maximum accumulated prompt (input) tokens across all LLM calls. */
+  promptTokens?: number;
+  /** The maximum accumulated completion (output) tokens across all LLM calls. */
+  completionTokens?: number;
+};
+
+/**
+ * A custom function that condenses a slice of the conversation history into a summary text.
+ */
+export type AgentCompactionSummarizer = (
+  param: {
+    /** The older messages that will be replaced by the summary. */
+    messages: AgentMessage[];
+    /** The Agent's system prompt, for context. */
+    system: string | null;
+  },
+  config: { otelInfo: OtelInfoType },
+) => PromiseAble<string>;
+
+/**
+ * Configuration for the plan-and-execute mode.
+ *
+ * Before the first turn, a planner LLM call breaks the request down into a list of steps. The
+ * plan is persisted with the Agent state and shown, with the status of each step, to the LLM on
+ * every turn. The LLM keeps it current via a built-in `update_plan` tool.
+ */
+export type AgentPlanningConfig = {
+  /**
+   * The LLM integration used to write the plan.
+   *
+   * @default - The LLM integration of the Agent version
+   */
+  llm?: AgentLLMIntegration;
+
+  /**
+   * The system prompt of the planner.
+   *
+   * @default - DEFAULT_PLANNING_PROMPT
+   */
+  prompt?: string;
+
+  /**
+   * The maximum number of steps of the initial plan.
+   *
+   * @defaultValue 10
+   */
+  maxSteps?: number;
+};
+
+/** The judgement of the verifier on a candidate output. */
+export type AgentVerificationVerdict = {
+  /** Whether the output may be emitted. */
+  approved: boolean;
+  /** An optional quality score, reported in the stream events and telemetry. */
+  score: number | null;
+  /** What must change for the output to be approved. Shown to the LLM on rejection. */
+  feedback: string | null;
+};
+
+/**
+ * A custom verifier of the candidate output.
+ */
+export type AgentVerifier = (
+  param: {
+    /** The candidate output, as returned by the `output` builder. */
+    output: Record<string, unknown>;
+    /** The conversation which led to the output. */
+    messages: AgentMessage[];
+    system: string | null;
+  },
+  config: { otelInfo: OtelInfoType },
+) => PromiseAble<AgentVerificationVerdict>;
+
+/**
+ * Configuration for verifying the output before it is emitted.
+ *
+ * The verifier runs once the `output` builder accepts an output. Either an LLM judges the
+ * output against a `rubric`, or a custom `verify` function decides. A rejected output is sent
+ * back to the LLM with the feedback, via the `'verification_feedback'` lifecycle, up to
+ * `maxRetries` times.
+ */
+export type AgentVerificationConfig = (
+  | {
+      /** The criteria the output is judged against. */
+      rubric: string;
+      /**
+       * The LLM integration which judges the output.
+       *
+       * @default - The LLM integration of the Agent version
+       */
+      llm?: AgentLLMIntegration;
+      verify?: never;
+    }
+  | { verify: AgentVerifier; rubric?: never; llm?: never }
+) & {
+  /**
+   * The maximum number of revisions requested by the verifier within one execution of the
+   * Agent. Independent of the tool interaction limit.
+   *
+   * @defaultValue 2
+   */
+  maxRetries?: number;
+
+  /**
+   * What happens when the output is still rejected after `maxRetries` revisions.
+   * - `'fail'`: The Agent execution fails.
+   * - `'accept'`: The last output is emitted anyway.
+   *
+   * @defaultValue 'fail'
+   */
+  onExhausted?: 'fail' | 'accept';
+};
+
+/**
+ * When a suspended Agent resumes the LLM with the responses of its Arvo service calls.
+ *
+ * - `'all'`: Once every awaited call has responded.
+ * - `'each'`: On every response. The calls still awaited are shown to the LLM with a
+ *   placeholder result, and their responses are added to the conversation as they arrive.
+ * - `` `quorum:${n}` ``: Once `n` responses, not yet seen by the LLM, have arrived, or
+ *   every awaited call has responded.
+ */
+export type AgentResumeStrategy = 'all' | 'each' | `quorum:${number}`;
+
+/**
+ * Configuration for automatic conversation compaction.
+ *
+ * The Agent persists its full message history across resumes. Once the history exceeds one
+ * of the configured `trigger` thresholds, the older messages are summarized and replaced by a
+ * single summary message, while the most recent messages are kept verbatim. The split point
+ * always keeps a `tool_use` together with its `tool_result`.
+ */
+export type AgentCompactionConfig = {
+  /** Compaction runs before an LLM call when any of these thresholds is exceeded. */
+  trigger: {
+    /** The maximum number of messages in the history. */
+    messageCount?: number;
+    /** The maximum estimated token count of the history. */
+    estimatedTokens?: number;
+  };
+
+  /**
+   * The number of most recent messages which are never summarized.
+   *
+   * @defaultValue 6
+   */
+  keepRecentMessages?: number;
+
+  /**
+   * The LLM integration used to write the summary.
+   *
+   * @default - The LLM integration of the Agent version
+   */
+  llm?: AgentLLMIntegration;
+
+  /**
+   * The system prompt for the summarizing LLM.
+   *
+   * @default DEFAULT_COMPACTION_PROMPT
+   */
+  prompt?: string;
+
+  /** A custom summarizer. Takes precedence over `llm` when provided. */
+  summarizer?: AgentCompactionSummarizer;
+
+  /**
+   * Estimates the token count of a message list for the `estimatedTokens` trigger.
+   *
+   * @default - Roughly 4 characters per token of the serialized messages
+   */
+  estimateTokens?: (messages: AgentMessage[]) => number;
+};
+
+/**
+ * Configuration for offloading oversized tool results out of the message history.
+ *
+ * Tool results (Internal, MCP and Arvo service responses) longer than `maxInlineLength`
+ * characters are written to the `store` and replaced in the history by a preview with a
+ * reference. The LLM can read the full content page by page with the built-in
+ * `read_tool_result` tool, which is added to the Agent's tools automatically.
+ */
+export type AgentToolResultStoreConfig = {
+  /** The storage backend holding the full content of the offloaded results. */
+  store: IToolResultStore;
+
+  /**
+   * The maximum length (in characters) of a tool result kept in the history as is.
+   * This is also the maximum page size of the `read_tool_result` tool.
+   *
+   * @defaultValue 8000
+   */
+  maxInlineLength?: number;
+
+  /**
+   * The number of leading characters of an offloaded result kept in the history as a preview.
+   *
+   * @defaultValue 1000
+   */
+  previewLength?: number;
+};
+
+/**
+ * Configuration for caching the results of idempotent tools.
+ */
+export type AgentToolResultCacheConfig = {
+  /** The storage backend holding the cached results. */
+  store: IToolResultCache;
+
+  /**
+   * How long (in milliseconds) the store remembers the root workflow of an agent workflow,
+   * so that the agent workflows it starts can share the `'root_subject'` scoped results.
+   *
+   * @defaultValue 86400000 (24 hours)
+   */
+  rootSubjectTtlMs?: number;
 };
 
 /**
@@ -131,6 +405,15 @@ export type AgentToolServerConfig<T> = {
    * This is the mechanism used to enforce "Verification First" or "Human Approval First" patterns.
    */
   priority: number;
+
+  /**
+   * Timeout, retry and parallelism safeguards for synchronous (`'internal'` and `'mcp'`) tools.
+   * Merged over the Agent's default `toolExecutionPolicy`. Ignored for `'arvo'` services.
+   */
+  executionPolicy?: AgentToolExecutionPolicy;
+
+  /** Caches the results of the tool in the Agent's `toolResultCache`. */
+  cache?: AgentToolCachePolicy;
 };
 
 /**
@@ -276,6 +559,130 @@ export type AgentOutputBuilder<
   | { error: Error }
 >;
 
+/**
+ * Configuration for multi-turn agent sessions.
+ */
+export type AgentSessionConfig = {
+  /**
+   * How long an idle session waits for the next user message before it closes. The
+   * Agent schedules a wake-up at the expiry, so it requires `serviceDeadlineWakeUp`.
+   *
+   * @default - The session stays open until it is closed explicitly
+   */
+  idleTtlMs?: number;
+
+  /** Event domains to route the turn responses to. */
+  domains?: NonEmptyArray<string>;
+};
+
+/**
+ * Configuration for cancelling agent workflows via the `agentCancellationContract` event.
+ */
+export type AgentCancellationConfig = {
+  /**
+   * Shared registry through which the cancellation cascades to the workflows started by
+   * the agent. Child agents must be configured with the same registry.
+   *
+   * A child agent checks the registry when it executes. Without `emit`, a child suspended
+   * on a service or a human only cancels itself once its next event, or its next
+   * `serviceDeadlineWakeUp`, arrives.
+   *
+   * @default - The cancellation does not cascade
+   */
+  registry?: ICancellationRegistry;
+
+  /**
+   * Sends the cancel events of the child workflows which have not responded to the
+   * cancelled workflow, e.g. `(event) => broker.publish(event)`.
+   *
+   * The events of the agent cannot address the subjects of its children, so they are sent
+   * through this callback instead. It requires a `registry` implementing `register` and
+   * `children`. A failed send is logged, and the child then cancels itself on its next event.
+   *
+   * @default - No event is sent to the child workflows
+   */
+  emit?: (event: ArvoEvent, config: { otelInfo: OtelInfoType }) => PromiseAble<void>;
+};
+
+/**
+ * The "Cancellation Output" Hook.
+ *
+ * Builds the completion event data of a cancelled workflow, letting the agent end with a
+ * regular completion event (e.g. one carrying a `cancelled` flag) instead of a system error.
+ */
+export type AgentCancellationOutputBuilder<
+  T extends AnyArvoOrchestratorContract = AnyArvoOrchestratorContract,
+  V extends ArvoSemanticVersion = ArvoSemanticVersion,
+> = (param: {
+  /** The cancellation reason, if one was given. */
+  reason: string | null;
+  /** The service calls which were still awaiting a response. */
+  cancelledToolCalls: { toolUseId: string; type: string }[];
+  /** The Otel span to add logs to */
+  span: Span;
+}) => PromiseAble<
+  InferVersionedArvoContract<
+    VersionedArvoContract<T, V>
+  >['emits'][T['metadata']['completeEventType']]['data']
+>;
+
+/**
+ * An agent the conversation can be handed over to.
+ */
+export type AgentHandoffTarget = {
+  /**
+   * The contract of the target agent. Its init schema must declare the `handoff$$` field
+   * with the `AgentHandoffSchema`.
+   */
+  contract: VersionedArvoContract<AnyArvoOrchestratorContract, ArvoSemanticVersion>;
+
+  /**
+   * Tells the LLM when to hand the conversation over to this agent.
+   *
+   * @default - The description of the target contract
+   */
+  description?: string;
+
+  /** Event domains to route the init event of the target agent to. */
+  domains?: NonEmptyArray<string>;
+
+  /**
+   * Selects the messages transferred to the target agent.
+   *
+   * @default - The text and media messages. The tool calls and results are dropped
+   */
+  filterMessages?: (messages: AgentMessage[]) => AgentMessage[];
+};
+
+/**
+ * Configuration for handing the conversation over to other agents.
+ *
+ * The LLM gets a handoff tool per target. Calling it starts the target agent with the
+ * transferred conversation as a child workflow. Once the target agent gives its final
+ * answer, this workflow completes with the `output` handoff marker built from it, so the
+ * initiator of this workflow receives exactly one completion.
+ */
+export type AgentHandoffConfig<
+  T extends AnyArvoOrchestratorContract = AnyArvoOrchestratorContract,
+  V extends ArvoSemanticVersion = ArvoSemanticVersion,
+> = {
+  targets: Record<string, AgentHandoffTarget>;
+
+  /** Builds the completion event data marking the workflow as handed over. */
+  output: (param: {
+    /** The key of the target in `targets`. */
+    target: string;
+    /** The completion event data of the target agent, i.e. its final answer. */
+    output: Record<string, unknown>;
+    /** The Otel span to add logs to */
+    span: Span;
+  }) => PromiseAble<
+    InferVersionedArvoContract<
+      VersionedArvoContract<T, V>
+    >['emits'][T['metadata']['completeEventType']]['data']
+  >;
+};
+
 /**
  * Configuration object for instantiating a new Arvo Agent.
  *
@@ -338,6 +745,108 @@ export type CreateArvoAgentParam<
    */
   maxToolInteractions?: number;
 
+  /**
+   * The default hard budget on execution units and prompt/completion tokens for a single workflow,
+   * or for a single turn of a `session`. When reached, the Agent is forced to produce a final
+   * answer, exactly like when `maxToolInteractions` is exhausted.
+   *
+   * Individual versions can override this via their handler configuration.
+   *
+   * @default - No budget is enforced
+   */
+  budget?: AgentBudget;
+
+  /**
+   * The default timeout, retry and parallelism safeguards for synchronous (Internal and MCP)
+   * tool calls. Per-tool `executionPolicy` values (or the MCP client's `toolExecutionPolicy`)
+   * override it.
+   *
+   * @default - No timeout, no retries and unbounded parallelism
+   */
+  toolExecutionPolicy?: AgentToolExecutionPolicy;
+
+  /**
+   * How the lower priority tool calls of a turn are handled when only the highest priority
+   * batch is executed.
+   *
+   * - `'drop'`: The calls are discarded and the LLM is not told about them.
+   * - `'defer'`: Each call is answered with a synthetic `tool_result` asking the LLM to
+   *   re-issue it after reviewing the results of the higher priority tools.
+   * - `'queue'`: The calls are executed automatically once the higher priority batch has
+   *   resolved, including after the Agent resumes from Arvo service calls. Once the budget
+   *   is exhausted, they are answered with a "not executed" `tool_result` instead.
+   *
+   * In all cases an `agent.tool.deferred` stream event is emitted for each such call.
+   *
+   * @defaultValue 'drop'
+   */
+  lowPriorityToolCallStrategy?: 'drop' | 'defer' | 'queue';
+
+  /**
+   * When the Agent resumes the LLM while it awaits the responses of multiple service calls.
+   *
+   * With `'each'` or a quorum, the LLM may act on partial results, issue further calls or
+   * produce the final output before the remaining responses arrive. Once the output is
+   * produced, the workflow completes and late responses are not processed.
+   *
+   * @defaultValue 'all'
+   */
+  resumeStrategy?: AgentResumeStrategy;
+
+  /**
+   * Offloads oversized tool results and service responses to an external store, keeping only
+   * a preview and a reference in the persisted message history.
+   *
+   * @default - All tool results are kept in the history in full
+   */
+  toolResultStore?: AgentToolResultStoreConfig;
+
+  /**
+   * Optional cache of the results of the tools, services and MCP tools marked with a
+   * `cache` policy. Hits are served without executing the tool or emitting the service
+   * event and fire an `agent.tool.cache.hit` stream event.
+   */
+  toolResultCache?: AgentToolResultCacheConfig;
+
+  /**
+   * Enables cancelling the agent workflow with the `agentCancellationContract` event.
+   *
+   * On cancellation, the pending service calls are marked as cancelled, the permission
+   * manager and tool result store are cleaned up, an `agent.cancelled` stream event fires
+   * and the workflow ends with the version's `cancellationOutput` completion event or,
+   * when not set, with a system error event (`AgentCancellationError`).
+   *
+   * @default - The agent cannot be cancelled
+   */
+  cancellation?: AgentCancellationConfig;
+
+  /**
+   * Keeps the workflow open as a multi-turn session after the Agent produces its output.
+   *
+   * Each output is emitted as an `agentSessionContract` turn response instead of the
+   * completion event. The next user message, sent back as the event emitted by that
+   * contract, is appended to the persisted conversation and starts the next turn. The
+   * workflow completes with the output of the last turn once the session is closed with
+   * the `agentSessionCloseContract` event or its idle TTL expires. The tool interaction
+   * limit and the budget apply per turn.
+   *
+   * @default - The workflow completes with the first output
+   */
+  session?: AgentSessionConfig;
+
+  /**
+   * Makes the Agent emit an `agentWakeUpContract` event, carrying the earliest deadline, each
+   * time it suspends on service calls with a `timeoutMs` or an idle session with an `idleTtlMs`.
+   * A scheduler replying at that time wakes the Agent up to time out the overdue calls, or
+   * close the expired session, even when no other event arrives.
+   *
+   * @default - Deadlines are only checked when the next event for the workflow arrives
+   */
+  serviceDeadlineWakeUp?: {
+    /** Event domains to route the wake-up requests to. */
+    domains?: NonEmptyArray<string>;
+  };
+
   /**
    * An optional Model Context Protocol (MCP) client.
    * Gives the agent standardized access to external data sources (Filesystems, GitHub, Databases)
@@ -394,6 +903,16 @@ export type CreateArvoAgentParam<
    */
   permissionManager?: IPermissionManager;
 
+  /**
+   * Optional ordered list of deterministic content checks, applied to the initial and
+   * session messages, to every tool result and service response before it enters the
+   * history and to the final output before it is emitted.
+   *
+   * Each guardrail can pass, redact or block the content. A block fails the execution
+   * with a `GuardrailBlockError`.
+   */
+  guardrails?: IGuardrail[];
+
   /**
    * The default domains for the emitted events by the agents.
    *
@@ -454,6 +973,48 @@ export type CreateArvoAgentParam<
        */
       llm?: AgentLLMIntegration;
 
+      /**
+       * Version-specific override for the execution unit and token budget.
+       * Overrides the agent-level `budget` default for this version only.
+       */
+      budget?: AgentBudget;
+
+      /**
+       * Automatic conversation compaction for this version.
+       * When not set, the message history grows without bound.
+       */
+      compaction?: AgentCompactionConfig;
+
+      /**
+       * Builds the completion event data when the workflow of this version is cancelled.
+       * When not set, a cancelled workflow ends with a system error event.
+       */
+      cancellationOutput?: AgentCancellationOutputBuilder<TSelfContract, K>;
+
+      /**
+       * Version-specific override for the resume strategy.
+       * Overrides the agent-level `resumeStrategy` default for this version only.
+       */
+      resumeStrategy?: AgentResumeStrategy;
+
+      /**
+       * The agents this version can hand the conversation over to.
+       * When not set, the agent answers every request itself.
+       */
+      handoff?: AgentHandoffConfig<TSelfContract, K>;
+
+      /**
+       * Plans the work of this version before the first turn and tracks the plan
+       * across turns. When not set, the agent acts without an explicit plan.
+       */
+      planning?: AgentPlanningConfig;
+
+      /**
+       * Verifies the output of this version before it is emitted.
+       * When not set, every output accepted by the `output` builder is emitted.
+       */
+      verification?: AgentVerificationConfig;
+
       /**
        * Context engineering function executed once during agent initialization.
        *
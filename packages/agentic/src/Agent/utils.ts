@@ -2,11 +2,12 @@ import { SemanticConventions as OpenInferenceSemanticConventions } from '@arizea
 import type { Span } from '@opentelemetry/api';
 import type { ArvoSemanticVersion, VersionedArvoContract } from 'arvo-core';
 import { zodToJsonSchema } from 'zod-to-json-schema';
-import type { AgentInternalTool } from '../AgentTool/types';
+import type { AgentInternalTool, AgentToolExecutionPolicy } from '../AgentTool/types';
 import type { AgentLLMIntegrationOutput } from '../Integrations/types';
 import type { IMCPClient } from '../interfaces.mcp';
 import type { OtelInfoType } from '../types';
 import type {
+  AgentBudget,
   AgentMessage,
   AgentServiceContract,
   AgentToolCallContent,
@@ -53,6 +54,7 @@ export const generateServiceToolDefinitions = <
         kind: 'arvo',
         contract: value.contract,
         priority: value.priority ?? 0,
+        cache: value.cache,
       },
     };
   }
@@ -72,6 +74,8 @@ export const generateMcpToolDefinitions = async (
 ) => {
   const mcpToolList = (await mcp?.getTools(config)) ?? [];
   const mcpToolPriorityMap = (await mcp?.getToolPriority(config)) ?? {};
+  const mcpToolExecutionPolicyMap = (await mcp?.getToolExecutionPolicy?.(config)) ?? {};
+  const mcpToolCachePolicyMap = (await mcp?.getToolCachePolicy?.(config)) ?? {};
   return Object.fromEntries(
     mcpToolList.map((item) => [
       item.name,
@@ -85,6 +89,8 @@ export const generateMcpToolDefinitions = async (
           kind: 'mcp',
           contract: null,
           priority: mcpToolPriorityMap[item.name] ?? 0,
+          executionPolicy: mcpToolExecutionPolicyMap[item.name],
+          cache: mcpToolCachePolicyMap[item.name],
         },
       } as AgentToolDefinition<null>,
     ]),
@@ -113,6 +119,8 @@ export const generateAgentInternalToolDefinitions = <
         kind: 'internal',
         contract: tool,
         priority: tool.priority ?? 0,
+        executionPolicy: tool.executionPolicy,
+        cache: tool.cache,
       },
     };
   }
@@ -278,6 +286,14 @@ export const setOpenInferenceUsageOutputAttr = (
       [OpenInferenceSemanticConventions.LLM_TOKEN_COUNT_TOTAL]:
         param.tokens.completion + param.tokens.prompt,
     });
+    if (param.tokens.cache) {
+      span.setAttributes({
+        [OpenInferenceSemanticConventions.LLM_TOKEN_COUNT_PROMPT_DETAILS_CACHE_READ]:
+          param.tokens.cache.read,
+        [OpenInferenceSemanticConventions.LLM_TOKEN_COUNT_PROMPT_DETAILS_CACHE_WRITE]:
+          param.tokens.cache.write,
+      });
+    }
   }
 };
 
@@ -313,21 +329,173 @@ export const tryParseJson = (str: string): Record<string, unknown> | null => {
  * Implements the Priority-Based Execution logic.
  *
  * Takes a list of requested tool calls, groups them by their configured priority,
- * and returns **only** the batch with the highest priority. All lower priority
- * calls are discarded.
+ * and returns the batch with the highest priority as `prioritized`. All lower priority
+ * calls are returned, in their original order, as `deferred` so the caller can decide
+ * whether to drop, defer or queue them.
  */
-export const prioritizeToolCalls = (
-  toolCalls: Omit<AgentToolCallContent, 'type'>[],
+export const prioritizeToolCalls = <T extends Omit<AgentToolCallContent, 'type'>>(
+  toolCalls: T[],
   nameToToolMap: Record<string, AgentToolDefinition>,
-): Omit<AgentToolCallContent, 'type'>[] => {
-  const grouped = new Map<number, Omit<AgentToolCallContent, 'type'>[]>();
-  for (const request of toolCalls) {
-    const priority = nameToToolMap[request.name]?.serverConfig.priority ?? 0;
-    const existing = grouped.get(priority) ?? [];
-    existing.push(request);
-    grouped.set(priority, existing);
+): {
+  prioritized: T[];
+  deferred: T[];
+} => {
+  const getPriority = (request: T) => nameToToolMap[request.name]?.serverConfig.priority ?? 0;
+  const highestPriority = Math.max(...toolCalls.map(getPriority));
+  return {
+    prioritized: toolCalls.filter((request) => getPriority(request) === highestPriority),
+    deferred: toolCalls.filter((request) => getPriority(request) !== highestPriority),
+  };
+};
+
+/**
+ * Determines which budget limits have been reached by the accumulated usage.
+ *
+ * Returns the keys of every configured limit in `max` that the `usage` has met or
+ * exceeded. Limits which are not configured are never reported.
+ */
+export const getExhaustedBudgets = (
+  max: AgentBudget,
+  usage: Required<AgentBudget>,
+): (keyof AgentBudget)[] =>
+  (Object.keys(usage) as (keyof AgentBudget)[]).filter((key) => {
+    const limit = max[key];
+    return typeof limit === 'number' && usage[key] >= limit;
+  });
+
+/**
+ * Creates a limiter which allows at most `max` of the wrapped operations to run at once.
+ * Extra operations wait, in FIFO order, for a running one to settle.
+ */
+export const createConcurrencyLimiter = (max: number) => {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+  return async <T>(fn: () => Promise<T>): Promise<T> => {
+    if (active < max) {
+      active++;
+    } else {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+    try {
+      return await fn();
+    } finally {
+      // Hand the slot directly to the next waiter so new callers cannot jump the queue
+      const next = waiting.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+};
+
+const TOOL_TIMEOUT = Symbol('TOOL_TIMEOUT');
+
+/**
+ * Executes a synchronous (Internal or MCP) tool call under its `AgentToolExecutionPolicy`.
+ *
+ * Each attempt is bounded by `timeoutMs` and failed or timed out attempts are retried with
+ * exponential backoff. A timed out attempt is aborted through the signal handed to `execute`,
+ * and it is only retried once it has settled, so two attempts of a call never run at once.
+ * An attempt which does not settle within another `timeoutMs` after the abort is not retried.
+ * When a `limiter` is given, an attempt holds its slot until it settles, not just until it
+ * times out, and its timeout only starts once it has acquired the slot.
+ *
+ * This function never throws. The final failure is returned as a structured error JSON string
+ * so that it can be fed back to the LLM as the `tool_result`.
+ */
+export const executeToolWithPolicy = async (param: {
+  policy: AgentToolExecutionPolicy;
+  execute: (signal: AbortSignal) => Promise<string>;
+  onTimeout: (event: { timeoutMs: number; attempt: number; willRetry: boolean }) => void;
+  limiter?: ReturnType<typeof createConcurrencyLimiter>;
+}): Promise<string> => {
+  const { timeoutMs, retry } = param.policy;
+  const maxAttempts = 1 + Math.max(0, retry?.maxRetries ?? 0);
+  const initialDelayMs = retry?.initialDelayMs ?? 100;
+  const backoffExponent = retry?.backoffExponent ?? 1.5;
+  let failure: { type: 'error'; name: string; message: string } = {
+    type: 'error',
+    name: 'Error',
+    message: 'Tool execution failed',
+  };
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    if (attempt > 1) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, initialDelayMs * backoffExponent ** (attempt - 2)),
+      );
+    }
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let onStart: () => void = () => {};
+    const started = new Promise<void>((resolve) => {
+      onStart = resolve;
+    });
+    const run = () => {
+      onStart();
+      return param.execute(controller.signal);
+    };
+    const execution = param.limiter ? param.limiter(run) : run();
+    const settled = execution.then(
+      () => true,
+      () => true,
+    );
+    try {
+      await Promise.race([started, execution]);
+      const result = await Promise.race([
+        execution,
+        ...(timeoutMs
+          ? [
+              new Promise<typeof TOOL_TIMEOUT>((resolve) => {
+                timer = setTimeout(() => resolve(TOOL_TIMEOUT), timeoutMs);
+              }),
+            ]
+          : []),
+      ]);
+      if (result !== TOOL_TIMEOUT) return result;
+      failure = {
+        type: 'error',
+        name: 'ToolTimeoutError',
+        message: `The tool did not respond within ${timeoutMs}ms (attempt ${attempt} of ${maxAttempts}). The operation may or may not have completed.`,
+      };
+      controller.abort(new Error(failure.message));
+      const abandoned =
+        attempt < maxAttempts &&
+        !(await Promise.race([
+          settled,
+          new Promise<false>((resolve) => {
+            timer = setTimeout(() => resolve(false), timeoutMs);
+          }),
+        ]));
+      param.onTimeout({
+        timeoutMs: timeoutMs as number,
+        attempt,
+        willRetry: attempt < maxAttempts && !abandoned,
+      });
+      if (abandoned) break;
+    } catch (err) {
+      failure = {
+        type: 'error',
+        name: (err as Error)?.name ?? 'Error',
+        message: (err as Error)?.message ?? 'Tool execution failed',
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+  return JSON.stringify(failure);
+};
+
+/** Serializes a value as JSON with the object keys sorted, so equal values serialize equally. */
+export const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`,
+      )
+      .join(',')}}`;
   }
-  const priorities = Array.from(grouped.keys()).sort((a, b) => b - a);
-  const highestPriority = priorities[0] ?? 0;
-  return grouped.get(highestPriority) ?? [];
+  return JSON.stringify(value) ?? 'null';
 };
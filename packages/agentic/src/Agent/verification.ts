@@ -0,0 +1,134 @@
+import {
+  SemanticConventions as OpenInferenceSemanticConventions,
+  OpenInferenceSpanKind,
+} from '@arizeai/openinference-semantic-conventions';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { ArvoOpenTelemetry, exceptionToSpan, getOtelHeaderFromSpan, logToSpan } from 'arvo-core';
+import z from 'zod';
+import { DEFAULT_VERIFICATION_PROMPT } from '../Integrations/prompts.js';
+import type { AgentLLMIntegration } from '../Integrations/types.js';
+import type { OtelInfoType } from '../types.js';
+import type { AgentMessage, AgentVerificationConfig, AgentVerificationVerdict } from './types.js';
+
+export const DEFAULT_MAX_VERIFICATION_RETRIES = 2;
+
+const verdictFormat = z.object({
+  approved: z.boolean().describe('Whether the answer satisfies every criterion of the rubric'),
+  score: z.number().min(0).max(1).describe('The quality of the answer between 0 and 1'),
+  feedback: z
+    .string()
+    .nullable()
+    .describe('What must change for the answer to be approved. Null when approved'),
+});
+
+/**
+ * Runs the verifier of the Agent version on a candidate output.
+ *
+ * With a `rubric`, the verifier LLM sees the rubric, the conversation rendered as text and
+ * the candidate output, and responds with a JSON verdict. With a `verify` function, the
+ * function decides. The verdict and score are recorded on an evaluator span.
+ */
+export const verifyOutput = async (
+  param: {
+    output: Record<string, unknown>;
+    messages: AgentMessage[];
+    system: string | null;
+    config: AgentVerificationConfig;
+    llm: AgentLLMIntegration;
+  },
+  config: { otelInfo: OtelInfoType },
+) =>
+  await ArvoOpenTelemetry.getInstance().startActiveSpan({
+    name: 'AgentVerification',
+    disableSpanManagement: true,
+    context: {
+      inheritFrom: 'TRACE_HEADERS',
+      traceHeaders: config.otelInfo.headers,
+    },
+    spanOptions: {
+      attributes: {
+        [OpenInferenceSemanticConventions.OPENINFERENCE_SPAN_KIND]: OpenInferenceSpanKind.EVALUATOR,
+      },
+    },
+    fn: async (span) => {
+      const otelInfo: OtelInfoType = { span, headers: getOtelHeaderFromSpan(span) };
+      try {
+        let verdict: AgentVerificationVerdict;
+        let usage = { prompt: 0, completion: 0 };
+        let executionUnits = 0;
+        if (param.config.verify) {
+          verdict = await param.config.verify(
+            { output: param.output, messages: param.messages, system: param.system },
+            { otelInfo },
+          );
+        } else {
+          const request = [
+            `## Rubric\n${param.config.rubric}`,
+            `## Agent instructions\n${param.system ?? 'None'}`,
+            `## Conversation\n${param.messages
+              .map(({ role, content }) =>
+                content.type === 'text'
+                  ? `[${role}] ${content.content}`
+                  : `[${role}] (${content.type} content)`,
+              )
+              .join('\n\n')}`,
+            `## Answer\n${JSON.stringify(param.output)}`,
+          ].join('\n\n');
+          const response = await (param.config.llm ?? param.llm)(
+            {
+              lifecycle: 'init',
+              system: DEFAULT_VERIFICATION_PROMPT,
+              messages: [
+                { role: 'user', content: { type: 'text', content: request }, seenCount: 0 },
+              ],
+              tools: [],
+              toolInteractions: { current: 0, max: 1, exhausted: false },
+              budget: {
+                max: {},
+                current: { executionUnits: 0, promptTokens: 0, completionTokens: 0 },
+                exhausted: false,
+              },
+              outputFormat: { type: 'json', format: verdictFormat },
+              // The verification is internal to the Agent and is not streamed
+              onStream: () => {},
+            },
+            { otelInfo },
+          );
+          if (response.type !== 'json') {
+            throw new Error('The verifier LLM did not respond with a JSON verdict');
+          }
+          const parsed = verdictFormat.safeParse(response.parsedContent);
+          if (parsed.error) {
+            throw new Error(
+              `The verifier LLM responded with an invalid verdict. ${parsed.error.message}`,
+            );
+          }
+          verdict = parsed.data;
+          usage = response.usage.tokens;
+          executionUnits = response.executionUnits;
+        }
+        logToSpan(
+          {
+            level: verdict.approved ? 'INFO' : 'WARNING',
+            message: `The verifier ${verdict.approved ? 'approved' : 'rejected'} the output`,
+            approved: String(verdict.approved),
+            score: String(verdict.score),
+            feedback: verdict.feedback ?? '',
+          },
+          span,
+        );
+        span.setAttributes({
+          'agent.verification.approved': verdict.approved,
+          ...(verdict.score !== null ? { 'agent.verification.score': verdict.score } : {}),
+        });
+        span.setStatus({ code: SpanStatusCode.OK });
+        return { verdict, usage, executionUnits };
+      } catch (error) {
+        exceptionToSpan(error as Error, span);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: (error as Error).message });
+        throw error;
+      } finally {
+        span.end();
+      }
+    },
+  });
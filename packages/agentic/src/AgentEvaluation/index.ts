@@ -0,0 +1,372 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { createConcurrentEventBroker } from '@arvo-tools/concurrent';
+import { SpanStatusCode } from '@opentelemetry/api';
+import {
+  type ArvoEvent,
+  ArvoOpenTelemetry,
+  createArvoOrchestratorEventFactory,
+  exceptionToSpan,
+  getOtelHeaderFromSpan,
+} from 'arvo-core';
+import { ConfigViolation } from 'arvo-event-handler';
+import { createTimestamp } from '../Agent/stream/utils';
+import { createConcurrencyLimiter } from '../Agent/utils';
+import { verifyOutput } from '../Agent/verification';
+import type { OtelInfoType } from '../types';
+import { createJUnitReport } from './report';
+import type {
+  AgentEvaluationCase,
+  AgentEvaluationCaseResult,
+  AgentEvaluationCheck,
+  AgentEvaluationReport,
+  AgentEvaluationScorer,
+  AgentEvaluationStreamEvent,
+  EvaluateAgentParam,
+} from './types';
+
+const DEFAULT_SCORER_THRESHOLD = 0.5;
+
+const matchesToolSequence = (
+  toolCalls: string[],
+  expected: string[],
+  mode: 'exact' | 'subsequence',
+) => {
+  if (mode === 'exact') {
+    return (
+      toolCalls.length === expected.length && toolCalls.every((name, i) => name === expected[i])
+    );
+  }
+  let index = 0;
+  for (const name of toolCalls) {
+    if (name === expected[index]) index++;
+  }
+  return index === expected.length;
+};
+
+/**
+ * Resolves a case on its own `createConcurrentEventBroker`. Nothing answers a domained event
+ * or recovers from a broker error within the evaluation, so both fail the case.
+ */
+const resolveOnConcurrentBroker: NonNullable<EvaluateAgentParam['resolve']> = async ({
+  agent,
+  services,
+  event,
+}) => {
+  let domainedEvent: ArvoEvent | null = null;
+  let brokerError: Error | null = null;
+  const { resolve } = createConcurrentEventBroker(
+    [agent, ...services].map((handler) => ({ handler })),
+    {
+      onDomainedEvents: async ({ event }) => {
+        domainedEvent ??= event;
+      },
+      onBrokerError: (e) => {
+        brokerError ??= e;
+      },
+    },
+  );
+  const result = await resolve(event);
+  if (!result && domainedEvent) {
+    throw new Error(
+      `The agent suspended on the domained event '${(domainedEvent as ArvoEvent).type}'`,
+    );
+  }
+  if (!result && brokerError) throw brokerError;
+  return result;
+};
+
+/**
+ * Runs the scorers of a case. A failing scorer is reported as a failed check with the
+ * error as its reason, so one broken scorer does not abort the evaluation.
+ */
+const runScorers = async (
+  param: {
+    scorers: AgentEvaluationScorer[];
+    testCase: AgentEvaluationCase;
+    output: Record<string, unknown>;
+    toolCalls: string[];
+    events: AgentEvaluationStreamEvent[];
+    judge: EvaluateAgentParam['judge'];
+  },
+  config: { otelInfo: OtelInfoType },
+): Promise<AgentEvaluationCheck[]> => {
+  const checks: AgentEvaluationCheck[] = [];
+  for (const scorer of param.scorers) {
+    const threshold = scorer.threshold ?? DEFAULT_SCORER_THRESHOLD;
+    try {
+      let score: number;
+      let reason: string | null;
+      if (scorer.score) {
+        const result = await scorer.score(
+          {
+            input: param.testCase.input,
+            output: param.output,
+            toolCalls: param.toolCalls,
+            events: param.events,
+          },
+          config,
+        );
+        score = result.score;
+        reason = result.reason ?? null;
+      } else {
+        const { verdict } = await verifyOutput(
+          {
+            output: param.output,
+            messages: [
+              {
+                role: 'user',
+                content: { type: 'text', content: JSON.stringify(param.testCase.input) },
+                seenCount: 0,
+              },
+            ],
+            system: null,
+            config: { rubric: scorer.rubric },
+            // The scorers are validated to have an LLM before the evaluation starts
+            // biome-ignore lint/style/noNonNullAssertion: Validated upfront
+            llm: (scorer.llm ?? param.judge)!,
+          },
+          config,
+        );
+        score = verdict.score ?? (verdict.approved ? 1 : 0);
+        reason = verdict.feedback;
+      }
+      checks.push({ name: scorer.name, passed: score >= threshold, score, reason });
+    } catch (e) {
+      exceptionToSpan(e as Error, config.otelInfo.span);
+      checks.push({
+        name: scorer.name,
+        passed: false,
+        score: null,
+        reason: `The scorer failed. ${(e as Error).message}`,
+      });
+    }
+  }
+  return checks;
+};
+
+/**
+ * Evaluates an agent over a dataset of cases.
+ *
+ * Each case runs in its own `createConcurrentEventBroker`, or on the event broker of the given
+ * `resolve`, with a fresh agent handler and the shared service handlers, and is resolved from
+ * its init event to the completion event of the agent. The stream events, tool calls, token
+ * usage and execution units of the agent are collected, and the case is checked against its
+ * expectations and scorers:
+ *
+ * - `completion`: The agent emitted its completion event.
+ * - `tool_sequence`: The tool calls match `expect.toolSequence`.
+ * - `output_schema`: The completion event data satisfies `expect.output`.
+ * - One check per scorer, which passes when its score reaches the threshold.
+ *
+ * A case passes when all its checks pass. Cases which end in a system error, suspend on a
+ * domained event or whose `resolve` throws, fail the `completion` check. Run the same dataset across versions,
+ * prompts or models to compare them.
+ *
+ * @throws {ConfigViolation} When a `rubric` scorer has no LLM and no `judge` is given
+ *
+ * @example
+ * ```typescript
+ * const report = await evaluateAgent({
+ *   contract: calculatorAgentContract,
+ *   version: '1.0.0',
+ *   agent: ({ onStream }) => calculatorAgent({ memory: new SimpleMachineMemory(), onStream }),
+ *   services: [calculatorHandler()],
+ *   dataset: [
+ *     {
+ *       name: 'solves a linear equation',
+ *       input: { message: 'What is x in 2x+5=67?' },
+ *       expect: { toolSequence: ['com.calculator.execute'] },
+ *     },
+ *   ],
+ *   scorers: [{ name: 'correctness', rubric: 'The answer states that x is 31' }],
+ *   judge: openaiLLMIntegration(new OpenAI()),
+ *   report: { json: './reports/calculator.json', junit: './reports/calculator.xml' },
+ * });
+ * ```
+ */
+export const evaluateAgent = async (param: EvaluateAgentParam): Promise<AgentEvaluationReport> => {
+  const versionedContract = param.contract.version(param.version);
+  const source = param.source ?? 'arvo.agent.evaluation';
+  const scorers = param.scorers ?? [];
+  for (const scorer of [...scorers, ...param.dataset.flatMap((item) => item.scorers ?? [])]) {
+    if (scorer.rubric && !scorer.llm && !param.judge) {
+      throw new ConfigViolation(
+        `The scorer "${scorer.name}" uses a rubric but has no LLM. Set its 'llm' or the 'judge' of the evaluation.`,
+      );
+    }
+  }
+
+  return await ArvoOpenTelemetry.getInstance().startActiveSpan({
+    name: `AgentEvaluation<${param.contract.type}@${param.version}>`,
+    disableSpanManagement: true,
+    fn: async (span) => {
+      const otelInfo: OtelInfoType = { span, headers: getOtelHeaderFromSpan(span) };
+      const startedAt = createTimestamp();
+      const start = Date.now();
+      const limit = createConcurrencyLimiter(Math.max(param.concurrency ?? 4, 1));
+
+      const runCase = async (testCase: AgentEvaluationCase): Promise<AgentEvaluationCaseResult> => {
+        const caseStart = Date.now();
+        const events: AgentEvaluationStreamEvent[] = [];
+        let output: Record<string, unknown> | null = null;
+        let error: string | null = null;
+        try {
+          const event = createArvoOrchestratorEventFactory(versionedContract).init({
+            source,
+            // biome-ignore lint/suspicious/noExplicitAny: The dataset input is validated by the factory
+            data: { ...testCase.input, parentSubject$$: null } as any,
+          });
+          const result = await (param.resolve ?? resolveOnConcurrentBroker)({
+            agent: param.agent({ onStream: (streamEvent) => events.push(streamEvent) }),
+            services: param.services ?? [],
+            event,
+          });
+          if (result?.type === versionedContract.metadata.completeEventType) {
+            output = result.data as Record<string, unknown>;
+          } else if (result) {
+            error =
+              (result.data as { errorMessage?: string })?.errorMessage ??
+              `The agent responded with the event '${result.type}'`;
+          } else {
+            error = 'The agent did not respond';
+          }
+        } catch (e) {
+          exceptionToSpan(e as Error, span);
+          error = (e as Error).message;
+        }
+
+        const toolCalls = events
+          .map((item) => (item.type === 'agent.tool.request' ? item.data.tool.originalName : null))
+          .filter((item): item is string => item !== null);
+        const usage = { tokens: { prompt: 0, completion: 0 }, executionUnits: 0 };
+        // The usage in the stream events is the running total of the workflow
+        for (const item of events) {
+          if (!('usage' in item.data) || !('executionunits' in item.data)) continue;
+          usage.tokens.prompt = Math.max(usage.tokens.prompt, item.data.usage.prompt);
+          usage.tokens.completion = Math.max(usage.tokens.completion, item.data.usage.completion);
+          usage.executionUnits = Math.max(usage.executionUnits, item.data.executionunits);
+        }
+
+        const checks: AgentEvaluationCheck[] = [
+          { name: 'completion', passed: output !== null, score: null, reason: error },
+        ];
+        const expectation = testCase.expect;
+        if (expectation?.toolSequence) {
+          const passed = matchesToolSequence(
+            toolCalls,
+            expectation.toolSequence,
+            expectation.toolSequenceMatch ?? 'exact',
+          );
+          checks.push({
+            name: 'tool_sequence',
+            passed,
+            score: null,
+            reason: passed
+              ? null
+              : `Expected [${expectation.toolSequence.join(', ')}] but the agent called [${toolCalls.join(', ')}]`,
+          });
+        }
+        if (expectation?.output) {
+          const parsed = output ? expectation.output.safeParse(output) : null;
+          checks.push({
+            name: 'output_schema',
+            passed: Boolean(parsed?.success),
+            score: null,
+            reason: parsed
+              ? parsed.success
+                ? null
+                : parsed.error.message
+              : 'The agent did not complete',
+          });
+        }
+        const caseScorers = [...scorers, ...(testCase.scorers ?? [])];
+        if (output) {
+          checks.push(
+            ...(await runScorers(
+              {
+                scorers: caseScorers,
+                testCase,
+                output,
+                toolCalls,
+                events,
+                judge: param.judge,
+              },
+              { otelInfo },
+            )),
+          );
+        } else {
+          checks.push(
+            ...caseScorers.map((scorer) => ({
+              name: scorer.name,
+              passed: false,
+              score: null,
+              reason: 'The agent did not complete',
+            })),
+          );
+        }
+
+        return {
+          name: testCase.name,
+          passed: checks.every((check) => check.passed),
+          durationMs: Date.now() - caseStart,
+          input: testCase.input,
+          output,
+          error,
+          toolCalls,
+          usage,
+          checks,
+          events,
+        };
+      };
+
+      try {
+        const cases = await Promise.all(
+          param.dataset.map((testCase) => limit(() => runCase(testCase))),
+        );
+        const passed = cases.filter((item) => item.passed).length;
+        const report: AgentEvaluationReport = {
+          agent: param.contract.type,
+          version: param.version,
+          startedAt,
+          durationMs: Date.now() - start,
+          summary: {
+            total: cases.length,
+            passed,
+            failed: cases.length - passed,
+            usage: {
+              tokens: {
+                prompt: cases.reduce((acc, item) => acc + item.usage.tokens.prompt, 0),
+                completion: cases.reduce((acc, item) => acc + item.usage.tokens.completion, 0),
+              },
+              executionUnits: cases.reduce((acc, item) => acc + item.usage.executionUnits, 0),
+            },
+          },
+          cases,
+        };
+        span.setAttributes({
+          'agent.evaluation.total': report.summary.total,
+          'agent.evaluation.passed': report.summary.passed,
+        });
+
+        for (const [path, content] of [
+          [param.report?.json, JSON.stringify(report, null, 2)],
+          [param.report?.junit, createJUnitReport(report)],
+        ] as const) {
+          if (!path) continue;
+          await mkdir(dirname(path), { recursive: true });
+          await writeFile(path, content);
+        }
+
+        span.setStatus({ code: SpanStatusCode.OK });
+        return report;
+      } catch (e) {
+        exceptionToSpan(e as Error, span);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: (e as Error).message });
+        throw e;
+      } finally {
+        span.end();
+      }
+    },
+  });
+};
@@ -0,0 +1,45 @@
+import type { AgentEvaluationReport } from './types';
+
+const escapeXml = (value: string) =>
+  value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&apos;');
+
+/**
+ * Renders an evaluation report as JUnit XML, with one test case per dataset entry, so
+ * that CI systems can display the evaluation like a test run.
+ */
+export const createJUnitReport = (report: AgentEvaluationReport): string => {
+  const suite = `${report.agent}@${report.version}`;
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const cases = report.cases.map((item) => {
+    const open = `    <testcase name="${escapeXml(item.name)}" classname="${escapeXml(suite)}" time="${seconds(item.durationMs)}">`;
+    if (item.passed) return `${open}</testcase>`;
+    const failures = [
+      ...(item.error ? [`error: ${item.error}`] : []),
+      ...item.checks
+        .filter((check) => !check.passed)
+        .map(
+          (check) =>
+            `${check.name}${check.score !== null ? ` (score: ${check.score})` : ''}: ${check.reason ?? 'failed'}`,
+        ),
+    ];
+    return [
+      open,
+      `      <failure message="${escapeXml(failures[0] ?? 'failed')}">${escapeXml(failures.join('\n'))}</failure>`,
+      '    </testcase>',
+    ].join('\n');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(suite)}" tests="${report.summary.total}" failures="${report.summary.failed}" time="${seconds(report.durationMs)}">`,
+    `  <testsuite name="${escapeXml(suite)}" tests="${report.summary.total}" failures="${report.summary.failed}" time="${seconds(report.durationMs)}" timestamp="${report.startedAt}">`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+};
@@ -0,0 +1,194 @@
+import type { ArvoEvent, ArvoSemanticVersion } from 'arvo-core';
+import type { IArvoEventHandler } from 'arvo-event-handler';
+import type z from 'zod';
+import type { AgentStreamListener } from '../Agent/stream/types';
+import type { AnyArvoOrchestratorContract } from '../Agent/types';
+import type { AgentLLMIntegration } from '../Integrations/types';
+import type { OtelInfoType, PromiseAble } from '../types';
+
+/** A stream event of the evaluated agent, as received by its `onStream` listener. */
+export type AgentEvaluationStreamEvent = Parameters<AgentStreamListener>[0];
+
+/** What a scorer gets to see of an evaluated case. */
+export type AgentEvaluationScorerParam = {
+  /** The init event data of the case. */
+  input: Record<string, unknown>;
+  /** The completion event data of the agent. */
+  output: Record<string, unknown>;
+  /** The original names of the tools the agent called, in order. */
+  toolCalls: string[];
+  /** The stream events of the agent. */
+  events: AgentEvaluationStreamEvent[];
+};
+
+/**
+ * Scores the output of a case between 0 and 1.
+ *
+ * - With `score`, the function decides.
+ * - With `rubric`, an LLM judge grades the output against the rubric, using the `llm` of
+ *   the scorer or the `judge` of the evaluation.
+ */
+export type AgentEvaluationScorer = {
+  /** The name of the scorer, shown in the report. */
+  name: string;
+
+  /**
+   * The minimum score for the case to pass.
+   *
+   * @default 0.5
+   */
+  threshold?: number;
+} & (
+  | {
+      score: (
+        param: AgentEvaluationScorerParam,
+        config: { otelInfo: OtelInfoType },
+      ) => PromiseAble<{ score: number; reason?: string | null }>;
+      rubric?: never;
+      llm?: never;
+    }
+  | {
+      rubric: string;
+      llm?: AgentLLMIntegration;
+      score?: never;
+    }
+);
+
+/** A single entry of the evaluation dataset. */
+export type AgentEvaluationCase = {
+  /** The name of the case, unique within the dataset. */
+  name: string;
+
+  /** The init event data of the agent, without `parentSubject$$`. */
+  input: Record<string, unknown>;
+
+  expect?: {
+    /**
+     * The original names of the tools the agent is expected to call (service types, MCP
+     * and internal tool names).
+     */
+    toolSequence?: string[];
+
+    /**
+     * How the tool calls are compared to `toolSequence`.
+     *
+     * - `'exact'`: The agent calls exactly the given tools, in order.
+     * - `'subsequence'`: The agent calls the given tools in order, among other calls.
+     *
+     * @default 'exact'
+     */
+    toolSequenceMatch?: 'exact' | 'subsequence';
+
+    /** A schema the completion event data must satisfy. */
+    output?: z.ZodTypeAny;
+  };
+
+  /** The scorers of the case, run after the scorers of the evaluation. */
+  scorers?: AgentEvaluationScorer[];
+};
+
+export type EvaluateAgentParam = {
+  /** The orchestrator contract of the agent. */
+  contract: AnyArvoOrchestratorContract;
+
+  /** The contract version the cases are run against. */
+  version: ArvoSemanticVersion;
+
+  /**
+   * Creates the agent handler. It is called once per case, and the given `onStream` must
+   * be passed to `createArvoAgent` for the stream events to be collected.
+   */
+  agent: (param: { onStream: AgentStreamListener }) => IArvoEventHandler;
+
+  /** The handlers of the services the agent calls. They are shared by all the cases. */
+  services?: IArvoEventHandler[];
+
+  /**
+   * Runs a case on an event broker, from the init event of the agent to the event the agent
+   * finally emits. It is called once per case, e.g. to run the cases on another broker.
+   *
+   * Return `null` when the agent emits nothing, or throw when the case cannot be resolved,
+   * e.g. on a broker error or a domained event. The thrown message is reported as the error
+   * of the case.
+   *
+   * @default - Resolves the case with `createConcurrentEventBroker(...).resolve` of
+   * `@arvo-tools/concurrent`, failing it on a domained event or a broker error
+   */
+  resolve?: (param: {
+    agent: IArvoEventHandler;
+    services: IArvoEventHandler[];
+    event: ArvoEvent;
+  }) => Promise<ArvoEvent | null>;
+
+  /** The dataset to evaluate. */
+  dataset: AgentEvaluationCase[];
+
+  /** The scorers run on every case. */
+  scorers?: AgentEvaluationScorer[];
+
+  /** The default LLM of the `rubric` scorers. */
+  judge?: AgentLLMIntegration;
+
+  /**
+   * The maximum number of cases run at the same time.
+   *
+   * @default 4
+   */
+  concurrency?: number;
+
+  /**
+   * The source of the init events.
+   *
+   * @default 'arvo.agent.evaluation'
+   */
+  source?: string;
+
+  /** The paths to write the JSON and JUnit XML reports to. */
+  report?: {
+    json?: string;
+    junit?: string;
+  };
+};
+
+/** The outcome of a single expectation or scorer of a case. */
+export type AgentEvaluationCheck = {
+  name: string;
+  passed: boolean;
+  score: number | null;
+  reason: string | null;
+};
+
+export type AgentEvaluationCaseResult = {
+  name: string;
+  passed: boolean;
+  durationMs: number;
+  input: Record<string, unknown>;
+  /** The completion event data, or `null` when the agent did not complete. */
+  output: Record<string, unknown> | null;
+  /** The reason the agent did not complete, e.g. its system error message. */
+  error: string | null;
+  toolCalls: string[];
+  usage: {
+    tokens: { prompt: number; completion: number };
+    executionUnits: number;
+  };
+  checks: AgentEvaluationCheck[];
+  events: AgentEvaluationStreamEvent[];
+};
+
+export type AgentEvaluationReport = {
+  agent: string;
+  version: ArvoSemanticVersion;
+  startedAt: string;
+  durationMs: number;
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+    usage: {
+      tokens: { prompt: number; completion: number };
+      executionUnits: number;
+    };
+  };
+  cases: AgentEvaluationCaseResult[];
+};
@@ -5,8 +5,7 @@ import {
 import { SpanStatusCode } from '@opentelemetry/api';
 import { ArvoOpenTelemetry, getOtelHeaderFromSpan } from 'arvo-core';
 import type z from 'zod/v3/external.cjs';
-import type { OtelInfoType } from '../types';
-import type { AgentInternalTool } from './types';
+import type { AgentInternalTool, AgentInternalToolExecutionConfig } from './types';
 
 /**
  * Factory function to create an Instrumented Agent Tool.
@@ -42,7 +41,7 @@ export const createAgentTool = <
 ) =>
   ({
     ...param,
-    fn: async (input: z.infer<TInputSchema>, config: { otelInfo: OtelInfoType }) =>
+    fn: async (input: z.infer<TInputSchema>, config: AgentInternalToolExecutionConfig) =>
       await ArvoOpenTelemetry.getInstance().startActiveSpan({
         name: `AgentTool<${param.name}>.execute`,
         disableSpanManagement: true,
@@ -69,6 +68,7 @@ export const createAgentTool = <
                 `Invalid tool input data. Please send the correct data and its structure as per the input schema. ${inputValidation.error.toString()}`,
               );
             const result = await param.fn(inputValidation.data, {
+              ...config,
               otelInfo: {
                 span,
                 headers: getOtelHeaderFromSpan(span),
@@ -1,6 +1,110 @@
 import type z from 'zod';
+import type { AgentEventStreamer } from '../Agent/stream/types';
 import type { OtelInfoType, PromiseAble } from '../types';
 
+/**
+ * Execution safeguards applied to a synchronous (Internal or MCP) tool call.
+ *
+ * Synchronous tools are awaited inside the Agent's loop while it holds the workflow's
+ * memory lock, so a single hanging call can stall the whole Agent. This policy bounds
+ * how long each call may take, how failures are retried and how many calls to the
+ * same tool may run at once.
+ */
+export type AgentToolExecutionPolicy = {
+  /**
+   * The maximum time (in milliseconds) a single attempt may take. A timed out call is
+   * reported to the LLM as a structured `tool_result` error.
+   *
+   * @remarks
+   * The timed out operation is aborted through the `signal` handed to the tool. Tools which
+   * ignore the signal keep running, and their call is only retried once it has settled.
+   *
+   * @default - No timeout
+   */
+  timeoutMs?: number;
+
+  /**
+   * Retry policy for failed or timed out attempts.
+   *
+   * @default - No retries
+   */
+  retry?: {
+    /** The maximum number of retries after the first attempt. */
+    maxRetries: number;
+    /**
+     * The delay before the first retry.
+     * @default 100
+     */
+    initialDelayMs?: number;
+    /**
+     * Exponential backoff multiplier. Each retry waits `initialDelayMs * backoffExponent ^ retry`.
+     * @default 1.5
+     */
+    backoffExponent?: number;
+  };
+
+  /**
+   * The maximum number of calls to this tool executed in parallel during one execution
+   * of the Agent, across all of its LLM turns. Extra calls wait for a free slot, which a
+   * timed out call only frees once it has settled.
+   *
+   * @default - Unbounded
+   */
+  maxParallelism?: number;
+};
+
+/**
+ * Marks an idempotent tool as cacheable.
+ *
+ * When the Agent has a `toolResultCache`, the successful results of the tool are cached under
+ * its name and arguments. A repeated call within the TTL is answered from the cache without
+ * executing the tool (or emitting the service event).
+ */
+export type AgentToolCachePolicy = {
+  /** The time (in milliseconds) a cached result is served for. */
+  ttlMs: number;
+
+  /**
+   * Who shares the cached results.
+   * - `'subject'`: Only the workflow which produced the result.
+   * - `'root_subject'`: All the agent workflows started by the same root workflow.
+   * - `'global'`: Every workflow using the same cache store.
+   *
+   * @defaultValue 'subject'
+   */
+  scope?: 'subject' | 'root_subject' | 'global';
+};
+
+/**
+ * The context an internal tool receives when it is executed.
+ *
+ * Besides the observability context, the Agent hands over the id of the tool call and
+ * hooks through which a tool doing LLM work of its own (e.g. a sub-agent) surfaces its
+ * stream events and usage in the calling Agent. The hooks are absent when the tool is
+ * invoked outside of an Agent.
+ */
+export type AgentInternalToolExecutionConfig = {
+  otelInfo: OtelInfoType;
+  /** The id of the tool call being executed. */
+  toolUseId?: string;
+  /**
+   * Aborted when the call times out under the `executionPolicy` of the tool. Long running
+   * tools should pass it on to their I/O and stop once it is aborted.
+   */
+  signal?: AbortSignal;
+  /** Forwards stream events to the stream of the calling Agent. */
+  onStream?: AgentEventStreamer;
+  /**
+   * Adds the execution units and tokens spent by the tool to the usage of the calling
+   * Agent, where they also count towards its budget. The reports made after the call
+   * settled or timed out are ignored.
+   */
+  reportUsage?: (usage: {
+    executionUnits: number;
+    tokens: { prompt: number; completion: number };
+  }) => void;
+};
+
 /**
  * Defines the structure of a **Synchronous Internal Tool**.
  *
@@ -56,15 +160,29 @@ export type AgentInternalTool<
    */
   priority?: number;
 
+  /**
+   * Timeout, retry and parallelism safeguards for this tool.
+   * Overrides the agent-level `toolExecutionPolicy` default.
+   */
+  executionPolicy?: AgentToolExecutionPolicy;
+
+  /**
+   * Caches the results of this tool. Only set it for idempotent tools.
+   *
+   * @default - The results are not cached
+   */
+  cache?: AgentToolCachePolicy;
+
   /**
    * The implementation logic.
    *
    * @param input - The validated arguments matching `TInputSchema`. You do not need to re-validate.
-   * @param config - Observability context (Span/Headers) to link any internal logging or network calls.
+   * @param config - Observability context (Span/Headers) to link any internal logging or network calls,
+   *                 along with the execution hooks of the calling Agent.
    * @returns The result matching `TOutputSchema`.
    */
   fn: (
     input: z.infer<TInputSchema>,
-    config: { otelInfo: OtelInfoType },
+    config: AgentInternalToolExecutionConfig,
   ) => PromiseAble<z.infer<TOutputSchema>>;
 };
@@ -10,12 +10,15 @@ import {
   OpenInference,
   OpenInferenceSpanKind,
 } from 'arvo-core';
+import type { AgentToolCachePolicy, AgentToolExecutionPolicy } from '../AgentTool/types.js';
 import type { IMCPClient } from '../interfaces.mcp.js';
 import type { OtelInfoType } from '../types.js';
 
 export type MCPClientParam = {
   url: string;
   toolPriority?: Record<string, number>;
+  toolExecutionPolicy?: Record<string, AgentToolExecutionPolicy>;
+  toolCachePolicy?: Record<string, AgentToolCachePolicy>;
   requestInit?: RequestInit;
   clientConfig?: {
     name?: string;
@@ -35,6 +38,8 @@ export type MCPClientParam = {
  *   `StreamableHTTPClientTransport` based on the URL pattern (checks for `/mcp` suffix).
  * - **Orchestration Control:** Supports mapping priorities to external tools, allowing
  *   MCP tools to participate in Arvo's **Priority Batch Execution** logic.
+ * - **Execution Safeguards:** Supports per-tool timeouts, retries and parallelism limits so
+ *   a slow or hanging MCP Server cannot stall the Agent.
  * - **Observability:** Deep integration with Arvo's OpenTelemetry system to trace
  *   connection status and tool execution metrics.
  * - **Tool Caching:** Discovers and caches tool definitions upon connection to minimize latency
@@ -47,6 +52,14 @@ export type MCPClientParam = {
  *   // Give the 'check_files' tool high priority so it executes before other tools
  *   toolPriority: {
  *     'check_files': 1
+ *   },
+ *   // Give up on 'search_web' after 10 seconds and retry it once
+ *   toolExecutionPolicy: {
+ *     'search_web': { timeoutMs: 10_000, retry: { maxRetries: 1 } }
+ *   },
+ *   // Serve repeated 'search_web' calls of the workflow from the agent's tool result cache
+ *   toolCachePolicy: {
+ *     'search_web': { ttlMs: 60_000 }
  *   }
  * });
  * ```
@@ -58,6 +71,8 @@ export class MCPClient implements IMCPClient {
   private readonly url: () => string;
   private readonly requestInit: () => RequestInit;
   private readonly toolPriority: () => Record<string, number>;
+  private readonly toolExecutionPolicy: () => Record<string, AgentToolExecutionPolicy>;
+  private readonly toolCachePolicy: () => Record<string, AgentToolCachePolicy>;
   private readonly clientConfig: () => Required<NonNullable<MCPClientParam['clientConfig']>>;
 
   /**
@@ -77,6 +92,10 @@ export class MCPClient implements IMCPClient {
     this.url = () => (typeof param === 'function' ? param() : param).url;
     this.requestInit = () => (typeof param === 'function' ? param() : param).requestInit ?? {};
     this.toolPriority = () => (typeof param === 'function' ? param() : param).toolPriority ?? {};
+    this.toolExecutionPolicy = () =>
+      (typeof param === 'function' ? param() : param).toolExecutionPolicy ?? {};
+    this.toolCachePolicy = () =>
+      (typeof param === 'function' ? param() : param).toolCachePolicy ?? {};
     this.clientConfig = () => ({
       name: 'arvo-tools-agentic-mcp-client',
       version: '1.0.0',
@@ -198,10 +217,13 @@ export class MCPClient implements IMCPClient {
    *
    * @param param - The tool name and argument payload generated by the LLM.
    * @returns The simplified JSON string result to be fed back to the LLM.
+   * @throws {Error} When the server is not connected or the call fails, so that the execution
+   *                 policy of the tool can retry it. An error reported by the tool itself is
+   *                 returned as its result.
    */
   async invokeTool(
     param: { name: string; arguments?: Record<string, unknown> | null },
-    config: { otelInfo: OtelInfoType },
+    config: { otelInfo: OtelInfoType; signal?: AbortSignal },
   ): Promise<string> {
     return await ArvoOpenTelemetry.getInstance().startActiveSpan({
       name: `MCP.invoke<${param.name}>`,
@@ -230,10 +252,14 @@ export class MCPClient implements IMCPClient {
             throw new Error(`MCP Server@${this.url()} not connected`);
           }
 
-          const result = await this.client.callTool({
-            name: param.name,
-            arguments: param.arguments ?? undefined,
-          });
+          const result = await this.client.callTool(
+            {
+              name: param.name,
+              arguments: param.arguments ?? undefined,
+            },
+            undefined,
+            { signal: config.signal },
+          );
 
           logToSpan(
             {
@@ -255,7 +281,7 @@ export class MCPClient implements IMCPClient {
             message: err.message,
           });
 
-          return err.message;
+          throw err;
         } finally {
           span.end();
         }
@@ -300,4 +326,18 @@ export class MCPClient implements IMCPClient {
   async getToolPriority() {
     return this.toolPriority();
   }
+
+  /**
+   * Retrieves the execution policy (timeout, retries, parallelism) configuration for MCP Tools.
+   */
+  async getToolExecutionPolicy() {
+    return this.toolExecutionPolicy();
+  }
+
+  /**
+   * Retrieves the cache policy configuration for the idempotent MCP Tools.
+   */
+  async getToolCachePolicy() {
+    return this.toolCachePolicy();
+  }
 }
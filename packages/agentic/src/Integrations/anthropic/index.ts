@@ -14,12 +14,13 @@ import {
   tryParseJson,
 } from '../../Agent/utils';
 import { defaultContextTransformer } from '../defaultContextTransformer';
-import { DEFAULT_TOOL_LIMIT_PROMPT, jsonPrompt } from '../prompts';
+import { DEFAULT_BUDGET_LIMIT_PROMPT, DEFAULT_TOOL_LIMIT_PROMPT, jsonPrompt } from '../prompts';
+import { invokeWithRetry } from '../retry';
 import type { AgentLLMIntegration, AgentLLMIntegrationOutput, LLMExecutionResult } from '../types';
 import { nonStreamableAnthropic } from './nonstreamable';
 import { streamableAnthropic } from './streamable';
 import type { AnthropicLlmIntegrationConfig } from './types';
-import { formatMessagesForAnthropic } from './utils';
+import { applyAnthropicPromptCaching, formatMessagesForAnthropic } from './utils';
 
 /**
  * Creates an Arvo-compatible LLM Adapter for Anthropic Claude models.
@@ -50,12 +51,13 @@ export const anthropicLLMIntegration =
       outputFormat,
       lifecycle,
       toolInteractions,
+      budget,
       onStream,
     },
     { otelInfo },
   ) =>
     await ArvoOpenTelemetry.getInstance().startActiveSpan({
-      name: `LLM.invoke<${lifecycle === 'init' ? 'init' : lifecycle === 'tool_result' ? 'resume' : 'output_validation_feedback'}>`,
+      name: `LLM.invoke<${lifecycle === 'init' ? 'init' : lifecycle === 'tool_result' ? 'resume' : lifecycle === 'verification_feedback' ? 'verification_feedback' : 'output_validation_feedback'}>`,
       disableSpanManagement: true,
       context: {
         inheritFrom: 'TRACE_HEADERS',
@@ -94,6 +96,19 @@ export const anthropicLLMIntegration =
           system = `${system}\n\n${limitMessage}`;
         }
 
+        if (budget?.exhausted) {
+          const limitMessage = config?.budgetLimitPrompt?.(budget) ?? DEFAULT_BUDGET_LIMIT_PROMPT;
+          messages.push({
+            role: 'user',
+            content: {
+              type: 'text',
+              content: limitMessage,
+            },
+            seenCount: 0,
+          });
+          system = system ? `${system}\n\n${limitMessage}` : limitMessage;
+        }
+
         if (outputFormat.type === 'json') {
           // biome-ignore lint/suspicious/noExplicitAny: Make the typescript compiler ignore
           const jsonSchema = zodToJsonSchema(outputFormat.format as any);
@@ -126,42 +141,65 @@ export const anthropicLLMIntegration =
             });
           }
 
-          const formattedMessages = formatMessagesForAnthropic(messages);
+          const promptCaching = config?.promptCaching === true ? {} : config?.promptCaching || null;
+          const formattedRequest = {
+            system,
+            tools: toolDef,
+            messages: formatMessagesForAnthropic(messages),
+          };
+          const request = promptCaching
+            ? applyAnthropicPromptCaching(formattedRequest, promptCaching)
+            : formattedRequest;
 
           const enableStreaming = config?.invocationParam?.stream ?? false;
 
-          let result: LLMExecutionResult;
-
-          if (enableStreaming) {
-            result = await streamableAnthropic(
-              client,
-              {
-                ...messageCreateParams,
-                stream: true,
-                system: system ?? undefined,
-                tools: toolDef.length ? toolDef : undefined,
-                messages: formattedMessages,
-              },
-              { span, onStream },
-            );
-          } else {
-            result = await nonStreamableAnthropic(
-              client,
-              {
-                ...messageCreateParams,
-                stream: false,
-                system: system ?? undefined,
-                tools: toolDef.length ? toolDef : undefined,
-                messages: formattedMessages,
-              },
-              { span },
-            );
-          }
+          // Extended thinking does not allow changing the temperature
+          // biome-ignore lint/correctness/noUnusedVariables: the temperature is to be removed that is why it is unused
+          const { temperature, ...invocationParamWithoutTemperature } = messageCreateParams;
+          const invocationParam = config?.thinking
+            ? {
+                ...invocationParamWithoutTemperature,
+                thinking: { type: 'enabled' as const, budget_tokens: config.thinking.budgetTokens },
+              }
+            : messageCreateParams;
+
+          const result: LLMExecutionResult = await invokeWithRetry(
+            { provider: 'anthropic', policy: config?.retry, span, onStream },
+            (retryOnStream) => {
+              if (enableStreaming) {
+                return streamableAnthropic(
+                  client,
+                  {
+                    ...invocationParam,
+                    stream: true,
+                    system: request.system ?? undefined,
+                    tools: request.tools.length ? request.tools : undefined,
+                    messages: request.messages,
+                  },
+                  { span, onStream: retryOnStream },
+                );
+              }
+              return nonStreamableAnthropic(
+                client,
+                {
+                  ...invocationParam,
+                  stream: false,
+                  system: request.system ?? undefined,
+                  tools: request.tools.length ? request.tools : undefined,
+                  messages: request.messages,
+                },
+                { span },
+              );
+            },
+          );
 
           const llmUsage = result.usage;
           const executionUnits =
-            config?.executionunits?.(llmUsage.tokens.prompt, llmUsage.tokens.completion) ??
-            llmUsage.tokens.prompt + llmUsage.tokens.completion;
+            config?.executionunits?.(
+              llmUsage.tokens.prompt,
+              llmUsage.tokens.completion,
+              llmUsage.tokens.cache,
+            ) ?? llmUsage.tokens.prompt + llmUsage.tokens.completion;
 
           setOpenInferenceUsageOutputAttr(llmUsage, span);
 
@@ -172,6 +210,7 @@ export const anthropicLLMIntegration =
               toolRequests: result.toolRequests,
               usage: llmUsage,
               executionUnits,
+              thinking: result.thinking,
             };
           }
 
@@ -186,6 +225,7 @@ export const anthropicLLMIntegration =
               parsedContent: tryParseJson(content || ''),
               usage: llmUsage,
               executionUnits,
+              thinking: result.thinking,
             };
           }
 
@@ -194,6 +234,7 @@ export const anthropicLLMIntegration =
             content,
             usage: llmUsage,
             executionUnits,
+            thinking: result.thinking,
           };
         } catch (e) {
           span.setStatus({ code: SpanStatusCode.ERROR, message: (e as Error)?.message });
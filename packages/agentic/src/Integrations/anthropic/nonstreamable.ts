@@ -1,8 +1,9 @@
 import type Anthropic from '@anthropic-ai/sdk';
 import type { Span } from '@opentelemetry/api';
 import { logToSpan } from 'arvo-core';
-import type { AgentToolCallContent } from '../../Agent/types';
-import type { AgentLLMIntegrationOutput, LLMExecutionResult } from '../types';
+import type { AgentThinkingContent, AgentToolCallContent } from '../../Agent/types';
+import type { LLMExecutionResult } from '../types';
+import { toAnthropicLLMUsage } from './utils';
 
 export const nonStreamableAnthropic = async (
   client: Anthropic,
@@ -13,12 +14,21 @@ export const nonStreamableAnthropic = async (
 ): Promise<LLMExecutionResult> => {
   const response = await client.messages.create(param);
 
-  const llmUsage: NonNullable<AgentLLMIntegrationOutput['usage']> = {
-    tokens: {
-      prompt: response.usage.input_tokens,
-      completion: response.usage.output_tokens,
-    },
-  };
+  const llmUsage = toAnthropicLLMUsage(response.usage);
+
+  const thinking: AgentThinkingContent[] = [];
+  for (const block of response.content) {
+    if (block.type === 'thinking') {
+      thinking.push({
+        type: 'thinking',
+        content: block.thinking,
+        signature: block.signature,
+        redacted: false,
+      });
+    } else if (block.type === 'redacted_thinking') {
+      thinking.push({ type: 'thinking', content: block.data, signature: null, redacted: true });
+    }
+  }
 
   const toolUseBlocks = response.content.filter(
     (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use',
@@ -37,6 +47,7 @@ export const nonStreamableAnthropic = async (
       toolRequests,
       response: null,
       usage: llmUsage,
+      thinking,
     };
   }
 
@@ -63,5 +74,6 @@ export const nonStreamableAnthropic = async (
     toolRequests: null,
     response: content,
     usage: llmUsage,
+    thinking,
   };
 };
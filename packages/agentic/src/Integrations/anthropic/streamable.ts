@@ -2,8 +2,9 @@ import type Anthropic from '@anthropic-ai/sdk';
 import type { Span } from '@opentelemetry/api';
 import { getOtelHeaderFromSpan, logToSpan } from 'arvo-core';
 import type { AgentEventStreamer } from '../../Agent/stream/types';
-import type { AgentToolCallContent } from '../../Agent/types';
-import type { AgentLLMIntegrationOutput, LLMExecutionResult } from '../types';
+import type { AgentThinkingContent, AgentToolCallContent } from '../../Agent/types';
+import type { AgentLLMIntegrationOutput, LLMCacheTokenUsage, LLMExecutionResult } from '../types';
+import { toAnthropicLLMUsage } from './utils';
 
 export const streamableAnthropic = async (
   client: Anthropic,
@@ -20,16 +21,34 @@ export const streamableAnthropic = async (
   let finalResponse = '';
   let stopReason: string | null = null;
   let inputTokens = 0;
+  let cacheTokens: LLMCacheTokenUsage = { read: 0, write: 0 };
   let outputTokens = 0;
 
   const toolUseBlocks: Map<number, { id: string; name: string; input: string }> = new Map();
+  const thinkingBlocks: Map<number, AgentThinkingContent> = new Map();
 
   for await (const event of stream) {
     if (event.type === 'message_start') {
-      inputTokens = event.message.usage.input_tokens;
+      const usage = toAnthropicLLMUsage(event.message.usage);
+      inputTokens = usage.tokens.prompt;
+      cacheTokens = usage.tokens.cache ?? cacheTokens;
       outputTokens = event.message.usage.output_tokens;
     } else if (event.type === 'content_block_start') {
-      if (event.content_block.type === 'tool_use') {
+      if (event.content_block.type === 'thinking') {
+        thinkingBlocks.set(event.index, {
+          type: 'thinking',
+          content: '',
+          signature: null,
+          redacted: false,
+        });
+      } else if (event.content_block.type === 'redacted_thinking') {
+        thinkingBlocks.set(event.index, {
+          type: 'thinking',
+          content: event.content_block.data,
+          signature: null,
+          redacted: true,
+        });
+      } else if (event.content_block.type === 'tool_use') {
         toolUseBlocks.set(event.index, {
           id: event.content_block.id,
           name: event.content_block.name,
@@ -55,6 +74,30 @@ export const streamableAnthropic = async (
             },
           },
         });
+      } else if (event.delta.type === 'thinking_delta') {
+        const block = thinkingBlocks.get(event.index);
+        if (block) {
+          block.content += event.delta.thinking;
+          config.onStream({
+            type: 'agent.llm.delta.thinking',
+            data: {
+              comment: 'Thinking',
+              content: block.content,
+              delta: event.delta.thinking,
+              meta: {
+                error: null,
+                token: {
+                  prompt: inputTokens,
+                  completion: outputTokens,
+                },
+                otel: otelHeaders,
+              },
+            },
+          });
+        }
+      } else if (event.delta.type === 'signature_delta') {
+        const block = thinkingBlocks.get(event.index);
+        if (block) block.signature = (block.signature ?? '') + event.delta.signature;
       } else if (event.delta.type === 'input_json_delta') {
         const block = toolUseBlocks.get(event.index);
         if (block) {
@@ -140,14 +183,20 @@ export const streamableAnthropic = async (
     tokens: {
       prompt: inputTokens,
       completion: outputTokens,
+      cache: cacheTokens,
     },
   };
 
+  const thinking = Array.from(thinkingBlocks.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([_, block]) => block);
+
   if (toolRequests.length) {
     return {
       toolRequests,
       response: null,
       usage: llmUsage,
+      thinking,
     };
   }
 
@@ -173,5 +222,6 @@ export const streamableAnthropic = async (
     toolRequests: null,
     response: processedResponse,
     usage: llmUsage,
+    thinking,
   };
 };
@@ -19,4 +19,65 @@ export type AnthropicLlmIntegrationConfig = {
       'model' | 'temperature' | 'max_tokens' | 'stream'
     >
   >;
+
+  /**
+   * Places prompt caching breakpoints (`cache_control`) on the request, so the unchanged
+   * prefix of the request is read from Anthropic's prompt cache instead of being processed
+   * again on every turn of the agent. Pass `true` to place all the breakpoints.
+   *
+   * The cache read and write token counts are reported in the `usage` of the output and
+   * passed to `executionunits`.
+   *
+   * @default false
+   */
+  promptCaching?: boolean | AnthropicPromptCachingConfig;
+
+  /**
+   * Enables extended thinking with the given token budget for the reasoning. The `max_tokens`
+   * must exceed the budget and the `temperature` is not sent, as extended thinking does not
+   * allow changing it.
+   *
+   * The reasoning is streamed as `agent.llm.delta.thinking` events and the signed reasoning
+   * preceding the tool calls is kept in the conversation history, so it can be sent back to
+   * Anthropic with the tool results.
+   */
+  thinking?: {
+    /** The maximum number of tokens the model may spend on reasoning. At least 1024. */
+    budgetTokens: number;
+  };
 } & CommonIntegrationConfig;
+
+/**
+ * The prompt caching breakpoints of the Anthropic integration.
+ */
+export type AnthropicPromptCachingConfig = {
+  /**
+   * Whether to place a breakpoint on the system prompt.
+   *
+   * @default true
+   */
+  system?: boolean;
+
+  /**
+   * Whether to place a breakpoint on the last tool definition, caching the whole tool list.
+   *
+   * @default true
+   */
+  tools?: boolean;
+
+  /**
+   * Whether to place a rolling breakpoint on the last message of the history. Each call
+   * writes the conversation to the cache and the next call reads it back, as long as no
+   * more than 20 content blocks were added in between.
+   *
+   * @default true
+   */
+  messages?: boolean;
+
+  /**
+   * The time-to-live of the cache entries. The `'1h'` entries cost more to write.
+   *
+   * @default '5m'
+   */
+  ttl?: '5m' | '1h';
+};
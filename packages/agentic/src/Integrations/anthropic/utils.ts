@@ -1,6 +1,7 @@
 import type Anthropic from '@anthropic-ai/sdk';
 import type { AgentToolResultContent } from '../../Agent/types';
-import type { AgentLLMIntegrationParam } from '../types';
+import type { AgentLLMIntegrationOutput, AgentLLMIntegrationParam } from '../types';
+import type { AnthropicPromptCachingConfig } from './types';
 
 /**
  * Internal Adapter: Maps Arvo's generic Agent Message format to Anthropic's specific API format.
@@ -9,6 +10,10 @@ import type { AgentLLMIntegrationParam } from '../types';
  * - Mapping Tool Results to their originating Tool Call IDs.
  * - Multimodal Content (converting Arvo media objects to Anthropic Image source format).
  * - Reconstructs the specific message ordering Anthropic expects (User -> Assistant(ToolUse) -> User(ToolResult)).
+ * - Grouping the tool calls of one LLM response into one assistant message, led by the signed
+ *   reasoning which preceded them, as extended thinking requires. The calls are grouped by their
+ *   `responseId`, since the Agent may store the results of some calls, or run queued calls, in
+ *   between them. Messages without one are grouped by adjacency.
  *
  * Note: Anthropic does not use a system message in the messages array - it's passed separately.
  */
@@ -23,8 +28,16 @@ export const formatMessagesForAnthropic = (
     }
   }
 
+  let pendingThinking: Anthropic.ContentBlockParam[] = [];
+  // The content of the assistant and the user message formatted for each LLM response
+  const responseTurns: Record<
+    string,
+    { toolUses: Anthropic.ContentBlockParam[]; toolResults: Anthropic.ContentBlockParam[] }
+  > = {};
+  let previousWasToolUse = false;
   for (const message of messages) {
     if (message.role === 'user') {
+      if (message.content.type !== 'tool_result') pendingThinking = [];
       if (message.content.type === 'text') {
         formattedMessages.push({
           role: 'user',
@@ -71,41 +84,146 @@ export const formatMessagesForAnthropic = (
         });
       }
     } else if (message.role === 'assistant') {
-      if (message.content.type === 'text') {
+      if (message.content.type === 'thinking') {
+        // Only the reasoning signed by Anthropic can be sent back to it, so the reasoning items
+        // of the OpenAI Responses API, which carry an id, are left out
+        if (message.content.redacted && !message.content.id) {
+          pendingThinking.push({ type: 'redacted_thinking', data: message.content.content });
+        } else if (message.content.signature && !message.content.id) {
+          pendingThinking.push({
+            type: 'thinking',
+            thinking: message.content.content,
+            signature: message.content.signature,
+          });
+        }
+      } else if (message.content.type === 'text') {
         formattedMessages.push({
           role: 'assistant',
-          content: message.content.content,
+          content: pendingThinking.length
+            ? [...pendingThinking, { type: 'text', text: message.content.content }]
+            : message.content.content,
         });
+        pendingThinking = [];
       } else if (message.content.type === 'tool_use') {
-        formattedMessages.push({
-          role: 'assistant',
-          content: [
-            {
-              type: 'tool_use',
-              id: message.content.toolUseId,
-              name: message.content.name,
-              input: message.content.input,
-            },
-          ],
-        });
+        const toolUseBlock: Anthropic.ToolUseBlockParam = {
+          type: 'tool_use',
+          id: message.content.toolUseId,
+          name: message.content.name,
+          input: message.content.input,
+        };
         const toolResult = toolResponseMap[message.content.toolUseId];
-        formattedMessages.push({
-          role: 'user',
-          content: [
-            {
-              type: 'tool_result',
-              tool_use_id: message.content.toolUseId,
-              content: toolResult?.content ?? JSON.stringify({ error: 'No tool response' }),
-            },
-          ],
-        });
+        const toolResultBlock: Anthropic.ToolResultBlockParam = {
+          type: 'tool_result',
+          tool_use_id: message.content.toolUseId,
+          content: toolResult?.content ?? JSON.stringify({ error: 'No tool response' }),
+        };
+        const previous = formattedMessages[formattedMessages.length - 2];
+        const last = formattedMessages[formattedMessages.length - 1];
+        const responseTurn = message.responseId ? responseTurns[message.responseId] : undefined;
+        if (responseTurn) {
+          responseTurn.toolUses.push(toolUseBlock);
+          responseTurn.toolResults.push(toolResultBlock);
+        } else if (
+          !message.responseId &&
+          previousWasToolUse &&
+          previous?.role === 'assistant' &&
+          Array.isArray(previous.content) &&
+          previous.content[previous.content.length - 1]?.type === 'tool_use' &&
+          last?.role === 'user' &&
+          Array.isArray(last.content) &&
+          last.content.every((block) => block.type === 'tool_result')
+        ) {
+          previous.content.push(toolUseBlock);
+          last.content.push(toolResultBlock);
+        } else {
+          const toolUses = [...pendingThinking, toolUseBlock];
+          const toolResults: Anthropic.ContentBlockParam[] = [toolResultBlock];
+          formattedMessages.push({ role: 'assistant', content: toolUses });
+          formattedMessages.push({ role: 'user', content: toolResults });
+          if (message.responseId) responseTurns[message.responseId] = { toolUses, toolResults };
+          pendingThinking = [];
+        }
       }
     }
+    previousWasToolUse = message.role === 'assistant' && message.content.type === 'tool_use';
   }
 
   return formattedMessages;
 };
 
+/**
+ * Places the prompt caching breakpoints on the request parameters.
+ *
+ * A text message is turned into a text block since only content blocks carry a breakpoint.
+ * At most three of the four breakpoints Anthropic allows per request are used.
+ */
+export const applyAnthropicPromptCaching = (
+  param: {
+    system: string | null;
+    tools: Anthropic.Tool[];
+    messages: Anthropic.MessageParam[];
+  },
+  config: AnthropicPromptCachingConfig,
+): {
+  system: string | Anthropic.TextBlockParam[] | null;
+  tools: Anthropic.Tool[];
+  messages: Anthropic.MessageParam[];
+} => {
+  const cacheControl: Anthropic.CacheControlEphemeral = {
+    type: 'ephemeral',
+    ...(config.ttl ? { ttl: config.ttl } : {}),
+  };
+
+  const system =
+    param.system && (config.system ?? true)
+      ? [{ type: 'text' as const, text: param.system, cache_control: cacheControl }]
+      : param.system;
+
+  const tools =
+    param.tools.length && (config.tools ?? true)
+      ? param.tools.map((tool, index) =>
+          index === param.tools.length - 1 ? { ...tool, cache_control: cacheControl } : tool,
+        )
+      : param.tools;
+
+  const messages = [...param.messages];
+  const last = messages.at(-1);
+  if (last && (config.messages ?? true)) {
+    const content: Anthropic.ContentBlockParam[] =
+      typeof last.content === 'string' ? [{ type: 'text', text: last.content }] : [...last.content];
+    const lastBlock = content.at(-1);
+    if (lastBlock && lastBlock.type !== 'thinking' && lastBlock.type !== 'redacted_thinking') {
+      content[content.length - 1] = { ...lastBlock, cache_control: cacheControl };
+      messages[messages.length - 1] = { ...last, content };
+    }
+  }
+
+  return { system, tools, messages };
+};
+
+/**
+ * Normalizes the Anthropic usage into the integration usage.
+ *
+ * Anthropic reports the cached input tokens apart from `input_tokens`, so they are added
+ * to the prompt tokens and reported in `cache` as well.
+ */
+export const toAnthropicLLMUsage = (
+  usage: Pick<
+    Anthropic.Usage,
+    'input_tokens' | 'output_tokens' | 'cache_read_input_tokens' | 'cache_creation_input_tokens'
+  >,
+): NonNullable<AgentLLMIntegrationOutput['usage']> => {
+  const read = usage.cache_read_input_tokens ?? 0;
+  const write = usage.cache_creation_input_tokens ?? 0;
+  return {
+    tokens: {
+      prompt: usage.input_tokens + read + write,
+      completion: usage.output_tokens,
+      cache: { read, write },
+    },
+  };
+};
+
 /**
  * Parses media content from either a data URL or raw base64 string.
  *
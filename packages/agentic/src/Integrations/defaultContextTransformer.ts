@@ -1,21 +1,40 @@
 import type { AgentMessage } from '../Agent/types';
 import type { CommonIntegrationConfig } from './types';
 
+/**
+ * Finds the index of the latest user turn, i.e. the last user message which is not a tool result.
+ */
+const findLastUserTurnIndex = (messages: AgentMessage[]): number => {
+  for (let index = messages.length - 1; index >= 0; index--) {
+    if (messages[index].role === 'user' && messages[index].content.type !== 'tool_result') {
+      return index;
+    }
+  }
+  return -1;
+};
+
 export const defaultContextTransformer: NonNullable<
   CommonIntegrationConfig['contextTransformer']
-> = async ({ messages, system }) => ({
-  messages: messages.map((item) => {
-    if (item.content.type === 'media' && item.seenCount > 0) {
-      return {
-        role: item.role,
-        content: {
-          type: 'text',
-          content: `Media file (type: ${item.content.contentType.type}@${item.content.contentType.format}) already parsed and looked at. No need for you to look at it again`,
-        },
-        seenCount: item.seenCount,
-      };
-    }
-    return item;
-  }) as AgentMessage[],
-  system: system,
-});
+> = async ({ messages, system }) => {
+  // The reasoning is only needed by the providers within the tool use loop of the latest
+  // user turn, so the reasoning of the earlier turns is dropped
+  const lastUserTurnIndex = findLastUserTurnIndex(messages);
+  return {
+    messages: messages
+      .filter((item, index) => item.content.type !== 'thinking' || index > lastUserTurnIndex)
+      .map((item) => {
+        if (item.content.type === 'media' && item.seenCount > 0) {
+          return {
+            role: item.role,
+            content: {
+              type: 'text',
+              content: `Media file (type: ${item.content.contentType.type}@${item.content.contentType.format}) already parsed and looked at. No need for you to look at it again`,
+            },
+            seenCount: item.seenCount,
+          };
+        }
+        return item;
+      }) as AgentMessage[],
+    system: system,
+  };
+};
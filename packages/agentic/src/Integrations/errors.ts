@@ -0,0 +1,152 @@
+/**
+ * The normalized kind of an LLM provider error.
+ *
+ * - `'rate_limit'`: The provider rate limit is exceeded (429).
+ * - `'overloaded'`: The provider is temporarily overloaded (e.g. Anthropic 529).
+ * - `'server'`: The provider failed (5xx).
+ * - `'timeout'`: The request timed out.
+ * - `'network'`: The provider could not be reached.
+ * - `'context_length_exceeded'`: The request does not fit the context window of the model.
+ * - `'content_filter'`: The request or the response was blocked by the provider's content policy.
+ * - `'auth'`: The credentials are missing, invalid or lack the permission.
+ * - `'invalid_request'`: The provider rejected the request.
+ * - `'unknown'`: Any other error.
+ */
+export type LLMErrorKind =
+  | 'rate_limit'
+  | 'overloaded'
+  | 'server'
+  | 'timeout'
+  | 'network'
+  | 'context_length_exceeded'
+  | 'content_filter'
+  | 'auth'
+  | 'invalid_request'
+  | 'unknown';
+
+const RETRYABLE_KINDS: LLMErrorKind[] = [
+  'rate_limit',
+  'overloaded',
+  'server',
+  'timeout',
+  'network',
+];
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE'];
+
+/**
+ * The error thrown by the built-in LLM integrations when a provider call fails.
+ *
+ * The provider SDK error is normalized into a `kind`, so agents and `onError` logic can
+ * branch on it without knowing the provider. The original error is kept as the `cause`.
+ */
+export class LLMIntegrationError extends Error {
+  readonly provider: string;
+  readonly kind: LLMErrorKind;
+  /** The HTTP status of the provider response, if any. */
+  readonly status: number | null;
+  /** Whether the call may succeed when repeated. */
+  readonly retryable: boolean;
+  /** The delay requested by the provider through its `Retry-After` headers, if any. */
+  readonly retryAfterMs: number | null;
+  /** The number of attempts made before giving up. */
+  readonly attempts: number;
+
+  constructor(param: {
+    provider: string;
+    kind: LLMErrorKind;
+    status: number | null;
+    retryAfterMs: number | null;
+    attempts: number;
+    cause: unknown;
+  }) {
+    super(
+      `The ${param.provider} LLM call failed (${param.kind}${param.status !== null ? `, status ${param.status}` : ''}) after ${param.attempts} attempt(s). ${(param.cause as Error)?.message ?? String(param.cause)}`,
+    );
+    this.name = 'LLMIntegrationError';
+    this.provider = param.provider;
+    this.kind = param.kind;
+    this.status = param.status;
+    this.retryable = RETRYABLE_KINDS.includes(param.kind);
+    this.retryAfterMs = param.retryAfterMs;
+    this.attempts = param.attempts;
+    this.cause = param.cause;
+  }
+}
+
+const readHeader = (headers: unknown, name: string): string | null => {
+  if (!headers || typeof headers !== 'object') return null;
+  if (typeof (headers as { get?: unknown }).get === 'function') {
+    return (headers as { get: (name: string) => string | null }).get(name) ?? null;
+  }
+  const value = (headers as Record<string, unknown>)[name];
+  return typeof value === 'string' ? value : null;
+};
+
+/**
+ * Reads the delay requested by the provider from the `retry-after-ms` and `retry-after`
+ * headers. The latter holds either seconds or an HTTP date.
+ */
+export const readRetryAfterMs = (error: unknown): number | null => {
+  const headers = (error as { headers?: unknown })?.headers;
+  const retryAfterMs = Number.parseFloat(readHeader(headers, 'retry-after-ms') ?? '');
+  if (!Number.isNaN(retryAfterMs)) return Math.max(retryAfterMs, 0);
+  const retryAfter = readHeader(headers, 'retry-after');
+  if (!retryAfter) return null;
+  const seconds = Number.parseFloat(retryAfter);
+  if (!Number.isNaN(seconds)) return Math.max(seconds * 1000, 0);
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+};
+
+/**
+ * Normalizes an error of the OpenAI or Anthropic SDK into an `LLMErrorKind`, from its
+ * HTTP status, error code, type and message.
+ */
+export const classifyLLMError = (error: unknown): LLMErrorKind => {
+  const {
+    status,
+    code,
+    type,
+    name,
+    message,
+    error: body,
+  } = (error ?? {}) as {
+    status?: unknown;
+    code?: unknown;
+    type?: unknown;
+    name?: unknown;
+    message?: unknown;
+    error?: { type?: unknown; error?: { type?: unknown } };
+  };
+  const text = typeof message === 'string' ? message : '';
+  const errorType = [type, body?.type, body?.error?.type].find(
+    (item): item is string => typeof item === 'string',
+  );
+  if (name === 'APIConnectionTimeoutError') return 'timeout';
+  if (name === 'APIConnectionError') return 'network';
+  if (typeof code === 'string' && NETWORK_ERROR_CODES.includes(code)) return 'network';
+  if (
+    code === 'context_length_exceeded' ||
+    /context (length|window)|prompt is too long|maximum context|too many tokens/i.test(text)
+  ) {
+    return 'context_length_exceeded';
+  }
+  if (
+    code === 'content_filter' ||
+    code === 'content_policy_violation' ||
+    /content (filter|policy|management)/i.test(text)
+  ) {
+    return 'content_filter';
+  }
+  if (errorType === 'overloaded_error' || status === 529) return 'overloaded';
+  // The errors of a response stream carry a code but no HTTP status
+  if (code === 'rate_limit_exceeded') return 'rate_limit';
+  if (code === 'server_error') return 'server';
+  if (typeof status !== 'number') return 'unknown';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate_limit';
+  if (status === 408) return 'timeout';
+  if (status >= 500) return 'server';
+  if (status >= 400) return 'invalid_request';
+  return 'unknown';
+};
@@ -0,0 +1,159 @@
+import {
+  SemanticConventions as OpenInferenceSemanticConventions,
+  OpenInferenceSpanKind,
+} from '@arizeai/openinference-semantic-conventions';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { ArvoOpenTelemetry, exceptionToSpan, getOtelHeaderFromSpan, logToSpan } from 'arvo-core';
+import { LLMIntegrationError } from '../errors';
+import type { AgentLLMIntegration, AgentLLMIntegrationOutput } from '../types';
+import type { FailoverLLMIntegrationConfig, FailoverLLMIntegrationState } from './types';
+
+const RETRYABLE_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE'];
+const RETRYABLE_ERROR_NAMES = ['APIConnectionError', 'APIConnectionTimeoutError', 'AbortError'];
+
+/**
+ * The default error classifier of the failover chain.
+ *
+ * Rate limits (429), timeouts (408), conflicts (409), server errors and overloads (5xx) and
+ * network failures are retryable. Other errors, e.g. invalid requests or authentication
+ * failures, would fail on every provider and are not. An `LLMIntegrationError` of the
+ * built-in integrations is retryable when its normalized `kind` is.
+ */
+export const isRetryableLLMError = (error: unknown): boolean => {
+  if (error instanceof LLMIntegrationError) return error.retryable;
+  const { status, statusCode, code, name } = (error ?? {}) as {
+    status?: unknown;
+    statusCode?: unknown;
+    code?: unknown;
+    name?: unknown;
+  };
+  const httpStatus = typeof status === 'number' ? status : statusCode;
+  if (typeof httpStatus === 'number') {
+    return httpStatus === 408 || httpStatus === 409 || httpStatus === 429 || httpStatus >= 500;
+  }
+  if (typeof code === 'string' && RETRYABLE_ERROR_CODES.includes(code)) return true;
+  return typeof name === 'string' && RETRYABLE_ERROR_NAMES.includes(name);
+};
+
+/**
+ * Creates an LLM integration which fails over through an ordered list of integrations.
+ *
+ * Each call is served by the first provider which succeeds. When a provider throws a
+ * retryable error, the call moves on to the next provider and an `agent.llm.failover` event
+ * is streamed. Non-retryable errors, and the error of the last provider, are thrown as they
+ * are. The provider which served the call is recorded on the failover span and streamed as
+ * an `agent.llm.provider` event.
+ *
+ * The deltas of a provider are streamed live. When a provider fails after it has streamed
+ * deltas, the following providers of the call stream no deltas, so the listeners never see
+ * the response twice. The failover event then has `streamed: true`, which tells the
+ * listeners to discard the partial response. The final response arrives with the agent's
+ * output events as usual.
+ *
+ * The integration state is kept under `failover`, along with the provider which
+ * returned it. A provider is only handed the state it returned itself, so a failover, or a
+ * return to an earlier provider, starts that provider without state.
+ *
+ * @example
+ * ```typescript
+ * const llm = createFailoverLLMIntegration({
+ *   providers: [
+ *     { name: 'anthropic', llm: anthropicLLMIntegration(new Anthropic()) },
+ *     { name: 'openai', llm: openaiLLMIntegration(new OpenAI()) },
+ *   ],
+ * });
+ * ```
+ */
+export const createFailoverLLMIntegration =
+  (config: FailoverLLMIntegrationConfig): AgentLLMIntegration =>
+  async (param, { otelInfo }) =>
+    await ArvoOpenTelemetry.getInstance().startActiveSpan({
+      name: 'LLM.failover',
+      disableSpanManagement: true,
+      context: {
+        inheritFrom: 'TRACE_HEADERS',
+        traceHeaders: otelInfo.headers,
+      },
+      spanOptions: {
+        attributes: {
+          [OpenInferenceSemanticConventions.OPENINFERENCE_SPAN_KIND]: OpenInferenceSpanKind.CHAIN,
+        },
+      },
+      fn: async (span): Promise<AgentLLMIntegrationOutput> => {
+        const isRetryable = config.isRetryable ?? isRetryableLLMError;
+        const failed: { provider: string; error: string }[] = [];
+        const previous = param.state?.failover as FailoverLLMIntegrationState | undefined;
+        let streamed = false;
+        try {
+          for (let attempt = 0; attempt < config.providers.length; attempt++) {
+            const provider = config.providers[attempt];
+            const suppressDeltas = streamed;
+            let attemptStreamed = false;
+            try {
+              const output = await provider.llm(
+                {
+                  ...param,
+                  state: previous?.provider === provider.name ? previous.state : null,
+                  onStream: (event) => {
+                    if (event.type.startsWith('agent.llm.delta')) {
+                      if (suppressDeltas) return;
+                      attemptStreamed = true;
+                    }
+                    param.onStream(event);
+                  },
+                },
+                { otelInfo: { span, headers: getOtelHeaderFromSpan(span) } },
+              );
+              span.setAttributes({
+                'llm.failover.provider': provider.name,
+                'llm.failover.attempt': attempt,
+              });
+              param.onStream({
+                type: 'agent.llm.provider',
+                data: { provider: provider.name, attempt, failed },
+              });
+              span.setStatus({ code: SpanStatusCode.OK });
+              return {
+                ...output,
+                state: {
+                  failover: {
+                    provider: provider.name,
+                    state: output.state ?? null,
+                  } satisfies FailoverLLMIntegrationState,
+                },
+              };
+            } catch (error) {
+              const next = config.providers[attempt + 1];
+              if (!next || !isRetryable(error)) throw error;
+              streamed ||= attemptStreamed;
+              failed.push({ provider: provider.name, error: (error as Error).message });
+              logToSpan(
+                {
+                  level: 'WARNING',
+                  message: `The LLM provider "${provider.name}" failed. Failing over to "${next.name}"`,
+                  error: (error as Error).message,
+                },
+                span,
+              );
+              param.onStream({
+                type: 'agent.llm.failover',
+                data: {
+                  from: provider.name,
+                  to: next.name,
+                  error: (error as Error).message,
+                  streamed: attemptStreamed,
+                },
+              });
+            }
+          }
+          // The loop either returns or throws, as the last provider has no failover
+          throw new Error('The failover chain has no LLM providers');
+        } catch (error) {
+          exceptionToSpan(error as Error, span);
+          span.setStatus({ code: SpanStatusCode.ERROR, message: (error as Error).message });
+          throw error;
+        } finally {
+          span.end();
+        }
+      },
+    });
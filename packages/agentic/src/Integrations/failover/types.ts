@@ -0,0 +1,34 @@
+import type { NonEmptyArray } from '../../types';
+import type { AgentLLMIntegration } from '../types';
+
+/** An LLM integration of a failover chain. */
+export type FailoverLLMProvider = {
+  /** The name of the provider, recorded in the spans and stream events. */
+  name: string;
+  llm: AgentLLMIntegration;
+};
+
+export type FailoverLLMIntegrationConfig = {
+  /** The integrations to try, in order. */
+  providers: NonEmptyArray<FailoverLLMProvider>;
+
+  /**
+   * Decides whether an error of a provider is worth failing over to the next one.
+   * Errors which are not retryable, such as an invalid request, are thrown right away.
+   *
+   * @default isRetryableLLMError
+   */
+  isRetryable?: (error: unknown) => boolean;
+};
+
+/**
+ * The state the failover chain keeps in the `llmState` of the Agent state. The state of a
+ * provider is only handed back to the provider which returned it, so that a provider never
+ * continues from the state of another one, e.g. a response id of another model.
+ */
+export type FailoverLLMIntegrationState = {
+  /** The provider which served the previous call. */
+  provider: string;
+  /** The state returned by that provider. */
+  state: Record<string, unknown> | null;
+};
@@ -0,0 +1,194 @@
+import { getOtelHeaderFromSpan, logToSpan } from 'arvo-core';
+import type { AgentThinkingContent } from '../../Agent/types';
+import { tryParseJson } from '../../Agent/utils';
+import type { AgentLLMIntegrationOutput, AgentLLMIntegrationParam } from '../types';
+import type {
+  MockLLMIntegration,
+  MockLLMIntegrationConfig,
+  MockLLMResponse,
+  MockLLMStep,
+} from './types';
+
+/**
+ * Creates a scripted LLM integration for unit testing agents without a provider.
+ *
+ * Each request is answered by the first step of the script which still has uses left and
+ * whose `match` conditions (lifecycle, turn index and predicate) hold. The response is
+ * streamed like a real provider does, as `agent.llm.delta.text` or `agent.llm.delta.tool`
+ * events followed by a final `agent.llm.delta` event, and reports the configured usage.
+ * The execution units are computed with `executionunits`, or default to the sum of the tokens.
+ *
+ * @throws {Error} When a request matches no remaining step, or when a step's `expect` throws
+ *
+ * @example
+ * ```typescript
+ * const llm = createMockLLMIntegration([
+ *   {
+ *     match: { lifecycle: 'init' },
+ *     expect: (param) => assert(param.tools.some((tool) => tool.name === 'calculator')),
+ *     response: { type: 'tool_call', toolRequests: [{ name: 'calculator', input: { expression: '2+2' } }] },
+ *   },
+ *   {
+ *     match: { lifecycle: 'tool_result' },
+ *     response: { type: 'json', content: { response: 'The result is 4' } },
+ *     usage: { prompt: 120, completion: 12 },
+ *   },
+ * ]);
+ *
+ * const agent = createArvoAgent({ llm, ... });
+ * // ... run the agent
+ * llm.assertAllStepsUsed();
+ * ```
+ */
+export const createMockLLMIntegration = (
+  steps: MockLLMStep[],
+  config?: MockLLMIntegrationConfig,
+): MockLLMIntegration => {
+  const uses = steps.map(() => 0);
+  const calls: AgentLLMIntegrationParam[] = [];
+  const chunkSize = Math.max(config?.chunkSize ?? 16, 1);
+
+  const matches = (step: MockLLMStep, param: AgentLLMIntegrationParam, turn: number) => {
+    const lifecycles = step.match?.lifecycle
+      ? Array.isArray(step.match.lifecycle)
+        ? step.match.lifecycle
+        : [step.match.lifecycle]
+      : null;
+    if (lifecycles && !lifecycles.includes(param.lifecycle)) return false;
+    if (step.match?.turn !== undefined && step.match.turn !== turn) return false;
+    if (step.match?.when && !step.match.when(param)) return false;
+    return true;
+  };
+
+  const llm = async (
+    param: AgentLLMIntegrationParam,
+    { otelInfo }: Parameters<MockLLMIntegration>[1],
+  ): Promise<AgentLLMIntegrationOutput> => {
+    const turn = calls.length;
+    // The messages are copied since the agent keeps appending to its history
+    calls.push({ ...param, messages: [...param.messages] });
+    const index = steps.findIndex(
+      (step, i) => uses[i] < (step.times ?? 1) && matches(step, param, turn),
+    );
+    if (index === -1) {
+      throw new Error(
+        `The mock LLM has no remaining step matching the request (turn: ${turn}, lifecycle: ${param.lifecycle}, messages: ${param.messages.length})`,
+      );
+    }
+    uses[index]++;
+    const step = steps[index];
+    step.expect?.(param);
+    const response: MockLLMResponse =
+      typeof step.response === 'function' ? step.response(param) : step.response;
+    const tokens = step.usage ?? config?.usage ?? { prompt: 0, completion: 0 };
+    const usage = { tokens: { prompt: tokens.prompt, completion: tokens.completion } };
+    const executionUnits =
+      config?.executionunits?.(tokens.prompt, tokens.completion) ??
+      tokens.prompt + tokens.completion;
+    const otel = getOtelHeaderFromSpan(otelInfo.span);
+    const meta = { error: null, token: { prompt: tokens.prompt, completion: 0 }, otel };
+
+    logToSpan(
+      {
+        level: 'INFO',
+        message: `The mock LLM answered with the step ${index} (${response.type})`,
+        turn: String(turn),
+      },
+      otelInfo.span,
+    );
+
+    if (response.thinking) {
+      for (let end = chunkSize; end < response.thinking.length + chunkSize; end += chunkSize) {
+        param.onStream({
+          type: 'agent.llm.delta.thinking',
+          data: {
+            comment: 'Thinking',
+            content: response.thinking.slice(0, end),
+            delta: response.thinking.slice(end - chunkSize, end),
+            meta,
+          },
+        });
+      }
+    }
+    const thinking: AgentThinkingContent[] | undefined = response.thinking
+      ? [{ type: 'thinking', content: response.thinking, signature: null, redacted: false }]
+      : undefined;
+
+    let output: AgentLLMIntegrationOutput;
+    if (response.type === 'tool_call') {
+      const toolRequests = response.toolRequests.map((item, i) => ({
+        name: item.name,
+        input: item.input,
+        toolUseId: item.toolUseId ?? `mock_tool_${turn}_${i}`,
+      }));
+      for (const item of toolRequests) {
+        for (const input of ['', JSON.stringify(item.input)]) {
+          param.onStream({
+            type: 'agent.llm.delta.tool',
+            data: {
+              comment: `Preparing tool call \`${item.name}\``,
+              toolname: item.name,
+              toolUseId: item.toolUseId,
+              input,
+              meta,
+            },
+          });
+        }
+      }
+      output = { type: 'tool_call', toolRequests, usage, executionUnits, thinking };
+    } else {
+      const content =
+        typeof response.content === 'string' ? response.content : JSON.stringify(response.content);
+      for (let end = chunkSize; end < content.length + chunkSize; end += chunkSize) {
+        param.onStream({
+          type: 'agent.llm.delta.text',
+          data: {
+            comment: 'Generating response',
+            content: content.slice(0, end),
+            delta: content.slice(end - chunkSize, end),
+            meta,
+          },
+        });
+      }
+      output =
+        response.type === 'json'
+          ? {
+              type: 'json',
+              content,
+              parsedContent:
+                typeof response.content === 'string'
+                  ? tryParseJson(response.content)
+                  : response.content,
+              usage,
+              executionUnits,
+              thinking,
+            }
+          : { type: 'text', content, usage, executionUnits, thinking };
+    }
+    param.onStream({
+      type: 'agent.llm.delta',
+      data: {
+        finishReason: response.type === 'tool_call' ? 'tool_calls' : 'stop',
+        comment: 'Generating response',
+        meta: { ...meta, token: usage.tokens },
+      },
+    });
+    return output;
+  };
+
+  return Object.assign(llm, {
+    calls,
+    assertAllStepsUsed: () => {
+      const unused = steps
+        .map((step, i) => ({ index: i, missing: (step.times ?? 1) - uses[i] }))
+        .filter(({ missing }) => missing > 0 && Number.isFinite(missing));
+      if (unused.length) {
+        throw new Error(
+          `The mock LLM has unused steps: ${unused
+            .map(({ index, missing }) => `step ${index} (${missing} remaining)`)
+            .join(', ')}`,
+        );
+      }
+    },
+  });
+};
@@ -0,0 +1,110 @@
+import type {
+  AgentLLMIntegration,
+  AgentLLMIntegrationParam,
+  CommonIntegrationConfig,
+} from '../types';
+
+/** The response the mock LLM gives to a matched request. */
+export type MockLLMResponse = (
+  | {
+      type: 'text';
+      content: string;
+    }
+  | {
+      /** A JSON object, or its string form. The string is kept as the raw content. */
+      type: 'json';
+      content: Record<string, unknown> | string;
+    }
+  | {
+      type: 'tool_call';
+      /**
+       * The tool calls to request. The `toolUseId` defaults to `mock_tool_<turn>_<index>`.
+       */
+      toolRequests: {
+        name: string;
+        input: Record<string, unknown>;
+        toolUseId?: string;
+      }[];
+    }
+) & {
+  /** The reasoning streamed before the response and returned as unsigned `thinking` content. */
+  thinking?: string;
+};
+
+/**
+ * A single scripted step of the mock LLM.
+ *
+ * A request is answered by the first step, in script order, which still has uses left and
+ * whose `match` conditions all hold.
+ */
+export type MockLLMStep = {
+  /**
+   * The conditions a request must meet to be answered by the step.
+   *
+   * @default - Any request
+   */
+  match?: {
+    /** The lifecycle, or lifecycles, of the request. */
+    lifecycle?: AgentLLMIntegrationParam['lifecycle'] | AgentLLMIntegrationParam['lifecycle'][];
+    /** The zero-based index of the request among all the calls to the mock. */
+    turn?: number;
+    /** A predicate on the request, e.g. on the content of the last message. */
+    when?: (param: AgentLLMIntegrationParam) => boolean;
+  };
+
+  /** The response, or a function building it from the request. */
+  response: MockLLMResponse | ((param: AgentLLMIntegrationParam) => MockLLMResponse);
+
+  /**
+   * Assertions on the request the agent sent, e.g. that a tool is offered or that
+   * `toolInteractions.exhausted` is set. Throw, e.g. with `expect` of the test framework,
+   * to fail the call.
+   */
+  expect?: (param: AgentLLMIntegrationParam) => void;
+
+  /**
+   * The token usage reported for the step.
+   *
+   * @default - The `usage` of the mock config
+   */
+  usage?: { prompt: number; completion: number };
+
+  /**
+   * The number of requests the step answers. Use `Infinity` for a step which answers
+   * every matching request.
+   *
+   * @default 1
+   */
+  times?: number;
+};
+
+export type MockLLMIntegrationConfig = {
+  /**
+   * The token usage reported for the steps which do not set their own.
+   *
+   * @default { prompt: 0, completion: 0 }
+   */
+  usage?: { prompt: number; completion: number };
+
+  /**
+   * The number of characters of the text and JSON content per streamed delta.
+   *
+   * @default 16
+   */
+  chunkSize?: number;
+} & Pick<CommonIntegrationConfig, 'executionunits'>;
+
+/**
+ * The LLM integration returned by `createMockLLMIntegration`, along with the means to
+ * inspect what the agent sent.
+ */
+export type MockLLMIntegration = AgentLLMIntegration & {
+  /** The requests received so far, in order. */
+  calls: AgentLLMIntegrationParam[];
+
+  /**
+   * Throws when a step of the script has not answered all of its requests, i.e. when
+   * the agent made fewer LLM calls than scripted. Steps with `times: Infinity` are ignored.
+   */
+  assertAllStepsUsed: () => void;
+};
@@ -16,7 +16,8 @@ import {
   tryParseJson,
 } from '../../Agent/utils';
 import { defaultContextTransformer } from '../defaultContextTransformer';
-import { DEFAULT_TOOL_LIMIT_PROMPT } from '../prompts';
+import { DEFAULT_BUDGET_LIMIT_PROMPT, DEFAULT_TOOL_LIMIT_PROMPT } from '../prompts';
+import { invokeWithRetry } from '../retry';
 import type { AgentLLMIntegration, AgentLLMIntegrationOutput, LLMExecutionResult } from '../types';
 import { nonStreamableOpenAI } from './nonstreamable';
 import { streamableOpenAI } from './streamable';
@@ -51,12 +52,13 @@ export const openaiLLMIntegration =
       outputFormat,
       lifecycle,
       toolInteractions,
+      budget,
       onStream,
     },
     { otelInfo },
   ) =>
     await ArvoOpenTelemetry.getInstance().startActiveSpan({
-      name: `LLM.invoke<${lifecycle === 'init' ? 'init' : lifecycle === 'tool_result' ? 'resume' : 'output_validation_feedback'}>`,
+      name: `LLM.invoke<${lifecycle === 'init' ? 'init' : lifecycle === 'tool_result' ? 'resume' : lifecycle === 'verification_feedback' ? 'verification_feedback' : 'output_validation_feedback'}>`,
       disableSpanManagement: true,
       context: {
         inheritFrom: 'TRACE_HEADERS',
@@ -97,6 +99,19 @@ export const openaiLLMIntegration =
           system = `${system}\n\n${limitMessage}`;
         }
 
+        if (budget?.exhausted) {
+          const limitMessage = config?.budgetLimitPrompt?.(budget) ?? DEFAULT_BUDGET_LIMIT_PROMPT;
+          messages.push({
+            role: 'user',
+            content: {
+              type: 'text',
+              content: limitMessage,
+            },
+            seenCount: 0,
+          });
+          system = system ? `${system}\n\n${limitMessage}` : limitMessage;
+        }
+
         setOpenInferenceInputAttr(
           {
             llm: {
@@ -150,29 +165,32 @@ export const openaiLLMIntegration =
             messages: formattedMessages,
             response_format: responseFormat,
             stream_options: enableStreaming ? { include_usage: true } : undefined,
+            reasoning_effort: config?.reasoningEffort,
           };
 
-          let result: LLMExecutionResult;
-
-          if (enableStreaming) {
-            result = await streamableOpenAI(
-              client,
-              {
-                ...baseParams,
-                stream: true,
-              },
-              { span, onStream },
-            );
-          } else {
-            result = await nonStreamableOpenAI(
-              client,
-              {
-                ...baseParams,
-                stream: false,
-              },
-              { span },
-            );
-          }
+          const result: LLMExecutionResult = await invokeWithRetry(
+            { provider: 'openai', policy: config?.retry, span, onStream },
+            (retryOnStream) => {
+              if (enableStreaming) {
+                return streamableOpenAI(
+                  client,
+                  {
+                    ...baseParams,
+                    stream: true,
+                  },
+                  { span, onStream: retryOnStream },
+                );
+              }
+              return nonStreamableOpenAI(
+                client,
+                {
+                  ...baseParams,
+                  stream: false,
+                },
+                { span },
+              );
+            },
+          );
 
           const llmUsage = result.usage;
           const executionUnits =
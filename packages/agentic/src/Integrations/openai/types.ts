@@ -21,6 +21,14 @@ export type OpenAILlmIntegrationConfig<TClient extends OpenAI | AzureOpenAI> = {
     >
   >;
 
+  /**
+   * The reasoning effort of the reasoning models, i.e. their budget for thinking before
+   * they respond. Note that the Chat Completions API does not return the reasoning itself.
+   *
+   * @default - The model default
+   */
+  reasoningEffort?: OpenAI.ReasoningEffort;
+
   /**
    * Configuration for distributed tracing attributes.
    */
@@ -0,0 +1,292 @@
+import {
+  SemanticConventions as OpenInferenceSemanticConventions,
+  OpenInferenceSpanKind,
+} from '@arizeai/openinference-semantic-conventions';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { ArvoOpenTelemetry, exceptionToSpan, logToSpan } from 'arvo-core';
+import type OpenAI from 'openai';
+import type { AzureOpenAI } from 'openai';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import {
+  setOpenInferenceInputAttr,
+  setOpenInferenceResponseOutputAttr,
+  setOpenInferenceToolCallOutputAttr,
+  setOpenInferenceUsageOutputAttr,
+  tryParseJson,
+} from '../../Agent/utils';
+import { defaultContextTransformer } from '../defaultContextTransformer';
+import { DEFAULT_BUDGET_LIMIT_PROMPT, DEFAULT_TOOL_LIMIT_PROMPT } from '../prompts';
+import { invokeWithRetry } from '../retry';
+import type { AgentLLMIntegration, AgentLLMIntegrationOutput } from '../types';
+import { nonStreamableOpenAIResponses } from './nonstreamable';
+import { streamableOpenAIResponses } from './streamable';
+import type { OpenAIResponsesChainState, OpenAIResponsesLlmIntegrationConfig } from './types';
+import {
+  fingerprintMessages,
+  formatMessagesForOpenAIResponses,
+  resolveResponseChain,
+} from './utils';
+
+/**
+ * Creates an Arvo-compatible LLM Adapter for the OpenAI Responses API (and Azure OpenAI).
+ *
+ * Unlike `openaiLLMIntegration`, which is built on Chat Completions, this integration maps the
+ * Agent messages, tools and output format to the input items, function tools and text format of
+ * the Responses API, and normalizes the response into the standard `AgentLLMIntegrationOutput`.
+ * It includes built-in features for:
+ *
+ * - **Stateless and Chained Modes:** Either sends the whole conversation on every call, or chains
+ *   the calls with `previous_response_id` and only sends the new messages. The id of the previous
+ *   response is persisted in the `llmState` of the Agent state. A call which injects a tool or
+ *   budget limit message is sent whole and not chained, as that message is not in the history.
+ * - **Reasoning:** Streams the reasoning summaries as `agent.llm.delta.thinking` events and keeps
+ *   the reasoning items preceding the tool calls, sending them back encrypted in the stateless mode.
+ * - **Structured Outputs:** Converts the Zod schema of `outputFormat` to a `json_schema` text format.
+ * - **Observability:** Instruments calls with OpenInference-compliant OpenTelemetry attributes.
+ *
+ * @param client - An initialized `OpenAI` or `AzureOpenAI` SDK client instance.
+ * @param config - Configuration for model parameters, the conversation mode, reasoning, cost calculations, and telemetry metadata.
+ * @returns An `AgentLLMIntegration` function ready for use with `createArvoAgent`.
+ */
+export const openaiResponsesLLMIntegration =
+  (
+    client: OpenAI | AzureOpenAI,
+    config?: OpenAIResponsesLlmIntegrationConfig,
+  ): AgentLLMIntegration =>
+  async (
+    {
+      messages: _messages,
+      system: _system,
+      tools,
+      outputFormat,
+      lifecycle,
+      toolInteractions,
+      budget,
+      onStream,
+      state,
+    },
+    { otelInfo },
+  ) =>
+    await ArvoOpenTelemetry.getInstance().startActiveSpan({
+      name: `LLM.invoke<${lifecycle === 'init' ? 'init' : lifecycle === 'tool_result' ? 'resume' : lifecycle === 'verification_feedback' ? 'verification_feedback' : 'output_validation_feedback'}>`,
+      disableSpanManagement: true,
+      context: {
+        inheritFrom: 'TRACE_HEADERS',
+        traceHeaders: otelInfo.headers,
+      },
+      spanOptions: {
+        attributes: {
+          [OpenInferenceSemanticConventions.OPENINFERENCE_SPAN_KIND]: OpenInferenceSpanKind.LLM,
+        },
+      },
+      fn: async (span): Promise<AgentLLMIntegrationOutput> => {
+        const responseCreateParams: Required<
+          OpenAIResponsesLlmIntegrationConfig['invocationParam']
+        > = {
+          model: 'gpt-4o',
+          max_output_tokens: 4096,
+          temperature: 0,
+          stream: true,
+          ...(config?.invocationParam ?? {}),
+        };
+
+        // The limit messages are not part of the Agent history, so a call injecting them is
+        // sent whole and unstored, and resets the chain for the next call
+        const injectsLimitMessage = toolInteractions.exhausted || Boolean(budget?.exhausted);
+        const chained = config?.mode === 'chained' && !injectsLimitMessage;
+        const chain = chained ? resolveResponseChain(state, _messages) : null;
+        if (config?.mode === 'chained') {
+          logToSpan(
+            {
+              level: 'INFO',
+              message: chain
+                ? `Chaining the response to ${chain.responseId} with ${chain.messages.length} new message(s)`
+                : chained
+                  ? 'No response to chain to. Sending the whole conversation'
+                  : 'Not chaining a call with a limit message. Sending the whole conversation',
+            },
+            span,
+          );
+        }
+
+        let { messages, system } = await (config?.contextTransformer ?? defaultContextTransformer)({
+          messages: chain ? chain.messages : _messages,
+          system: _system,
+        });
+
+        if (toolInteractions.exhausted) {
+          const limitMessage =
+            config?.toolLimitPrompt?.(toolInteractions) ?? DEFAULT_TOOL_LIMIT_PROMPT;
+          messages.push({
+            role: 'user',
+            content: {
+              type: 'text',
+              content: limitMessage,
+            },
+            seenCount: 0,
+          });
+          system = system ? `${system}\n\n${limitMessage}` : limitMessage;
+        }
+
+        if (budget?.exhausted) {
+          const limitMessage = config?.budgetLimitPrompt?.(budget) ?? DEFAULT_BUDGET_LIMIT_PROMPT;
+          messages.push({
+            role: 'user',
+            content: {
+              type: 'text',
+              content: limitMessage,
+            },
+            seenCount: 0,
+          });
+          system = system ? `${system}\n\n${limitMessage}` : limitMessage;
+        }
+
+        setOpenInferenceInputAttr(
+          {
+            llm: {
+              provider: config?.telemetry?.modelProvider ?? 'openai',
+              system: config?.telemetry?.modelSystem ?? 'openai',
+              model: responseCreateParams?.model,
+              invocationParam: responseCreateParams,
+            },
+            messages,
+            system,
+            tools,
+          },
+          span,
+        );
+
+        try {
+          const toolDef: OpenAI.Responses.FunctionTool[] = [];
+          for (const tool of tools) {
+            toolDef.push({
+              type: 'function',
+              name: tool.name,
+              description: tool.description,
+              parameters: tool.inputSchema,
+              strict: false,
+            });
+          }
+
+          const enableStreaming = config?.invocationParam?.stream ?? false;
+
+          const baseParams = {
+            ...responseCreateParams,
+            instructions: system ?? undefined,
+            input: formatMessagesForOpenAIResponses(messages),
+            tools: toolDef.length ? toolDef : undefined,
+            text:
+              outputFormat.type === 'json'
+                ? {
+                    format: {
+                      type: 'json_schema' as const,
+                      name: 'response_schema',
+                      description: 'The required response schema',
+                      // biome-ignore lint/suspicious/noExplicitAny: Make the typescript compiler ignore
+                      schema: zodToJsonSchema(outputFormat.format as any) as Record<
+                        string,
+                        unknown
+                      >,
+                    },
+                  }
+                : undefined,
+            reasoning: config?.reasoning
+              ? { effort: config.reasoning.effort, summary: config.reasoning.summary ?? 'auto' }
+              : undefined,
+            // Without stored responses, the reasoning can only be sent back encrypted
+            include:
+              !chained && config?.reasoning
+                ? (['reasoning.encrypted_content'] as OpenAI.Responses.ResponseIncludable[])
+                : undefined,
+            store: chained,
+            previous_response_id: chain?.responseId,
+          };
+
+          const result = await invokeWithRetry(
+            { provider: 'openai', policy: config?.retry, span, onStream },
+            (retryOnStream) => {
+              if (enableStreaming) {
+                return streamableOpenAIResponses(
+                  client,
+                  { ...baseParams, stream: true },
+                  { span, onStream: retryOnStream },
+                );
+              }
+              return nonStreamableOpenAIResponses(
+                client,
+                { ...baseParams, stream: false },
+                { span },
+              );
+            },
+          );
+
+          span.setAttribute('llm.openai.response_id', result.responseId);
+          const nextState: Record<string, unknown> | undefined =
+            config?.mode === 'chained'
+              ? {
+                  openaiResponses: chained
+                    ? ({
+                        responseId: result.responseId,
+                        messageCount: _messages.length,
+                        fingerprint: fingerprintMessages(_messages),
+                        toolCallIds: result.toolRequests?.map((item) => item.toolUseId) ?? [],
+                      } satisfies OpenAIResponsesChainState)
+                    : null,
+                }
+              : undefined;
+
+          const llmUsage = result.usage;
+          const executionUnits =
+            config?.executionunits?.(
+              llmUsage.tokens.prompt,
+              llmUsage.tokens.completion,
+              llmUsage.tokens.cache,
+            ) ?? llmUsage.tokens.prompt + llmUsage.tokens.completion;
+
+          setOpenInferenceUsageOutputAttr(llmUsage, span);
+
+          if (result.toolRequests && result.toolRequests.length > 0) {
+            setOpenInferenceToolCallOutputAttr({ toolCalls: result.toolRequests }, span);
+            return {
+              type: 'tool_call',
+              toolRequests: result.toolRequests,
+              usage: llmUsage,
+              executionUnits,
+              thinking: result.thinking,
+              state: nextState,
+            };
+          }
+
+          const content = result.response || '';
+
+          setOpenInferenceResponseOutputAttr({ response: content }, span);
+
+          if (outputFormat.type === 'json') {
+            return {
+              type: 'json',
+              content: content || '{}',
+              parsedContent: tryParseJson(content || '{}'),
+              usage: llmUsage,
+              executionUnits,
+              thinking: result.thinking,
+              state: nextState,
+            };
+          }
+
+          return {
+            type: 'text',
+            content,
+            usage: llmUsage,
+            executionUnits,
+            thinking: result.thinking,
+            state: nextState,
+          };
+        } catch (e) {
+          span.setStatus({ code: SpanStatusCode.ERROR, message: (e as Error)?.message });
+          exceptionToSpan(e as Error, span);
+          throw e;
+        } finally {
+          span.end();
+        }
+      },
+    });
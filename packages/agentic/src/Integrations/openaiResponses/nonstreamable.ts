@@ -0,0 +1,16 @@
+import type { Span } from '@opentelemetry/api';
+import type OpenAI from 'openai';
+import type { AzureOpenAI } from 'openai';
+import type { LLMExecutionResult } from '../types';
+import { parseOpenAIResponse } from './utils';
+
+export const nonStreamableOpenAIResponses = async (
+  client: OpenAI | AzureOpenAI,
+  param: OpenAI.Responses.ResponseCreateParamsNonStreaming,
+  config: {
+    span: Span;
+  },
+): Promise<LLMExecutionResult & { responseId: string }> => {
+  const response = await client.responses.create(param);
+  return { ...parseOpenAIResponse(response, config), responseId: response.id };
+};
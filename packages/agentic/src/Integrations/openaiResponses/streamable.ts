@@ -0,0 +1,105 @@
+import type { Span } from '@opentelemetry/api';
+import { getOtelHeaderFromSpan } from 'arvo-core';
+import type OpenAI from 'openai';
+import type { AzureOpenAI } from 'openai';
+import type { AgentEventStreamer } from '../../Agent/stream/types';
+import type { LLMExecutionResult } from '../types';
+import { parseOpenAIResponse } from './utils';
+
+export const streamableOpenAIResponses = async (
+  client: OpenAI | AzureOpenAI,
+  param: OpenAI.Responses.ResponseCreateParamsStreaming,
+  config: {
+    span: Span;
+    onStream: AgentEventStreamer;
+  },
+): Promise<LLMExecutionResult & { responseId: string }> => {
+  const otelHeaders = getOtelHeaderFromSpan(config.span);
+  const stream = await client.responses.create(param);
+
+  let finalResponse = '';
+  let completedResponse: OpenAI.Responses.Response | null = null;
+  const meta = {
+    error: null,
+    token: { prompt: 0, completion: 0 },
+    otel: otelHeaders,
+  };
+
+  const reasoningSummaries: Map<string, string> = new Map();
+  const functionCalls: Map<string, { id: string; name: string; arguments: string }> = new Map();
+
+  for await (const event of stream) {
+    if (event.type === 'response.output_text.delta') {
+      finalResponse += event.delta;
+      config.onStream({
+        type: 'agent.llm.delta.text',
+        data: {
+          comment: 'Generating response',
+          content: finalResponse,
+          delta: event.delta,
+          meta,
+        },
+      });
+    } else if (event.type === 'response.reasoning_summary_text.delta') {
+      const summary = (reasoningSummaries.get(event.item_id) ?? '') + event.delta;
+      reasoningSummaries.set(event.item_id, summary);
+      config.onStream({
+        type: 'agent.llm.delta.thinking',
+        data: {
+          comment: 'Thinking',
+          content: summary,
+          delta: event.delta,
+          meta,
+        },
+      });
+    } else if (event.type === 'response.output_item.added') {
+      if (event.item.type === 'function_call' && event.item.id) {
+        functionCalls.set(event.item.id, {
+          id: event.item.call_id,
+          name: event.item.name,
+          arguments: '',
+        });
+      }
+    } else if (event.type === 'response.function_call_arguments.delta') {
+      const functionCall = functionCalls.get(event.item_id);
+      if (functionCall) {
+        functionCall.arguments += event.delta;
+        config.onStream({
+          type: 'agent.llm.delta.tool',
+          data: {
+            comment: `Preparing tool call \`${functionCall.name}\``,
+            toolname: functionCall.name,
+            toolUseId: functionCall.id,
+            input: functionCall.arguments,
+            meta,
+          },
+        });
+      }
+    } else if (event.type === 'response.completed' || event.type === 'response.incomplete') {
+      completedResponse = event.response;
+    } else if (event.type === 'response.failed') {
+      throw Object.assign(new Error(event.response.error?.message ?? 'The response failed'), {
+        code: event.response.error?.code ?? null,
+      });
+    } else if (event.type === 'error') {
+      throw Object.assign(new Error(event.message), { code: event.code });
+    }
+  }
+
+  if (!completedResponse) {
+    throw new Error('The response stream ended before the response was completed');
+  }
+
+  const result = parseOpenAIResponse(completedResponse, config);
+  config.onStream({
+    type: 'agent.llm.delta',
+    data: {
+      finishReason:
+        completedResponse.incomplete_details?.reason ?? completedResponse.status ?? null,
+      comment: 'Generating response',
+      meta: { ...meta, token: result.usage.tokens },
+    },
+  });
+
+  return { ...result, responseId: completedResponse.id };
+};
@@ -0,0 +1,89 @@
+import type OpenAI from 'openai';
+import type { CommonIntegrationConfig } from '../types';
+
+export type OpenAIResponsesLlmIntegrationConfig = {
+  /**
+   * Configuration strictly for the model invocation parameters passed to the Responses API.
+   *
+   * Common parameters include:
+   * - `model`: The model ID (e.g., `gpt-4o`, `o4-mini`).
+   * - `temperature`: Controls randomness. Not supported by the reasoning models.
+   * - `max_output_tokens`: Limits the generation length, including the reasoning tokens.
+   *
+   * @default
+   * { model: 'gpt-4o', max_output_tokens: 4096, temperature: 0 }
+   */
+  invocationParam?: Partial<
+    Pick<
+      OpenAI.Responses.ResponseCreateParams,
+      'model' | 'temperature' | 'max_output_tokens' | 'stream'
+    >
+  >;
+
+  /**
+   * How the conversation reaches the model.
+   *
+   * - `'stateless'`: Every call sends the whole conversation and nothing is stored by OpenAI
+   *   (`store: false`). The reasoning items are sent back encrypted.
+   * - `'chained'`: The responses are stored by OpenAI and every call only sends the messages
+   *   added since the previous response, referenced with `previous_response_id`. The id is kept
+   *   in the `llmState` of the Agent state. When the history no longer matches the previous
+   *   response, e.g. after a compaction, the call falls back to sending the whole conversation.
+   *   In this mode the `contextTransformer` only sees the new messages. A call which injects
+   *   a tool or budget limit message is sent whole, unstored, and restarts the chain. The tool
+   *   calls of the previous response the agent did not answer, e.g. the lower priority calls
+   *   it dropped, are answered as not executed.
+   *
+   * @default 'stateless'
+   */
+  mode?: 'stateless' | 'chained';
+
+  /**
+   * The reasoning configuration of the reasoning models. The reasoning summaries are
+   * streamed as `agent.llm.delta.thinking` events and kept in the conversation history as
+   * `thinking` content along with the reasoning items.
+   */
+  reasoning?: {
+    /** The reasoning budget of the model. */
+    effort?: OpenAI.ReasoningEffort;
+    /**
+     * The detail of the reasoning summaries.
+     *
+     * @default 'auto'
+     */
+    summary?: 'auto' | 'concise' | 'detailed';
+  };
+
+  /**
+   * Configuration for distributed tracing attributes.
+   */
+  telemetry?: {
+    /**
+     * The value for the `llm.provider` OpenTelemetry attribute.
+     * @default 'openai'
+     */
+    modelProvider?: string;
+    /**
+     * The value for the `llm.system` OpenTelemetry attribute.
+     * @default 'openai'
+     */
+    modelSystem?: string;
+  };
+} & CommonIntegrationConfig;
+
+/**
+ * The state the integration keeps in the `llmState` of the Agent state in the `'chained'` mode.
+ */
+export type OpenAIResponsesChainState = {
+  /** The id of the previous response. */
+  responseId: string;
+  /** The number of messages of the history the previous response has seen. */
+  messageCount: number;
+  /** The fingerprint of these messages, to detect a rewritten history. */
+  fingerprint: string;
+  /**
+   * The ids of the tool calls of the previous response. OpenAI rejects a chained request which
+   * does not answer each of them.
+   */
+  toolCallIds?: string[];
+};
@@ -0,0 +1,248 @@
+import { createHash } from 'node:crypto';
+import type { Span } from '@opentelemetry/api';
+import { logToSpan } from 'arvo-core';
+import type OpenAI from 'openai';
+import type {
+  AgentMessage,
+  AgentThinkingContent,
+  AgentToolCallContent,
+  AgentToolResultContent,
+} from '../../Agent/types';
+import { stableStringify } from '../../Agent/utils';
+import type { AgentLLMIntegrationParam, LLMExecutionResult } from '../types';
+import type { OpenAIResponsesChainState } from './types';
+
+/**
+ * Internal Adapter: Maps Arvo's generic Agent Message format to the input items of the OpenAI
+ * Responses API.
+ *
+ * Handles:
+ * - Mapping Tool Calls and Results to `function_call` and `function_call_output` items. A Tool
+ *   Result whose Tool Call is not part of the messages, i.e. the call was made by the previous
+ *   response of a chain, is sent on its own.
+ * - Multimodal Content (converting Arvo media objects to `input_image` and `input_file` parts).
+ * - Sending back the encrypted reasoning items which preceded the Tool Calls.
+ *
+ * Note: The system prompt is passed separately as the `instructions`.
+ */
+export const formatMessagesForOpenAIResponses = (
+  messages: AgentLLMIntegrationParam['messages'],
+): OpenAI.Responses.ResponseInputItem[] => {
+  const formattedItems: OpenAI.Responses.ResponseInputItem[] = [];
+  const toolUseIds = new Set<string>();
+  const toolResponseMap: Record<string, AgentToolResultContent> = {};
+  for (const message of messages) {
+    if (message.role === 'assistant' && message.content.type === 'tool_use') {
+      toolUseIds.add(message.content.toolUseId);
+    }
+    if (message.role === 'user' && message.content.type === 'tool_result') {
+      toolResponseMap[message.content.toolUseId] = message.content;
+    }
+  }
+
+  for (const message of messages) {
+    if (message.role === 'user') {
+      if (message.content.type === 'text') {
+        formattedItems.push({ role: 'user', content: message.content.content });
+      } else if (
+        message.content.type === 'media' &&
+        message.content.contentType.type === 'image' &&
+        message.content.contentType.format === 'base64'
+      ) {
+        formattedItems.push({
+          role: 'user',
+          content: [{ type: 'input_image', image_url: message.content.content, detail: 'auto' }],
+        });
+      } else if (
+        message.content.type === 'media' &&
+        message.content.contentType.type === 'file' &&
+        message.content.contentType.format === 'base64'
+      ) {
+        formattedItems.push({
+          role: 'user',
+          content: [
+            {
+              type: 'input_file',
+              filename: message.content.contentType.name,
+              file_data: message.content.content,
+            },
+          ],
+        });
+      } else if (
+        message.content.type === 'tool_result' &&
+        !toolUseIds.has(message.content.toolUseId)
+      ) {
+        formattedItems.push({
+          type: 'function_call_output',
+          call_id: message.content.toolUseId,
+          output: message.content.content,
+        });
+      }
+    } else if (message.role === 'assistant') {
+      if (message.content.type === 'text') {
+        formattedItems.push({ role: 'assistant', content: message.content.content });
+      } else if (message.content.type === 'thinking') {
+        // Only the reasoning items of the Responses API, with their encrypted content, can be
+        // sent back to it
+        if (message.content.id && message.content.signature) {
+          formattedItems.push({
+            type: 'reasoning',
+            id: message.content.id,
+            summary: message.content.content
+              ? [{ type: 'summary_text', text: message.content.content }]
+              : [],
+            encrypted_content: message.content.signature,
+          });
+        }
+      } else if (message.content.type === 'tool_use') {
+        formattedItems.push({
+          type: 'function_call',
+          call_id: message.content.toolUseId,
+          name: message.content.name,
+          arguments: JSON.stringify(message.content.input),
+        });
+        const toolResult = toolResponseMap[message.content.toolUseId];
+        formattedItems.push({
+          type: 'function_call_output',
+          call_id: message.content.toolUseId,
+          output: toolResult?.content ?? JSON.stringify({ error: 'No tool response' }),
+        });
+      }
+    }
+  }
+
+  return formattedItems;
+};
+
+/** Fingerprints the messages a response has seen, ignoring their `seenCount` and `responseId`. */
+export const fingerprintMessages = (messages: AgentMessage[]): string =>
+  createHash('sha256')
+    .update(stableStringify(messages.map(({ role, content }) => ({ role, content }))))
+    .digest('hex');
+
+/**
+ * Resolves the previous response of the chain and the messages added since.
+ *
+ * The assistant messages added since were produced by the previous response, which OpenAI
+ * already holds, so only the user messages are new. The tool calls of the previous response
+ * without a result, e.g. the lower priority calls the agent dropped, are answered as not
+ * executed, since OpenAI rejects a chained request leaving one of them unanswered. Returns
+ * `null` when there is no previous response or the history no longer starts with the
+ * messages it has seen.
+ */
+export const resolveResponseChain = (
+  state: Record<string, unknown> | null | undefined,
+  messages: AgentMessage[],
+): { responseId: string; messages: AgentMessage[] } | null => {
+  const chain = state?.openaiResponses as OpenAIResponsesChainState | undefined;
+  if (
+    !chain?.responseId ||
+    chain.messageCount > messages.length ||
+    fingerprintMessages(messages.slice(0, chain.messageCount)) !== chain.fingerprint
+  ) {
+    return null;
+  }
+  const newMessages = messages.slice(chain.messageCount).filter((item) => item.role === 'user');
+  const answered = new Set(
+    newMessages.flatMap((item) =>
+      item.content.type === 'tool_result' ? [item.content.toolUseId] : [],
+    ),
+  );
+  const unanswered: AgentMessage[] = (chain.toolCallIds ?? [])
+    .filter((id) => !answered.has(id))
+    .map((id) => ({
+      role: 'user',
+      content: {
+        type: 'tool_result',
+        toolUseId: id,
+        content: '[Not executed] The agent did not execute this tool call.',
+      },
+      seenCount: 0,
+    }));
+  return { responseId: chain.responseId, messages: [...unanswered, ...newMessages] };
+};
+
+/**
+ * Normalizes a completed response of the Responses API into the integration result.
+ */
+export const parseOpenAIResponse = (
+  response: OpenAI.Responses.Response,
+  config: { span: Span },
+): LLMExecutionResult => {
+  const llmUsage: LLMExecutionResult['usage'] = {
+    tokens: {
+      prompt: response.usage?.input_tokens ?? 0,
+      completion: response.usage?.output_tokens ?? 0,
+      cache: { read: response.usage?.input_tokens_details?.cached_tokens ?? 0, write: 0 },
+    },
+  };
+
+  const thinking: AgentThinkingContent[] = [];
+  const toolRequests: Omit<AgentToolCallContent, 'type'>[] = [];
+  let content = '';
+  for (const item of response.output) {
+    if (item.type === 'reasoning') {
+      thinking.push({
+        type: 'thinking',
+        content: item.summary.map((summary) => summary.text).join('\n\n'),
+        signature: item.encrypted_content ?? null,
+        redacted: false,
+        id: item.id,
+      });
+    } else if (item.type === 'function_call') {
+      try {
+        toolRequests.push({
+          toolUseId: item.call_id,
+          name: item.name,
+          input: JSON.parse(item.arguments) as Record<string, unknown>,
+        });
+      } catch (e) {
+        logToSpan(
+          {
+            level: 'WARNING',
+            message: `Failed to parse tool call arguments for tool '${item.name}' (id: ${item.call_id}). Tool call will be dropped. Error: ${(e as Error).message}`,
+          },
+          config.span,
+        );
+      }
+    } else if (item.type === 'message') {
+      for (const part of item.content) {
+        content += part.type === 'output_text' ? part.text : part.refusal;
+      }
+    }
+  }
+
+  if (toolRequests.length) {
+    return { toolRequests, response: null, usage: llmUsage, thinking };
+  }
+
+  if (response.incomplete_details?.reason === 'max_output_tokens') {
+    content = content
+      ? `${content}\n\n[Response truncated: Maximum token limit reached]`
+      : '[Response truncated: Maximum token limit reached]';
+
+    logToSpan(
+      {
+        level: 'WARNING',
+        message: 'Max token limit reached. Response truncated',
+      },
+      config.span,
+    );
+  }
+
+  if (response.incomplete_details?.reason === 'content_filter') {
+    content = content
+      ? `${content}\n\n[Request blocked due to OpenAI content filtering policies]`
+      : '[Request blocked due to OpenAI content filtering policies]';
+
+    logToSpan(
+      {
+        level: 'WARNING',
+        message: 'Content filtered by OpenAI',
+      },
+      config.span,
+    );
+  }
+
+  return { toolRequests: null, response: content, usage: llmUsage, thinking };
+};
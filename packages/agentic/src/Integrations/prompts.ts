@@ -15,6 +15,56 @@ export const DEFAULT_TOOL_LIMIT_PROMPT = cleanString(`
   answer any further.  
 `);
 
+/**
+ * Standard System Instruction injected when the Agent exhausts its execution unit or token `budget`.
+ *
+ * Like the tool limit prompt, it forces the Agent to synthesize a final response from the
+ * data it has collected so far.
+ */
+export const DEFAULT_BUDGET_LIMIT_PROMPT = cleanString(`
+  **CRITICAL WARNING: You have reached your resource budget!**
+  You must answer the original question using all the data available to you right now.
+  No more tool calls are allowed any more and this is your final response.
+  If you cannot answer the query well. Then mention what you have done briefly, what
+  can you answer based on the collected data, what data is missing and why you cannot
+  answer any further.
+`);
+
+/**
+ * Standard System Instruction for the LLM which summarizes older conversation turns during
+ * automatic conversation compaction.
+ */
+export const DEFAULT_COMPACTION_PROMPT = cleanString(`
+  You are summarizing the earlier part of a conversation between a user, an AI agent and the
+  tools the agent called. The summary replaces those messages in the agent's memory, so the agent
+  must be able to continue its work from the summary alone.
+  Preserve the original request, all decisions made, the key facts and data returned by tools
+  (identifiers, numbers, names, errors) and any open questions or pending steps.
+  Drop greetings, repetition and intermediate reasoning which no longer matters.
+  Respond with the summary only.
+`);
+
+/**
+ * Standard System Instruction for the planner LLM call of the plan-and-execute mode.
+ */
+export const DEFAULT_PLANNING_PROMPT = cleanString(`
+  You are planning the work of an AI agent. Read the agent's instructions, its tools and the
+  request, then break the request down into a short list of concrete, ordered steps which the
+  agent can execute with its tools. Each step must be a single action or decision with a
+  verifiable result. Do not execute any step and do not answer the request yourself.
+`);
+
+/**
+ * Standard System Instruction for the LLM which verifies the output of the Agent against
+ * the rubric of the version.
+ */
+export const DEFAULT_VERIFICATION_PROMPT = cleanString(`
+  You are reviewing the final answer of an AI agent before it is delivered. Judge the answer
+  strictly against the rubric, using the conversation for context. Approve the answer only when
+  it satisfies every criterion. Score it between 0 (unusable) and 1 (perfect). When you reject
+  it, give concise and actionable feedback on what must change. Do not rewrite the answer.
+`);
+
 export const jsonPrompt = (schema: string) =>
   cleanString(`
     # Critical JSON Output Requirements
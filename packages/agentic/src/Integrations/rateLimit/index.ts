@@ -0,0 +1,252 @@
+import {
+  SemanticConventions as OpenInferenceSemanticConventions,
+  OpenInferenceSpanKind,
+} from '@arizeai/openinference-semantic-conventions';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { ArvoOpenTelemetry, exceptionToSpan, getOtelHeaderFromSpan, logToSpan } from 'arvo-core';
+import { ConfigViolation } from 'arvo-event-handler';
+import type { AgentLLMIntegration, AgentLLMIntegrationOutput } from '../types';
+import { estimateMessageTokens } from '../utils';
+import type {
+  LLMRateLimitBucket,
+  LLMRateLimiterConfig,
+  RateLimitedLLMIntegrationConfig,
+} from './types';
+
+const MINUTE_MS = 60_000;
+
+/**
+ * Thrown when a request exceeds the limits of its bucket and cannot wait for it to refill.
+ *
+ * It carries the `429` status of a provider rate limit, so a failover chain treats it as
+ * retryable and moves on to the next provider.
+ */
+export class LLMRateLimitExceededError extends Error {
+  readonly status = 429;
+  readonly bucket: string;
+  readonly retryAfterMs: number;
+
+  constructor(param: { bucket: string; retryAfterMs: number }) {
+    super(
+      `The LLM rate limit bucket "${param.bucket}" is exhausted. Retry after ${param.retryAfterMs}ms`,
+    );
+    this.name = 'LLMRateLimitExceededError';
+    this.bucket = param.bucket;
+    this.retryAfterMs = param.retryAfterMs;
+  }
+}
+
+/**
+ * Token bucket rate limiter for LLM calls, shared across agents within a process.
+ *
+ * Each bucket limits the requests and the tokens per minute, and refills continuously. Pass
+ * the same limiter to every `createRateLimitedLLMIntegration` of a process, with one bucket
+ * per provider model, so that all the agents together stay within the provider limits.
+ * The limits are in-process only and are not shared across processes.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new LLMRateLimiter({
+ *   buckets: {
+ *     'gpt-4o': { requestsPerMinute: 500, tokensPerMinute: 30_000 },
+ *     'gpt-4o-mini': { requestsPerMinute: 500, tokensPerMinute: 200_000 },
+ *   },
+ *   policy: 'wait',
+ *   maxWaitMs: 60_000,
+ * });
+ * ```
+ */
+export class LLMRateLimiter {
+  readonly buckets: Record<string, LLMRateLimitBucket>;
+  readonly policy: 'wait' | 'reject';
+  readonly maxWaitMs: number | null;
+  private readonly levels: Record<string, { requests: number; tokens: number; updatedAt: number }> =
+    {};
+  private readonly queues: Record<string, Promise<void>> = {};
+
+  constructor(config: LLMRateLimiterConfig) {
+    this.buckets = config.buckets;
+    this.policy = config.policy ?? 'wait';
+    this.maxWaitMs = config.maxWaitMs ?? null;
+  }
+
+  /** Refills the bucket for the time elapsed since its last update and returns its level. */
+  private refill(bucket: string) {
+    const limits = this.buckets[bucket];
+    const now = Date.now();
+    this.levels[bucket] ??= {
+      requests: limits.requestsPerMinute ?? 0,
+      tokens: limits.tokensPerMinute ?? 0,
+      updatedAt: now,
+    };
+    const level = this.levels[bucket];
+    const elapsed = now - level.updatedAt;
+    if (limits.requestsPerMinute) {
+      level.requests = Math.min(
+        limits.requestsPerMinute,
+        level.requests + (elapsed * limits.requestsPerMinute) / MINUTE_MS,
+      );
+    }
+    if (limits.tokensPerMinute) {
+      level.tokens = Math.min(
+        limits.tokensPerMinute,
+        level.tokens + (elapsed * limits.tokensPerMinute) / MINUTE_MS,
+      );
+    }
+    level.updatedAt = now;
+    return level;
+  }
+
+  /** The time until the bucket holds a request and the given tokens. */
+  private waitTime(bucket: string, tokens: number) {
+    const limits = this.buckets[bucket];
+    const level = this.refill(bucket);
+    const requestWait = limits.requestsPerMinute
+      ? ((1 - level.requests) * MINUTE_MS) / limits.requestsPerMinute
+      : 0;
+    const tokenWait = limits.tokensPerMinute
+      ? ((Math.min(tokens, limits.tokensPerMinute) - level.tokens) * MINUTE_MS) /
+        limits.tokensPerMinute
+      : 0;
+    return Math.max(Math.ceil(Math.max(requestWait, tokenWait)), 0);
+  }
+
+  /**
+   * Takes a request and the estimated tokens from a bucket.
+   *
+   * @returns The time (in milliseconds) the request waited for its turn and for the bucket
+   * @throws {LLMRateLimitExceededError} When the request exceeds the limits and the policy
+   *         is `'reject'`, or its wait would exceed `maxWaitMs`
+   */
+  async acquire(param: { bucket: string; tokens: number }): Promise<number> {
+    if (!this.buckets[param.bucket]) {
+      throw new ConfigViolation(`The LLM rate limit bucket "${param.bucket}" is not configured`);
+    }
+    const start = Date.now();
+    // The requests of a bucket take their turn in arrival order
+    const previous = this.queues[param.bucket] ?? Promise.resolve();
+    let release: () => void = () => {};
+    const current = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    this.queues[param.bucket] = previous.then(() => current);
+    await previous;
+    try {
+      const wait = this.waitTime(param.bucket, param.tokens);
+      if (wait > 0) {
+        if (
+          this.policy === 'reject' ||
+          (this.maxWaitMs !== null && Date.now() - start + wait > this.maxWaitMs)
+        ) {
+          throw new LLMRateLimitExceededError({ bucket: param.bucket, retryAfterMs: wait });
+        }
+        await new Promise((resolve) => setTimeout(resolve, wait));
+      }
+      const level = this.refill(param.bucket);
+      level.requests -= 1;
+      level.tokens -= param.tokens;
+      return Date.now() - start;
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Corrects the tokens taken from a bucket with the actual usage of the request. The
+   * bucket can go into debt, which delays the following requests.
+   */
+  settle(param: { bucket: string; estimatedTokens: number; actualTokens: number }) {
+    if (!this.buckets[param.bucket]?.tokensPerMinute) return;
+    this.refill(param.bucket).tokens -= param.actualTokens - param.estimatedTokens;
+  }
+}
+
+/**
+ * Wraps an LLM integration to draw its calls from a bucket of a shared `LLMRateLimiter`.
+ *
+ * Each call takes a request and its estimated tokens from the bucket before it is sent,
+ * waiting or failing as per the limiter policy. The estimate is corrected with the actual
+ * usage afterwards, and refunded when the call fails. The request itself is not refunded, as
+ * the provider may have counted it. A call which had to wait streams an `agent.llm.throttled` event, and the
+ * wait is recorded on the `LLM.rateLimit` span.
+ *
+ * @throws {ConfigViolation} When the bucket is not configured on the limiter
+ *
+ * @example
+ * ```typescript
+ * const llm = createRateLimitedLLMIntegration(
+ *   openaiLLMIntegration(openai, { invocationParam: { model: 'gpt-4o' } }),
+ *   { limiter, bucket: 'gpt-4o' },
+ * );
+ * ```
+ */
+export const createRateLimitedLLMIntegration = (
+  llm: AgentLLMIntegration,
+  config: RateLimitedLLMIntegrationConfig,
+): AgentLLMIntegration => {
+  if (!config.limiter.buckets[config.bucket]) {
+    throw new ConfigViolation(`The LLM rate limit bucket "${config.bucket}" is not configured`);
+  }
+  return async (param, { otelInfo }) =>
+    await ArvoOpenTelemetry.getInstance().startActiveSpan({
+      name: 'LLM.rateLimit',
+      disableSpanManagement: true,
+      context: {
+        inheritFrom: 'TRACE_HEADERS',
+        traceHeaders: otelInfo.headers,
+      },
+      spanOptions: {
+        attributes: {
+          [OpenInferenceSemanticConventions.OPENINFERENCE_SPAN_KIND]: OpenInferenceSpanKind.CHAIN,
+          'llm.ratelimit.bucket': config.bucket,
+        },
+      },
+      fn: async (span): Promise<AgentLLMIntegrationOutput> => {
+        try {
+          const estimatedTokens =
+            config.estimateTokens?.(param) ??
+            estimateMessageTokens(param.messages) +
+              Math.ceil(((param.system?.length ?? 0) + JSON.stringify(param.tools).length) / 4);
+          const waitedMs = await config.limiter.acquire({
+            bucket: config.bucket,
+            tokens: estimatedTokens,
+          });
+          // A failed call is settled with no tokens, which refunds its estimate
+          let actualTokens = 0;
+          try {
+            span.setAttributes({
+              'llm.ratelimit.waited_ms': waitedMs,
+              'llm.ratelimit.estimated_tokens': estimatedTokens,
+            });
+            if (waitedMs > 0) {
+              logToSpan(
+                {
+                  level: 'WARNING',
+                  message: `The LLM call waited ${waitedMs}ms for the rate limit bucket "${config.bucket}"`,
+                },
+                span,
+              );
+              param.onStream({
+                type: 'agent.llm.throttled',
+                data: { bucket: config.bucket, waitedMs, estimatedTokens },
+              });
+            }
+            const output = await llm(param, {
+              otelInfo: { span, headers: getOtelHeaderFromSpan(span) },
+            });
+            actualTokens = output.usage.tokens.prompt + output.usage.tokens.completion;
+            span.setStatus({ code: SpanStatusCode.OK });
+            return output;
+          } finally {
+            config.limiter.settle({ bucket: config.bucket, estimatedTokens, actualTokens });
+          }
+        } catch (error) {
+          exceptionToSpan(error as Error, span);
+          span.setStatus({ code: SpanStatusCode.ERROR, message: (error as Error).message });
+          throw error;
+        } finally {
+          span.end();
+        }
+      },
+    });
+};
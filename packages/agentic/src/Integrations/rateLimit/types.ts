@@ -0,0 +1,49 @@
+import type { AgentLLMIntegrationParam } from '../types';
+import type { LLMRateLimiter } from '.';
+
+/** The limits of a rate limit bucket, typically one per provider model. */
+export type LLMRateLimitBucket = {
+  /** The maximum number of requests per minute. */
+  requestsPerMinute?: number;
+  /** The maximum number of prompt and completion tokens per minute. */
+  tokensPerMinute?: number;
+};
+
+export type LLMRateLimiterConfig = {
+  /** The buckets by name. */
+  buckets: Record<string, LLMRateLimitBucket>;
+
+  /**
+   * What to do with a request which exceeds the limits.
+   *
+   * - `'wait'`: The request is queued until the bucket has refilled, in arrival order.
+   * - `'reject'`: The request fails with an `LLMRateLimitExceededError`.
+   *
+   * @default 'wait'
+   */
+  policy?: 'wait' | 'reject';
+
+  /**
+   * The longest a request waits for the bucket to refill with the `'wait'` policy. Requests
+   * which would wait longer fail with an `LLMRateLimitExceededError`.
+   *
+   * @default - No limit
+   */
+  maxWaitMs?: number;
+};
+
+export type RateLimitedLLMIntegrationConfig = {
+  /** The limiter, shared by all the integrations drawing from the same limits. */
+  limiter: LLMRateLimiter;
+
+  /** The bucket of the limiter the integration draws from. */
+  bucket: string;
+
+  /**
+   * Estimates the tokens of a request before it is sent. The estimate is corrected with the
+   * actual usage once the response arrives.
+   *
+   * @default - About 4 characters per token of the system prompt, messages and tools
+   */
+  estimateTokens?: (param: AgentLLMIntegrationParam) => number;
+};
@@ -0,0 +1,165 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { logToSpan } from 'arvo-core';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { stableStringify } from '../../Agent/utils';
+import type { AgentLLMIntegration, AgentLLMIntegrationParam } from '../types';
+import type {
+  LLMFixture,
+  LLMFixtureInteraction,
+  LLMFixtureRequest,
+  RecordingLLMIntegrationConfig,
+  ReplayLLMIntegrationConfig,
+} from './types';
+
+/**
+ * Thrown by a replay integration when a request has no recorded interaction in the fixture.
+ *
+ * This means the agent behaves differently from when the fixture was recorded, e.g. because
+ * its prompt, tools or the tool results changed. Re-record the fixture if the change is intended.
+ */
+export class LLMReplayMismatchError extends Error {
+  readonly fixturePath: string;
+  readonly fingerprint: string;
+  readonly request: LLMFixtureRequest;
+
+  constructor(param: { fixturePath: string; fingerprint: string; request: LLMFixtureRequest }) {
+    super(
+      `No recorded interaction in the fixture "${param.fixturePath}" matches the LLM request (lifecycle: ${param.request.lifecycle}, messages: ${param.request.messages.length}, fingerprint: ${param.fingerprint}). Re-record the fixture with createRecordingLLMIntegration if the change of the agent is intended.`,
+    );
+    this.name = 'LLMReplayMismatchError';
+    this.fixturePath = param.fixturePath;
+    this.fingerprint = param.fingerprint;
+    this.request = param.request;
+  }
+}
+
+/** Extracts the identifying part of an LLM request and hashes it. */
+const toFixtureRequest = (param: AgentLLMIntegrationParam) => {
+  const request: LLMFixtureRequest = {
+    lifecycle: param.lifecycle,
+    messages: param.messages.map(({ role, content }) => ({ role, content })),
+    tools: param.tools.map(({ name, description, inputSchema }) => ({
+      name,
+      description,
+      inputSchema,
+    })),
+    outputFormat:
+      param.outputFormat.type === 'json'
+        ? {
+            type: 'json',
+            // biome-ignore lint/suspicious/noExplicitAny: The zod version typing is not important here
+            schema: zodToJsonSchema(param.outputFormat.format as any) as Record<string, unknown>,
+          }
+        : { type: 'text' },
+  };
+  // The request goes through JSON so that its fingerprint matches the one read from a fixture
+  const normalized = JSON.parse(JSON.stringify(request)) as LLMFixtureRequest;
+  return {
+    request: normalized,
+    fingerprint: createHash('sha256').update(stableStringify(normalized)).digest('hex'),
+  };
+};
+
+/**
+ * Wraps an LLM integration to record its calls into a fixture file.
+ *
+ * Every call is forwarded to the wrapped integration. The identifying part of the request
+ * (lifecycle, messages, tools and output format), the normalized output and the streamed
+ * events are then appended to the fixture, which is rewritten after each call. Failed calls
+ * are not recorded. Replay the fixture with `createReplayLLMIntegration`.
+ *
+ * @example
+ * ```typescript
+ * const llm = process.env.RECORD_FIXTURES
+ *   ? createRecordingLLMIntegration(openaiLLMIntegration(new OpenAI()), { fixturePath })
+ *   : createReplayLLMIntegration({ fixturePath });
+ *
+ * const agent = createArvoAgent({ llm, ... });
+ * ```
+ */
+export const createRecordingLLMIntegration = (
+  llm: AgentLLMIntegration,
+  config: RecordingLLMIntegrationConfig,
+): AgentLLMIntegration => {
+  const fixture: LLMFixture = { version: 1, interactions: [] };
+  let writing: Promise<void> = Promise.resolve();
+  return async (param, { otelInfo }) => {
+    const { request, fingerprint } = toFixtureRequest(param);
+    const stream: LLMFixtureInteraction['stream'] = [];
+    const output = await llm(
+      {
+        ...param,
+        onStream: (event) => {
+          stream.push(event);
+          param.onStream(event);
+        },
+      },
+      { otelInfo },
+    );
+    fixture.interactions.push({ fingerprint, request, output, stream });
+    // The writes are chained so that concurrent calls do not write the file out of order
+    writing = writing
+      .catch(() => {})
+      .then(async () => {
+        await mkdir(dirname(config.fixturePath), { recursive: true });
+        await writeFile(config.fixturePath, JSON.stringify(fixture, null, 2));
+      });
+    await writing;
+    logToSpan(
+      {
+        level: 'INFO',
+        message: 'Recorded the LLM interaction',
+        fixturePath: config.fixturePath,
+        fingerprint,
+      },
+      otelInfo.span,
+    );
+    return output;
+  };
+};
+
+/**
+ * Creates an LLM integration which serves the interactions recorded by
+ * `createRecordingLLMIntegration`, for offline and deterministic agent tests.
+ *
+ * A request is answered with the recorded output of the interaction with the same
+ * fingerprint, and the recorded stream events are emitted again. Interactions with the same
+ * fingerprint are served in their recorded order, and the last one is served again once all
+ * have been served. The fixture is read on the first call.
+ *
+ * @throws {LLMReplayMismatchError} When a request matches no recorded interaction
+ */
+export const createReplayLLMIntegration = (
+  config: ReplayLLMIntegrationConfig,
+): AgentLLMIntegration => {
+  let fixture: Promise<LLMFixture> | null = null;
+  const served: Record<string, number> = {};
+  return async (param, { otelInfo }) => {
+    fixture ??= readFile(config.fixturePath, 'utf-8').then(
+      (content) => JSON.parse(content) as LLMFixture,
+    );
+    const { interactions } = await fixture;
+    const { request, fingerprint } = toFixtureRequest(param);
+    const matches = interactions.filter((item) => item.fingerprint === fingerprint);
+    if (!matches.length) {
+      throw new LLMReplayMismatchError({ fixturePath: config.fixturePath, fingerprint, request });
+    }
+    const index = Math.min(served[fingerprint] ?? 0, matches.length - 1);
+    served[fingerprint] = index + 1;
+    for (const event of matches[index].stream) {
+      param.onStream(event);
+    }
+    logToSpan(
+      {
+        level: 'INFO',
+        message: 'Replayed the recorded LLM interaction',
+        fixturePath: config.fixturePath,
+        fingerprint,
+      },
+      otelInfo.span,
+    );
+    return structuredClone(matches[index].output);
+  };
+};
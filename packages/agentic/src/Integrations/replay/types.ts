@@ -0,0 +1,43 @@
+import type { AgentEventStreamer } from '../../Agent/stream/types';
+import type { AgentLLMIntegrationOutput, AgentLLMIntegrationParam } from '../types';
+
+/**
+ * The part of an LLM request which identifies it in a fixture.
+ *
+ * The budget, tool interaction counters and the `seenCount` and `responseId` of the messages are
+ * left out, so that a request only has to match the conversation, not the accounting around it.
+ */
+export type LLMFixtureRequest = {
+  lifecycle: AgentLLMIntegrationParam['lifecycle'];
+  messages: Pick<AgentLLMIntegrationParam['messages'][number], 'role' | 'content'>[];
+  tools: Pick<AgentLLMIntegrationParam['tools'][number], 'name' | 'description' | 'inputSchema'>[];
+  outputFormat: { type: 'text' } | { type: 'json'; schema: Record<string, unknown> };
+};
+
+/** A recorded LLM call, along with the events the integration streamed during it. */
+export type LLMFixtureInteraction = {
+  /** The SHA-256 hash of the `request`, used to match the replayed requests. */
+  fingerprint: string;
+  request: LLMFixtureRequest;
+  output: AgentLLMIntegrationOutput;
+  stream: Parameters<AgentEventStreamer>[0][];
+};
+
+/** The content of a fixture file. */
+export type LLMFixture = {
+  version: 1;
+  interactions: LLMFixtureInteraction[];
+};
+
+export type RecordingLLMIntegrationConfig = {
+  /**
+   * The path of the fixture file to write. The file is created, along with its directory,
+   * and overwritten by each new recording.
+   */
+  fixturePath: string;
+};
+
+export type ReplayLLMIntegrationConfig = {
+  /** The path of a fixture file written by `createRecordingLLMIntegration`. */
+  fixturePath: string;
+};
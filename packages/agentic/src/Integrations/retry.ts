@@ -0,0 +1,82 @@
+import type { Span } from '@opentelemetry/api';
+import { logToSpan } from 'arvo-core';
+import type { AgentEventStreamer } from '../Agent/stream/types';
+import { classifyLLMError, LLMIntegrationError, readRetryAfterMs } from './errors';
+import type { LLMRetryPolicy } from './types';
+
+/**
+ * Calls a provider under the retry policy of the integration.
+ *
+ * Retryable failures are retried with exponential backoff and full jitter, or after the
+ * delay requested by the provider's `Retry-After` headers. A streaming call which already
+ * streamed deltas is not retried, so the listeners never receive the response twice. Every
+ * retry is logged to the `LLM.invoke` span and the final failure is thrown as an
+ * `LLMIntegrationError`.
+ */
+export const invokeWithRetry = async <T>(
+  param: {
+    provider: string;
+    policy: LLMRetryPolicy | undefined;
+    span: Span;
+    onStream: AgentEventStreamer;
+  },
+  fn: (onStream: AgentEventStreamer) => Promise<T>,
+): Promise<T> => {
+  // The SDK clients retry on their own, so the policy only retries when asked to
+  const maxRetries = param.policy?.maxRetries ?? 0;
+  const initialDelayMs = param.policy?.initialDelayMs ?? 500;
+  const backoffExponent = param.policy?.backoffExponent ?? 2;
+  const maxDelayMs = param.policy?.maxDelayMs ?? 30_000;
+  let attempt = 0;
+  while (true) {
+    let streamed = false;
+    try {
+      const result = await fn((event) => {
+        streamed = true;
+        param.onStream(event);
+      });
+      param.span.setAttribute('llm.retry.attempts', attempt);
+      return result;
+    } catch (error) {
+      const kind = classifyLLMError(error);
+      const retryAfterMs = readRetryAfterMs(error);
+      const normalized = new LLMIntegrationError({
+        provider: param.provider,
+        kind,
+        status:
+          typeof (error as { status?: unknown })?.status === 'number'
+            ? (error as { status: number }).status
+            : null,
+        retryAfterMs,
+        attempts: attempt + 1,
+        cause: error,
+      });
+      param.span.setAttributes({
+        'llm.retry.attempts': attempt,
+        'llm.error.kind': kind,
+      });
+      if (!normalized.retryable || streamed || attempt >= maxRetries) {
+        throw normalized;
+      }
+      const backoff = Math.min(initialDelayMs * backoffExponent ** attempt, maxDelayMs);
+      const delayMs = Math.round(
+        retryAfterMs !== null
+          ? Math.min(retryAfterMs, maxDelayMs)
+          : (param.policy?.jitter ?? true)
+            ? Math.random() * backoff
+            : backoff,
+      );
+      logToSpan(
+        {
+          level: 'WARNING',
+          message: `The ${param.provider} LLM call failed (${kind}). Retrying in ${delayMs}ms`,
+          attempt: String(attempt + 1),
+          error: (error as Error)?.message ?? String(error),
+        },
+        param.span,
+      );
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      attempt++;
+    }
+  }
+};
@@ -0,0 +1,115 @@
+import {
+  SemanticConventions as OpenInferenceSemanticConventions,
+  OpenInferenceSpanKind,
+} from '@arizeai/openinference-semantic-conventions';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { ArvoOpenTelemetry, exceptionToSpan, getOtelHeaderFromSpan, logToSpan } from 'arvo-core';
+import type {
+  AgentLLMIntegration,
+  AgentLLMIntegrationOutput,
+  AgentLLMIntegrationParam,
+} from '../types';
+import type { LLMRoute, RouterLLMIntegrationConfig, RouterLLMIntegrationState } from './types';
+
+const matchesRoute = (route: LLMRoute, param: AgentLLMIntegrationParam) => {
+  if (route.lifecycle) {
+    const lifecycles = Array.isArray(route.lifecycle) ? route.lifecycle : [route.lifecycle];
+    if (!lifecycles.includes(param.lifecycle)) return false;
+  }
+  if (route.toolInteractions) {
+    const { min, max, exhausted } = route.toolInteractions;
+    if (min !== undefined && param.toolInteractions.current < min) return false;
+    if (max !== undefined && param.toolInteractions.current > max) return false;
+    if (exhausted !== undefined && param.toolInteractions.exhausted !== exhausted) return false;
+  }
+  return route.when?.(param) ?? true;
+};
+
+/**
+ * Creates an LLM integration which routes each request to one of several integrations.
+ *
+ * The routes are evaluated in order and the first one whose conditions (lifecycle, tool
+ * interaction stage and predicate) hold serves the request. Requests no route matches go to
+ * the `fallback`. The chosen route is recorded on the `LLM.router` span, so the cost and
+ * quality of each route can be compared in the traces.
+ *
+ * The integration state is kept under `router`, along with the route which returned it. An
+ * integration is only handed the state its route returned, so a change of route starts the
+ * new route without state.
+ *
+ * @example
+ * ```typescript
+ * const llm = createRouterLLMIntegration({
+ *   routes: [
+ *     {
+ *       name: 'format-correction',
+ *       lifecycle: 'output_error_feedback',
+ *       llm: openaiLLMIntegration(openai, { invocationParam: { model: 'gpt-4o-mini' } }),
+ *     },
+ *     {
+ *       name: 'wrap-up',
+ *       toolInteractions: { exhausted: true },
+ *       llm: openaiLLMIntegration(openai, { invocationParam: { model: 'gpt-4o-mini' } }),
+ *     },
+ *   ],
+ *   fallback: { name: 'default', llm: openaiLLMIntegration(openai, { invocationParam: { model: 'gpt-4o' } }) },
+ * });
+ * ```
+ */
+export const createRouterLLMIntegration =
+  (config: RouterLLMIntegrationConfig): AgentLLMIntegration =>
+  async (param, { otelInfo }) =>
+    await ArvoOpenTelemetry.getInstance().startActiveSpan({
+      name: 'LLM.router',
+      disableSpanManagement: true,
+      context: {
+        inheritFrom: 'TRACE_HEADERS',
+        traceHeaders: otelInfo.headers,
+      },
+      spanOptions: {
+        attributes: {
+          [OpenInferenceSemanticConventions.OPENINFERENCE_SPAN_KIND]: OpenInferenceSpanKind.CHAIN,
+        },
+      },
+      fn: async (span): Promise<AgentLLMIntegrationOutput> => {
+        try {
+          const index = config.routes.findIndex((route) => matchesRoute(route, param));
+          const route = index === -1 ? config.fallback : config.routes[index];
+          span.setAttributes({
+            'llm.router.route': route.name,
+            'llm.router.fallback': index === -1,
+            'llm.router.lifecycle': param.lifecycle,
+          });
+          logToSpan(
+            {
+              level: 'INFO',
+              message: `Routed the LLM request to "${route.name}"`,
+              lifecycle: param.lifecycle,
+              toolInteractions: String(param.toolInteractions.current),
+            },
+            span,
+          );
+          const previous = param.state?.router as RouterLLMIntegrationState | undefined;
+          const output = await route.llm(
+            { ...param, state: previous?.route === route.name ? previous.state : null },
+            { otelInfo: { span, headers: getOtelHeaderFromSpan(span) } },
+          );
+          span.setStatus({ code: SpanStatusCode.OK });
+          return {
+            ...output,
+            state: {
+              router: {
+                route: route.name,
+                state: output.state ?? null,
+              } satisfies RouterLLMIntegrationState,
+            },
+          };
+        } catch (error) {
+          exceptionToSpan(error as Error, span);
+          span.setStatus({ code: SpanStatusCode.ERROR, message: (error as Error).message });
+          throw error;
+        } finally {
+          span.end();
+        }
+      },
+    });
@@ -0,0 +1,45 @@
+import type { AgentLLMIntegration, AgentLLMIntegrationParam } from '../types';
+
+/**
+ * A route of the router integration. A request takes the route when all of its conditions
+ * hold. A route without conditions matches every request.
+ */
+export type LLMRoute = {
+  /** The name of the route, recorded in the telemetry. */
+  name: string;
+
+  /** The integration serving the requests of the route. */
+  llm: AgentLLMIntegration;
+
+  /** The lifecycle, or lifecycles, of the request. */
+  lifecycle?: AgentLLMIntegrationParam['lifecycle'] | AgentLLMIntegrationParam['lifecycle'][];
+
+  /**
+   * The tool interaction stage of the request. `min` and `max` bound the number of tool
+   * interactions so far (inclusive) and `exhausted` matches the tool interaction limit state.
+   */
+  toolInteractions?: { min?: number; max?: number; exhausted?: boolean };
+
+  /** A predicate on the request, e.g. on its messages or the number of tools. */
+  when?: (param: AgentLLMIntegrationParam) => boolean;
+};
+
+export type RouterLLMIntegrationConfig = {
+  /** The routes, evaluated in order. The first matching route serves the request. */
+  routes: LLMRoute[];
+
+  /** The route serving the requests no route matches. */
+  fallback: Pick<LLMRoute, 'name' | 'llm'>;
+};
+
+/**
+ * The state the router keeps in the `llmState` of the Agent state. The state of a route is
+ * only handed back to the route which returned it, so that an integration never continues
+ * from the state of another one, e.g. a response id of another model.
+ */
+export type RouterLLMIntegrationState = {
+  /** The route which served the previous call. */
+  route: string;
+  /** The state returned by the integration of that route. */
+  state: Record<string, unknown> | null;
+};
@@ -1,8 +1,10 @@
 import type z from 'zod';
 import type { AgentEventStreamer } from '../Agent/stream/types';
 import type {
+  AgentBudget,
   AgentLLMContext,
   AgentMessage,
+  AgentThinkingContent,
   AgentToolCallContent,
   AgentToolDefinition,
 } from '../Agent/types';
@@ -21,8 +23,10 @@ export type AgentLLMIntegrationParam = {
    * - `'tool_result'`: Resume. The input contains new tool outputs.
    * - `'output_error_feedback'`: Correction. The previous response failed Zod validation;
    *    you should prompt the model to fix its format.
+   * - `'verification_feedback'`: Revision. The previous response was rejected by the verifier;
+   *    the input ends with the verifier's feedback.
    */
-  lifecycle: 'init' | 'tool_result' | 'output_error_feedback';
+  lifecycle: 'init' | 'tool_result' | 'output_error_feedback' | 'verification_feedback';
 
   /** The full conversation history in Arvo's standard format (needs mapping to provider format). */
   messages: AgentMessage[];
@@ -42,6 +46,18 @@ export type AgentLLMIntegrationParam = {
     exhausted: boolean;
   };
 
+  /**
+   * Execution unit and token budget state of the workflow.
+   * If `exhausted` is true, you should inject a system instruction forcing the LLM to stop calling tools
+   * and synthesize a final answer. It is not set when the caller does not track a budget, e.g. a
+   * custom caller of the integration which predates the budgets.
+   */
+  budget?: {
+    max: AgentBudget;
+    current: Required<AgentBudget>;
+    exhausted: boolean;
+  };
+
   /**
    * The required output mode.
    * - `'text' | 'media'`: Standard chat completion.
@@ -60,6 +76,22 @@ export type AgentLLMIntegrationParam = {
    * A function to log streaming events from the llm
    */
   onStream: AgentEventStreamer;
+
+  /**
+   * The state the integration returned from its previous call in the agent loop, persisted
+   * with the agent workflow, e.g. the id of the previous provider response. Calls outside
+   * the agent loop, such as planning and compaction, carry no state.
+   */
+  state?: Record<string, unknown> | null;
+};
+
+/**
+ * The input tokens of an LLM call which were served by (`read`) or written to (`write`) the
+ * provider's prompt cache.
+ */
+export type LLMCacheTokenUsage = {
+  read: number;
+  write: number;
 };
 
 /**
@@ -72,8 +104,11 @@ export type AgentLLMIntegrationOutput = {
   /** Token metrics for observability/billing. */
   usage: {
     tokens: {
+      /** The input tokens, including the tokens read from or written to the prompt cache. */
       prompt: number;
       completion: number;
+      /** The portions of the input tokens served by and written to the provider's prompt cache. */
+      cache?: LLMCacheTokenUsage;
     };
   };
   /**
@@ -81,6 +116,17 @@ export type AgentLLMIntegrationOutput = {
    * You define the calculation logic in your integration.
    */
   executionUnits: number;
+  /**
+   * The reasoning the LLM produced before its response. The reasoning preceding tool calls
+   * is added to the conversation history, so it can be sent back to the provider, which
+   * Anthropic requires for tool use with extended thinking.
+   */
+  thinking?: AgentThinkingContent[];
+  /**
+   * The state to pass to the next call of the integration in the agent loop. Leave it
+   * undefined to keep the current state.
+   */
+  state?: Record<string, unknown> | null;
 } & (
   | {
       /** The LLM wants to execute tools. */
@@ -125,6 +171,53 @@ export type AgentLLMIntegration = (
   config: { otelInfo: OtelInfoType },
 ) => Promise<AgentLLMIntegrationOutput>;
 
+/**
+ * The retry policy of the built-in LLM integrations for failed provider calls.
+ *
+ * Rate limits, overloads, server errors, timeouts and network failures are retried with
+ * exponential backoff. Other failures, such as an exceeded context length or an invalid
+ * request, are thrown right away. The policy retries nothing by default, as the provider SDK
+ * clients already retry on their own. To move the retries to the policy, create the client
+ * with `maxRetries: 0` and set `maxRetries` here, otherwise both retry and the attempts multiply.
+ */
+export type LLMRetryPolicy = {
+  /**
+   * The maximum number of retries after the first attempt.
+   *
+   * @default 0
+   */
+  maxRetries?: number;
+
+  /**
+   * The delay before the first retry, in milliseconds.
+   *
+   * @default 500
+   */
+  initialDelayMs?: number;
+
+  /**
+   * The multiplier of the delay between consecutive retries.
+   *
+   * @default 2
+   */
+  backoffExponent?: number;
+
+  /**
+   * The upper bound of a single delay, in milliseconds. It also caps the `Retry-After` delay.
+   *
+   * @default 30000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Whether the delay is randomized between zero and the backoff delay (full jitter), so that
+   * concurrent agents do not retry in lockstep. A `Retry-After` delay is never randomized.
+   *
+   * @default true
+   */
+  jitter?: boolean;
+};
+
 export type CommonIntegrationConfig = {
   /**
    * A calculator function to determine the abstract "Execution Units" (cost) of the LLM call.
@@ -132,11 +225,13 @@ export type CommonIntegrationConfig = {
    * This allows mapping raw token usage to a unified cost metric used by the `Arvo` event system.
    * For example, $Cost = (PromptTokens \times Price_{in}) + (CompletionTokens \times Price_{out})$.
    *
-   * @param prompt - The number of input tokens used.
+   * @param prompt - The number of input tokens used, including the cached ones.
    * @param completion - The number of output tokens generated.
+   * @param cache - The input tokens read from and written to the prompt cache, when the provider
+   * reports them. Providers price these differently from the regular input tokens.
    * @returns The calculated execution units (e.g., cost in cents or arbitrary units).
    */
-  executionunits?: (prompt: number, completion: number) => number;
+  executionunits?: (prompt: number, completion: number, cache?: LLMCacheTokenUsage) => number;
 
   /**
    * A custom system instruction injected when the agent exceeds its `maxToolInteractions` limit.
@@ -146,6 +241,13 @@ export type CommonIntegrationConfig = {
    */
   toolLimitPrompt?: (toolInteractions: AgentLLMIntegrationParam['toolInteractions']) => string;
 
+  /**
+   * A custom system instruction injected when the agent exhausts its execution unit or token `budget`.
+   *
+   * Use this to guide the model to wrap up with the data it has collected so far.
+   */
+  budgetLimitPrompt?: (budget: NonNullable<AgentLLMIntegrationParam['budget']>) => string;
+
   /**
    * An optional interceptor to transform messages or system instructions immediately before the LLM call.
    *
@@ -158,10 +260,19 @@ export type CommonIntegrationConfig = {
     messages: AgentMessage[];
     system: string | null;
   }>;
+
+  /**
+   * The retry policy for failed provider calls. Failures are thrown as an
+   * `LLMIntegrationError` with a normalized `kind`.
+   *
+   * @default { maxRetries: 0, initialDelayMs: 500, backoffExponent: 2, maxDelayMs: 30000, jitter: true }
+   */
+  retry?: LLMRetryPolicy;
 };
 
 export type LLMExecutionResult = {
   toolRequests: Omit<AgentToolCallContent, 'type'>[] | null;
   response: string | null;
   usage: NonNullable<AgentLLMIntegrationOutput['usage']>;
+  thinking?: AgentThinkingContent[];
 };
@@ -0,0 +1,5 @@
+import type { AgentMessage } from '../Agent/types';
+
+/** Rough token estimate of a message list (about 4 characters per token). */
+export const estimateMessageTokens = (messages: AgentMessage[]): number =>
+  Math.ceil(messages.reduce((acc, item) => acc + JSON.stringify(item.content).length, 0) / 4);
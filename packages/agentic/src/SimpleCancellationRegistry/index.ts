@@ -0,0 +1,55 @@
+import type { ICancellationRegistry } from '../interfaces.cancellation.registry';
+
+/**
+ * Simple in-memory cancellation registry for development and testing.
+ *
+ * Keeps the cancelled subjects and the child workflows in Maps for the lifetime of the
+ * process, so the cancellation only cascades to child agents running in the same process.
+ *
+ * @example
+ * ```typescript
+ * const registry = new SimpleCancellationRegistry();
+ *
+ * const agent = createArvoAgent({
+ *   cancellation: { registry },
+ *   // ... other config
+ * });
+ * ```
+ */
+export class SimpleCancellationRegistry implements ICancellationRegistry {
+  private readonly _cancelled = new Map<string, { reason: string | null }>();
+  private readonly _children = new Map<string, { subject: string; toolUseId: string }[]>();
+
+  get cancelled() {
+    return structuredClone(this._cancelled);
+  }
+
+  async cancel({ subject, reason }: Parameters<ICancellationRegistry['cancel']>[0]) {
+    this._cancelled.set(subject, { reason });
+  }
+
+  async get({
+    subject,
+  }: Parameters<ICancellationRegistry['get']>[0]): Promise<{ reason: string | null } | null> {
+    return this._cancelled.get(subject) ?? null;
+  }
+
+  async register({
+    subject,
+    parentSubject,
+    toolUseId,
+  }: Parameters<NonNullable<ICancellationRegistry['register']>>[0]) {
+    this._children.set(parentSubject, [
+      ...(this._children.get(parentSubject) ?? []),
+      { subject, toolUseId },
+    ]);
+  }
+
+  async children({
+    subject,
+  }: Parameters<NonNullable<ICancellationRegistry['children']>>[0]): Promise<
+    { subject: string; toolUseId: string }[]
+  > {
+    return this._children.get(subject) ?? [];
+  }
+}
@@ -0,0 +1,55 @@
+import type { IToolResultStore } from '../interfaces.tool.result.store';
+
+/**
+ * Simple in-memory tool result store for development and testing.
+ *
+ * Keeps the offloaded results in a Map for the lifetime of the process. Since the
+ * stored content is lost on restart and not shared between instances, use a persistent
+ * implementation (e.g. the Postgres one from `@arvo-tools/postgres`) in production.
+ *
+ * @example
+ * ```typescript
+ * const agent = createArvoAgent({
+ *   toolResultStore: {
+ *     store: new SimpleToolResultStore(),
+ *     maxInlineLength: 8000,
+ *   },
+ *   // ... other config
+ * });
+ * ```
+ */
+export class SimpleToolResultStore implements IToolResultStore {
+  private readonly _results = new Map<string, { subject: string; content: string }>();
+  private readonly enableCleanUp: boolean;
+
+  get results() {
+    return structuredClone(this._results);
+  }
+
+  constructor(config?: { enableCleanUp?: boolean }) {
+    this.enableCleanUp = config?.enableCleanUp ?? true;
+  }
+
+  async put({ id, subject, content }: Parameters<IToolResultStore['put']>[0]): Promise<void> {
+    this._results.set(id, { subject, content });
+  }
+
+  async get({ id, subject, offset, limit }: Parameters<IToolResultStore['get']>[0]): Promise<{
+    content: string;
+    totalLength: number;
+  } | null> {
+    const result = this._results.get(id);
+    if (!result || result.subject !== subject) return null;
+    return {
+      content: result.content.slice(offset, offset + limit),
+      totalLength: result.content.length,
+    };
+  }
+
+  async cleanup({ subject }: Parameters<NonNullable<IToolResultStore['cleanup']>>[0]) {
+    if (!this.enableCleanUp) return;
+    for (const [id, result] of this._results) {
+      if (result.subject === subject) this._results.delete(id);
+    }
+  }
+}
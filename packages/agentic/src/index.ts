@@ -2,28 +2,56 @@ export * as Anthropic from '@anthropic-ai/sdk';
 export * as OpenAI from 'openai';
 export { AgentState, createArvoAgent } from './Agent';
 export { AgentDefaults } from './Agent/AgentDefaults';
+export { AgentCancellationError, agentCancellationContract } from './Agent/cancellation';
+export { agentWakeUpContract } from './Agent/deadline';
+export { GuardrailBlockError } from './Agent/guardrail';
+export { AgentHandoffSchema } from './Agent/handoff';
 export {
   AgentMediaContentSchema,
   AgentMessageContentSchema,
   AgentMessageSchema,
+  AgentPlanSchema,
+  AgentPlanStepSchema,
   AgentTextContentSchema,
+  AgentThinkingContentSchema,
   AgentToolCallContentSchema,
   AgentToolResultContentSchema,
 } from './Agent/schema';
+export { agentSessionCloseContract, agentSessionContract } from './Agent/session';
 export { AgentStreamEventSchema } from './Agent/stream/schema';
 export type { AgentStreamListener } from './Agent/stream/types';
+export { createSubAgentTool } from './Agent/subAgentTool';
 export type {
+  AgentBudget,
+  AgentCancellationConfig,
+  AgentCancellationOutputBuilder,
+  AgentCompactionConfig,
+  AgentCompactionSummarizer,
   AgentContextBuilder,
+  AgentHandoffConfig,
+  AgentHandoffTarget,
   AgentLLMContext,
   AgentMediaContent,
   AgentMessage,
   AgentMessageContent,
   AgentOutputBuilder,
+  AgentPlan,
+  AgentPlanningConfig,
+  AgentPlanStep,
+  AgentResumeStrategy,
   AgentServiceContract,
+  AgentSessionConfig,
   AgentTextContent,
+  AgentThinkingContent,
   AgentToolCallContent,
   AgentToolDefinition,
+  AgentToolRequest,
+  AgentToolResultCacheConfig,
   AgentToolResultContent,
+  AgentToolResultStoreConfig,
+  AgentVerificationConfig,
+  AgentVerificationVerdict,
+  AgentVerifier,
   AnyArvoContract,
   AnyArvoOrchestratorContract,
   CreateArvoAgentParam,
@@ -35,18 +63,102 @@ export {
   setOpenInferenceUsageOutputAttr,
   tryParseJson,
 } from './Agent/utils';
+export { evaluateAgent } from './AgentEvaluation';
+export { createJUnitReport } from './AgentEvaluation/report';
+export type {
+  AgentEvaluationCase,
+  AgentEvaluationCaseResult,
+  AgentEvaluationCheck,
+  AgentEvaluationReport,
+  AgentEvaluationScorer,
+  AgentEvaluationScorerParam,
+  AgentEvaluationStreamEvent,
+  EvaluateAgentParam,
+} from './AgentEvaluation/types';
 export { createAgentTool } from './AgentTool';
-export type { AgentInternalTool } from './AgentTool/types';
+export type {
+  AgentInternalTool,
+  AgentInternalToolExecutionConfig,
+  AgentToolCachePolicy,
+  AgentToolExecutionPolicy,
+} from './AgentTool/types';
 export { anthropicLLMIntegration } from './Integrations/anthropic';
+export type {
+  AnthropicLlmIntegrationConfig,
+  AnthropicPromptCachingConfig,
+} from './Integrations/anthropic/types';
+export type { LLMErrorKind } from './Integrations/errors';
+export { classifyLLMError, LLMIntegrationError } from './Integrations/errors';
+export { createFailoverLLMIntegration, isRetryableLLMError } from './Integrations/failover';
+export type {
+  FailoverLLMIntegrationConfig,
+  FailoverLLMIntegrationState,
+  FailoverLLMProvider,
+} from './Integrations/failover/types';
 export { MCPClient } from './Integrations/MCPClient';
+export { createMockLLMIntegration } from './Integrations/mock';
+export type {
+  MockLLMIntegration,
+  MockLLMIntegrationConfig,
+  MockLLMResponse,
+  MockLLMStep,
+} from './Integrations/mock/types';
 export { openaiLLMIntegration } from './Integrations/openai';
-export { DEFAULT_TOOL_LIMIT_PROMPT } from './Integrations/prompts';
+export { openaiResponsesLLMIntegration } from './Integrations/openaiResponses';
+export type {
+  OpenAIResponsesChainState,
+  OpenAIResponsesLlmIntegrationConfig,
+} from './Integrations/openaiResponses/types';
+export {
+  DEFAULT_BUDGET_LIMIT_PROMPT,
+  DEFAULT_COMPACTION_PROMPT,
+  DEFAULT_PLANNING_PROMPT,
+  DEFAULT_TOOL_LIMIT_PROMPT,
+  DEFAULT_VERIFICATION_PROMPT,
+} from './Integrations/prompts';
+export {
+  createRateLimitedLLMIntegration,
+  LLMRateLimitExceededError,
+  LLMRateLimiter,
+} from './Integrations/rateLimit';
+export type {
+  LLMRateLimitBucket,
+  LLMRateLimiterConfig,
+  RateLimitedLLMIntegrationConfig,
+} from './Integrations/rateLimit/types';
+export {
+  createRecordingLLMIntegration,
+  createReplayLLMIntegration,
+  LLMReplayMismatchError,
+} from './Integrations/replay';
+export type {
+  LLMFixture,
+  LLMFixtureInteraction,
+  LLMFixtureRequest,
+  RecordingLLMIntegrationConfig,
+  ReplayLLMIntegrationConfig,
+} from './Integrations/replay/types';
+export { createRouterLLMIntegration } from './Integrations/router';
+export type {
+  LLMRoute,
+  RouterLLMIntegrationConfig,
+  RouterLLMIntegrationState,
+} from './Integrations/router/types';
 export type {
   AgentLLMIntegration,
   AgentLLMIntegrationOutput,
   AgentLLMIntegrationParam,
+  LLMCacheTokenUsage,
+  LLMRetryPolicy,
 } from './Integrations/types';
+export { estimateMessageTokens } from './Integrations/utils';
+export type { ICancellationRegistry } from './interfaces.cancellation.registry';
+export type { GuardrailStage, GuardrailVerdict, IGuardrail } from './interfaces.guardrail';
 export type { IMCPClient } from './interfaces.mcp';
 export { IPermissionManager, ToolAuthorizationState } from './interfaces.permission.manager';
+export type { IToolResultCache } from './interfaces.tool.result.cache';
+export type { IToolResultStore } from './interfaces.tool.result.store';
+export { SimpleCancellationRegistry } from './SimpleCancellationRegistry';
 export { SimplePermissionManager } from './SimplePermissionManager';
+export { SimpleToolResultStore } from './SimpleToolResultStore';
 export type { NonEmptyArray, OtelInfoType, PromiseAble } from './types';
@@ -0,0 +1,69 @@
+import type { OtelInfoType, PromiseAble } from './types';
+
+/**
+ * Shared record of cancelled agent workflows.
+ *
+ * A cancelled agent records its subject here, and every agent configured with the same
+ * registry checks whether its parent workflow was cancelled each time it executes. When
+ * it was, the child cancels itself and records its own subject in turn, so the
+ * cancellation travels down the whole workflow tree.
+ *
+ * The subjects of the workflows an agent starts are created by the callee from
+ * `parentSubject$$`, so the agent cannot address them on its own. A registry which
+ * implements `register` and `children` lets each child agent record its subject under its
+ * parent, so that a cancelled agent with an `emit` configured sends the cancel event to the
+ * children which have not responded yet. Otherwise a suspended child only cancels itself
+ * once its next event arrives, e.g. a service response or a scheduled deadline wake-up.
+ *
+ * @remarks
+ * **Implementation Considerations:**
+ *
+ * `get()` is called on every agent execution with a parent workflow, so it should be
+ * fast. Entries must be visible to all the processes running the agents of the tree.
+ */
+export interface ICancellationRegistry {
+  /**
+   * Records a workflow as cancelled.
+   *
+   * @param subject - The workflow execution identifier of the cancelled agent
+   * @param reason - The cancellation reason, if one was given
+   */
+  cancel(
+    param: { subject: string; reason: string | null },
+    config: { otelInfo: OtelInfoType },
+  ): PromiseAble<void>;
+
+  /**
+   * Looks up the cancellation of a workflow.
+   *
+   * @param subject - The workflow execution identifier to check
+   *
+   * @returns The cancellation record, or `null` when the workflow was not cancelled
+   */
+  get(
+    param: { subject: string },
+    config: { otelInfo: OtelInfoType },
+  ): PromiseAble<{ reason: string | null } | null>;
+
+  /**
+   * Records a workflow started by another workflow.
+   *
+   * @param subject - The workflow execution identifier of the child agent
+   * @param parentSubject - The workflow execution identifier of the parent workflow
+   * @param toolUseId - The id of the parent's tool call which started the child
+   */
+  register?(
+    param: { subject: string; parentSubject: string; toolUseId: string },
+    config: { otelInfo: OtelInfoType },
+  ): PromiseAble<void>;
+
+  /**
+   * Lists the workflows recorded under a parent workflow.
+   *
+   * @param subject - The workflow execution identifier of the parent workflow
+   */
+  children?(
+    param: { subject: string },
+    config: { otelInfo: OtelInfoType },
+  ): PromiseAble<{ subject: string; toolUseId: string }[]>;
+}
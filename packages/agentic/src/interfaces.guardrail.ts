@@ -0,0 +1,73 @@
+import type { PermissionManagerContext } from './interfaces.permission.manager';
+import type { OtelInfoType, PromiseAble } from './types';
+
+/**
+ * The point of the agent execution at which a guardrail checks content.
+ *
+ * - `'input'`: The text of the initial messages, before the first LLM call.
+ * - `'tool_result'`: The result of a tool or service call, before it enters the history.
+ * - `'output'`: The final output, serialized as JSON, before it is emitted.
+ */
+export type GuardrailStage = 'input' | 'tool_result' | 'output';
+
+/**
+ * The decision of a guardrail on a piece of content.
+ *
+ * - `'pass'`: The content is left as it is.
+ * - `'redact'`: The content is replaced by `content`. For the `'output'` stage, the
+ *   replacement must still be the JSON of a valid output.
+ * - `'block'`: The agent execution fails with a `GuardrailBlockError`.
+ */
+export type GuardrailVerdict =
+  | { action: 'pass' }
+  | { action: 'redact'; content: string }
+  | { action: 'block'; reason: string };
+
+/**
+ * Deterministic content check applied to what enters and leaves the agent.
+ *
+ * Like the permission manager, guardrails operate independently of the LLM, so the checks
+ * cannot be talked around through prompt injection. Typical guardrails reject injection
+ * patterns in tool results, redact PII from outputs or enforce topic restrictions.
+ *
+ * @remarks
+ * **Pipeline:**
+ *
+ * The agent runs its guardrails in the given order. Each guardrail sees the content as
+ * redacted by the previous ones, and the first block stops the pipeline.
+ *
+ * **Implementation Considerations:**
+ *
+ * Guardrails run in the hot path, on every tool result, so they should be fast. Prefer
+ * pattern matching and local classifiers over remote calls.
+ */
+export interface IGuardrail {
+  /** The name of the guardrail, shown in the stream events, errors and spans. */
+  name: string;
+
+  /**
+   * The stages the guardrail applies to.
+   *
+   * @default - All the stages
+   */
+  stages?: GuardrailStage[];
+
+  /**
+   * Checks a piece of content.
+   *
+   * @param stage - The point of the execution at which the content is checked
+   * @param content - The text content to check
+   * @param tool - The name of the tool or service type which produced the content. `null`
+   *               outside the `'tool_result'` stage
+   * @param source - Context identifying the agent and workflow
+   */
+  check(
+    param: {
+      stage: GuardrailStage;
+      content: string;
+      tool: string | null;
+      source: PermissionManagerContext;
+    },
+    config: { otelInfo: OtelInfoType },
+  ): PromiseAble<GuardrailVerdict>;
+}
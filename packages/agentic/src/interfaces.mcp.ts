@@ -1,3 +1,4 @@
+import type { AgentToolCachePolicy, AgentToolExecutionPolicy } from './AgentTool/types';
 import type { OtelInfoType } from './types';
 
 /**
@@ -17,11 +18,14 @@ export interface IMCPClient {
    * Executes a specific capability on the remote MCP server.
    *
    * @param param - The tool name and arguments generated by the LLM.
+   * @param config - The observability context and the `signal` aborted when the call times out.
    * @returns The tool's output as a string, to be fed back into the LLM's context window.
+   * @throws When the call fails, e.g. on a transport error, so that the execution policy of the
+   *         tool can retry it. An error reported by the tool itself is returned as its output.
    */
   invokeTool: (
     param: { name: string; arguments?: Record<string, unknown> | null },
-    config: { otelInfo: OtelInfoType },
+    config: { otelInfo: OtelInfoType; signal?: AbortSignal },
   ) => Promise<string>;
 
   /**
@@ -49,4 +53,22 @@ export interface IMCPClient {
    * ensuring critical tools take precedence over optional ones during orchestration.
    */
   getToolPriority(config: { otelInfo: OtelInfoType }): Promise<Record<string, number>>;
+
+  /**
+   * Retrieves the execution policy (timeout, retries, parallelism) mapping for the MCP tools.
+   *
+   * Tools without an entry fall back to the Agent's default `toolExecutionPolicy`.
+   */
+  getToolExecutionPolicy?(config: {
+    otelInfo: OtelInfoType;
+  }): Promise<Record<string, AgentToolExecutionPolicy>>;
+
+  /**
+   * Retrieves the cache policy mapping for the idempotent MCP tools.
+   *
+   * Tools without an entry are not cached.
+   */
+  getToolCachePolicy?(config: {
+    otelInfo: OtelInfoType;
+  }): Promise<Record<string, AgentToolCachePolicy>>;
 }
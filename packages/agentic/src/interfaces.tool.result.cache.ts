@@ -0,0 +1,39 @@
+import type { OtelInfoType, PromiseAble } from './types';
+
+/**
+ * Storage backend for the cached results of idempotent tools.
+ *
+ * Tools marked as cacheable (see `AgentToolCachePolicy`) have their successful results stored
+ * here under a key derived from the tool, its arguments and the cache scope. A later call with
+ * the same arguments within the TTL is answered from the cache without executing the tool or
+ * emitting the service event.
+ *
+ * @remarks
+ * **Implementation Considerations:**
+ *
+ * The keys are generated by the agent and are opaque to the store. Expired entries must never
+ * be returned, but may be removed lazily. `@arvo-tools/concurrent` provides an in-memory
+ * implementation and `@arvo-tools/postgres` a PostgreSQL-backed one.
+ */
+export interface IToolResultCache {
+  /**
+   * Reads a cached result.
+   *
+   * @param key - The cache key generated by the agent
+   *
+   * @returns The cached content, or `null` when no unexpired entry exists for the key
+   */
+  get(param: { key: string }, config: { otelInfo: OtelInfoType }): PromiseAble<string | null>;
+
+  /**
+   * Stores a result, replacing any existing entry of the key.
+   *
+   * @param key - The cache key generated by the agent
+   * @param content - The tool result content
+   * @param ttlMs - The time (in milliseconds) after which the entry expires
+   */
+  set(
+    param: { key: string; content: string; ttlMs: number },
+    config: { otelInfo: OtelInfoType },
+  ): PromiseAble<void>;
+}
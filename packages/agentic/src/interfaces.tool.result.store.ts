@@ -0,0 +1,60 @@
+import type { OtelInfoType, PromiseAble } from './types';
+
+/**
+ * Storage backend for oversized tool results and service responses.
+ *
+ * The agent persists its full message history on every suspension, so a single large
+ * tool result (a file, a query result set, a web page) would be carried in memory and sent
+ * to the LLM on every subsequent turn. When a result store is configured, content above the
+ * inline size limit is written here and only a preview plus a reference (`id`) is kept in
+ * the history. The LLM reads the rest on demand, page by page, via a built-in tool.
+ *
+ * @remarks
+ * **Implementation Considerations:**
+ *
+ * The `id` is generated by the agent and is unique per stored result. Implementations
+ * only need to provide range reads over the stored string and, optionally, a way to drop
+ * all results of a workflow once it is done.
+ */
+export interface IToolResultStore {
+  /**
+   * Persists the full content of a tool result.
+   *
+   * @param id - Unique reference of the stored result, handed to the LLM
+   * @param subject - The workflow execution identifier the result belongs to
+   * @param content - The full tool result content
+   */
+  put(
+    param: { id: string; subject: string; content: string },
+    config: { otelInfo: OtelInfoType },
+  ): PromiseAble<void>;
+
+  /**
+   * Reads a range of characters from a stored result.
+   *
+   * @param id - Reference of the stored result
+   * @param subject - The workflow execution identifier of the reader. A result stored
+   *                  for another workflow must not be returned
+   * @param offset - Zero based character offset to start reading from, in UTF-16 code units
+   *                 like the `length` of a JavaScript string
+   * @param limit - Maximum number of characters (UTF-16 code units) to read
+   *
+   * @returns The requested slice together with the total length of the stored content,
+   *          or `null` when no result exists for the `id` and `subject`
+   */
+  get(
+    param: { id: string; subject: string; offset: number; limit: number },
+    config: { otelInfo: OtelInfoType },
+  ): PromiseAble<{ content: string; totalLength: number } | null>;
+
+  /**
+   * Cleanup hook invoked when agent execution completes.
+   *
+   * Removes all the results stored for the workflow. Like the permission manager cleanup,
+   * an error thrown here fails the agent execution, so implementations should be idempotent
+   * and unlikely to fail.
+   *
+   * @param subject - The workflow execution identifier to clean up
+   */
+  cleanup?(param: { subject: string }, config: { otelInfo: OtelInfoType }): PromiseAble<void>;
+}
@@ -0,0 +1,100 @@
+import { createConcurrentEventBroker } from '@arvo-tools/concurrent';
+import {
+  type ArvoEvent,
+  createArvoOrchestratorContract,
+  createArvoOrchestratorEventFactory,
+} from 'arvo-core';
+import { SimpleMachineMemory } from 'arvo-event-handler';
+import { expect, test } from 'vitest';
+import { AgentDefaults } from '../src/Agent/AgentDefaults';
+import { AgentHandoffSchema } from '../src/Agent/handoff';
+import { createArvoAgent } from '../src/Agent/index';
+import { createMockLLMIntegration } from '../src/Integrations/mock';
+
+const TEST_EVENT_SOURCE = 'test.initiator';
+
+const triageAgentContract = createArvoOrchestratorContract({
+  uri: '#/test/agent/triage',
+  name: 'agent.triage',
+  versions: {
+    '1.0.0': { init: AgentDefaults.INIT_SCHEMA, complete: AgentDefaults.COMPLETE_SCHEMA },
+  },
+});
+
+const supportAgentContract = createArvoOrchestratorContract({
+  uri: '#/test/agent/support',
+  name: 'agent.support',
+  versions: {
+    '1.0.0': {
+      init: AgentDefaults.INIT_SCHEMA.extend({
+        handoff$$: AgentHandoffSchema.nullable().optional(),
+      }),
+      complete: AgentDefaults.COMPLETE_SCHEMA,
+    },
+  },
+});
+
+test('createArvoAgent - the initiator receives exactly one completion after a handoff', async () => {
+  const triageLLM = createMockLLMIntegration([
+    {
+      response: {
+        type: 'tool_call',
+        toolRequests: [{ name: 'handoff_support', input: { message: 'Refund order 42' } }],
+      },
+    },
+  ]);
+  const supportLLM = createMockLLMIntegration([
+    {
+      expect: (param) => expect(JSON.stringify(param.messages)).toContain('[Handoff]'),
+      response: { type: 'text', content: 'Order 42 was refunded' },
+    },
+  ]);
+  const triage = createArvoAgent({
+    contracts: { self: triageAgentContract, services: {} },
+    llm: triageLLM,
+    memory: new SimpleMachineMemory(),
+    handler: {
+      '1.0.0': {
+        context: AgentDefaults.CONTEXT_BUILDER(() => 'You route the requests'),
+        output: AgentDefaults.OUTPUT_BUILDER,
+        handoff: {
+          targets: { support: { contract: supportAgentContract.version('1.0.0') } },
+          output: ({ target, output }) => ({ response: `[${target}] ${output.response}` }),
+        },
+      },
+    },
+  });
+  const support = createArvoAgent({
+    contracts: { self: supportAgentContract, services: {} },
+    llm: supportLLM,
+    memory: new SimpleMachineMemory(),
+    handler: {
+      '1.0.0': {
+        context: AgentDefaults.CONTEXT_BUILDER(() => 'You answer the support requests'),
+        output: AgentDefaults.OUTPUT_BUILDER,
+      },
+    },
+  });
+  const { broker } = createConcurrentEventBroker([{ handler: triage }, { handler: support }]);
+  const received: ArvoEvent[] = [];
+  broker.subscribe(
+    async (event) => {
+      received.push(event);
+    },
+    { topic: TEST_EVENT_SOURCE, prefetch: 1 },
+  );
+
+  broker.publish(
+    createArvoOrchestratorEventFactory(triageAgentContract.version('1.0.0')).init({
+      source: TEST_EVENT_SOURCE,
+      data: { message: 'I want a refund', parentSubject$$: null },
+    }),
+  );
+  await broker.waitForIdle();
+
+  triageLLM.assertAllStepsUsed();
+  supportLLM.assertAllStepsUsed();
+  expect(received).toHaveLength(1);
+  expect(received[0].type).toBe(triageAgentContract.metadata.completeEventType);
+  expect(received[0].data).toMatchObject({ response: '[support] Order 42 was refunded' });
+});
@@ -0,0 +1,499 @@
+import { trace } from '@opentelemetry/api';
+import { getOtelHeaderFromSpan } from 'arvo-core';
+import { expect, test } from 'vitest';
+import z from 'zod';
+import { AgentDefaults } from '../src/Agent/AgentDefaults';
+import { agentLoop } from '../src/Agent/agentLoop';
+import { GuardrailBlockError } from '../src/Agent/guardrail';
+import type { AgentEventStreamer } from '../src/Agent/stream/types';
+import type { AgentMessage, AgentToolDefinition } from '../src/Agent/types';
+import {
+  generateAgentInternalToolDefinitions,
+  generateMcpToolDefinitions,
+} from '../src/Agent/utils';
+import { createAgentTool } from '../src/AgentTool';
+import { createMockLLMIntegration } from '../src/Integrations/mock';
+import type { IGuardrail } from '../src/interfaces.guardrail';
+import type { IMCPClient } from '../src/interfaces.mcp';
+
+const createTools = () => {
+  const executed: string[] = [];
+  const echo = createAgentTool({
+    name: 'echo',
+    description: 'Echoes the text',
+    input: z.object({ text: z.string() }),
+    output: z.object({ text: z.string() }),
+    fn: async ({ text }) => {
+      executed.push('echo');
+      return { text };
+    },
+  });
+  const lookup = createAgentTool({
+    name: 'lookup',
+    description: 'Looks the text up',
+    input: z.object({ text: z.string() }),
+    output: z.object({ found: z.string() }),
+    priority: 1,
+    fn: async ({ text }) => {
+      executed.push('lookup');
+      return { found: `${text} is secret` };
+    },
+  });
+  return {
+    executed,
+    tools: Object.values(
+      generateAgentInternalToolDefinitions({ echo, lookup }),
+    ) as unknown as AgentToolDefinition[],
+  };
+};
+
+const runAgentLoop = async (
+  param: Partial<Parameters<typeof agentLoop>[0]> & Pick<Parameters<typeof agentLoop>[0], 'llm'>,
+) => {
+  const events: Parameters<AgentEventStreamer>[0][] = [];
+  const span = trace.getTracer('agent.loop.test').startSpan('test');
+  const response = await agentLoop(
+    {
+      permissionManagerContext: { subject: 'test-subject', accesscontrol: null, name: 'test' },
+      initLifecycle: 'init',
+      system: null,
+      messages: [{ role: 'user', content: { type: 'text', content: 'Hello' }, seenCount: 0 }],
+      tools: [],
+      outputFormat: z.object({ response: z.string() }),
+      outputBuilder: AgentDefaults.OUTPUT_BUILDER,
+      llmResponseType: 'text',
+      mcp: null,
+      toolInteraction: { current: 0, max: 5 },
+      currentTotalExecutionUnits: 0,
+      currentTotalUsageTokens: { prompt: 0, completion: 0 },
+      budget: { max: {}, exhaustedBy: null },
+      toolExecutionPolicy: {},
+      lowPriorityToolCallStrategy: 'drop',
+      queuedToolCalls: [],
+      compaction: null,
+      toolResultStore: null,
+      plan: null,
+      llmState: { current: null },
+      verification: null,
+      guardrails: [],
+      toolResultCache: null,
+      onStream: (event) => events.push(event),
+      permissionPolicy: [],
+      permissionManager: null,
+      handoffToolNames: [],
+      ...param,
+    } as Parameters<typeof agentLoop>[0],
+    { otelInfo: { span, headers: getOtelHeaderFromSpan(span) } },
+  );
+  span.end();
+  return { response, events };
+};
+
+const toolResults = (messages: AgentMessage[]) =>
+  messages.flatMap((item) =>
+    item.content.type === 'tool_result'
+      ? [{ toolUseId: item.content.toolUseId, content: item.content.content }]
+      : [],
+  );
+
+test('agentLoop - forces a final answer turn once the budget is exhausted', async () => {
+  const { tools } = createTools();
+  const llm = createMockLLMIntegration([
+    {
+      expect: (param) => expect(param.budget?.exhausted).toBe(false),
+      response: {
+        type: 'tool_call',
+        toolRequests: [{ name: 'internal_echo', input: { text: 'a' } }],
+      },
+      usage: { prompt: 5, completion: 20 },
+    },
+    {
+      expect: (param) => {
+        expect(param.budget?.exhausted).toBe(true);
+        expect(param.budget?.current.completionTokens).toBe(20);
+      },
+      response: { type: 'text', content: 'Done' },
+    },
+  ]);
+
+  const { response, events } = await runAgentLoop({
+    llm,
+    tools,
+    budget: { max: { completionTokens: 10 }, exhaustedBy: null },
+  });
+
+  llm.assertAllStepsUsed();
+  expect(response.output).toEqual({ response: 'Done' });
+  expect(response.budget.exhaustedBy).toEqual(['completionTokens']);
+  expect(events.filter((item) => item.type === 'agent.budget.exhausted')).toHaveLength(1);
+});
+
+test('agentLoop - does not count the usage of the earlier session turns towards the budget', async () => {
+  const { tools } = createTools();
+  const llm = createMockLLMIntegration([
+    {
+      expect: (param) => {
+        expect(param.budget?.exhausted).toBe(false);
+        expect(param.budget?.current).toEqual({
+          executionUnits: 0,
+          promptTokens: 0,
+          completionTokens: 0,
+        });
+      },
+      response: { type: 'text', content: 'Done' },
+      usage: { prompt: 5, completion: 5 },
+    },
+  ]);
+
+  const { response } = await runAgentLoop({
+    llm,
+    tools,
+    currentTotalExecutionUnits: 50,
+    currentTotalUsageTokens: { prompt: 30, completion: 20 },
+    budget: {
+      max: { completionTokens: 10 },
+      exhaustedBy: null,
+      offset: { executionUnits: 50, promptTokens: 30, completionTokens: 20 },
+    },
+  });
+
+  llm.assertAllStepsUsed();
+  expect(response.output).toEqual({ response: 'Done' });
+  expect(response.budget).toEqual({
+    max: { completionTokens: 10 },
+    exhaustedBy: null,
+    offset: { executionUnits: 50, promptTokens: 30, completionTokens: 20 },
+  });
+  expect(response.tokenUsage).toEqual({ prompt: 35, completion: 25 });
+});
+
+test('agentLoop - fails when the LLM needs another turn after the forced final answer turn', async () => {
+  const { tools } = createTools();
+  const llm = createMockLLMIntegration([
+    {
+      response: {
+        type: 'tool_call',
+        toolRequests: [{ name: 'internal_echo', input: { text: 'a' } }],
+      },
+      times: Number.POSITIVE_INFINITY,
+      usage: { prompt: 0, completion: 20 },
+    },
+  ]);
+
+  await expect(
+    runAgentLoop({ llm, tools, budget: { max: { completionTokens: 10 }, exhaustedBy: null } }),
+  ).rejects.toThrow('Budget exhausted the max quota: completionTokens');
+});
+
+test('agentLoop - executes the queued lower priority calls before the next LLM call', async () => {
+  const { tools, executed } = createTools();
+  const llm = createMockLLMIntegration([
+    {
+      response: {
+        type: 'tool_call',
+        toolRequests: [
+          { name: 'internal_echo', input: { text: 'a' }, toolUseId: 'echo-1' },
+          { name: 'internal_lookup', input: { text: 'b' }, toolUseId: 'lookup-1' },
+        ],
+      },
+    },
+    {
+      expect: (param) => {
+        expect(toolResults(param.messages).map((item) => item.toolUseId)).toEqual([
+          'lookup-1',
+          'echo-1',
+        ]);
+        // The queued call stays attributed to the response which requested it
+        const responseIds = param.messages
+          .filter((item) => item.content.type === 'tool_use')
+          .map((item) => item.responseId);
+        expect(responseIds).toHaveLength(2);
+        expect(responseIds[0]).toBeTypeOf('string');
+        expect(responseIds[1]).toBe(responseIds[0]);
+      },
+      response: { type: 'text', content: 'Done' },
+    },
+  ]);
+
+  const { events } = await runAgentLoop({ llm, tools, lowPriorityToolCallStrategy: 'queue' });
+
+  llm.assertAllStepsUsed();
+  expect(executed).toEqual(['lookup', 'echo']);
+  expect(events.find((item) => item.type === 'agent.tool.deferred')?.data).toMatchObject({
+    toolUseId: 'echo-1',
+    strategy: 'queue',
+  });
+});
+
+test('agentLoop - answers the deferred lower priority calls without executing them', async () => {
+  const { tools, executed } = createTools();
+  const llm = createMockLLMIntegration([
+    {
+      response: {
+        type: 'tool_call',
+        toolRequests: [
+          { name: 'internal_echo', input: { text: 'a' }, toolUseId: 'echo-1' },
+          { name: 'internal_lookup', input: { text: 'b' }, toolUseId: 'lookup-1' },
+        ],
+      },
+    },
+    {
+      expect: (param) =>
+        expect(
+          toolResults(param.messages).find((item) => item.toolUseId === 'echo-1')?.content,
+        ).toContain('[Deferred]'),
+      response: { type: 'text', content: 'Done' },
+    },
+  ]);
+
+  await runAgentLoop({ llm, tools, lowPriorityToolCallStrategy: 'defer' });
+
+  llm.assertAllStepsUsed();
+  expect(executed).toEqual(['lookup']);
+});
+
+test('agentLoop - answers the queued calls as not executed once the budget is exhausted', async () => {
+  const { tools, executed } = createTools();
+  const llm = createMockLLMIntegration([
+    {
+      response: {
+        type: 'tool_call',
+        toolRequests: [
+          { name: 'internal_echo', input: { text: 'a' }, toolUseId: 'echo-1' },
+          { name: 'internal_lookup', input: { text: 'b' }, toolUseId: 'lookup-1' },
+        ],
+      },
+      usage: { prompt: 0, completion: 20 },
+    },
+    {
+      expect: (param) => {
+        expect(param.budget?.exhausted).toBe(true);
+        expect(
+          toolResults(param.messages).find((item) => item.toolUseId === 'echo-1')?.content,
+        ).toContain('[Not executed]');
+      },
+      response: { type: 'text', content: 'Done' },
+    },
+  ]);
+
+  const { response } = await runAgentLoop({
+    llm,
+    tools,
+    lowPriorityToolCallStrategy: 'queue',
+    budget: { max: { completionTokens: 10 }, exhaustedBy: null },
+  });
+
+  llm.assertAllStepsUsed();
+  expect(executed).toEqual(['lookup']);
+  expect(response.queuedToolCalls).toEqual([]);
+});
+
+test('agentLoop - rejects a handoff returned along with other tool calls', async () => {
+  const { tools, executed } = createTools();
+  const llm = createMockLLMIntegration([
+    {
+      response: {
+        type: 'tool_call',
+        toolRequests: [
+          { name: 'handoff_billing', input: { request: 'refund' }, toolUseId: 'handoff-1' },
+          { name: 'internal_echo', input: { text: 'a' }, toolUseId: 'echo-1' },
+        ],
+      },
+    },
+    {
+      expect: (param) => {
+        const results = toolResults(param.messages);
+        expect(results.map((item) => item.toolUseId)).toEqual(['handoff-1', 'echo-1']);
+        for (const item of results) {
+          expect(JSON.parse(item.content)).toMatchObject({
+            type: 'error',
+            name: 'HandoffNotAloneError',
+          });
+        }
+      },
+      response: { type: 'text', content: 'Done' },
+    },
+  ]);
+
+  const { response, events } = await runAgentLoop({
+    llm,
+    tools,
+    handoffToolNames: ['handoff_billing'],
+  });
+
+  llm.assertAllStepsUsed();
+  expect(executed).toEqual([]);
+  expect(response.toolCalls).toBeUndefined();
+  expect(events.find((item) => item.type === 'agent.handoff.rejected')?.data).toMatchObject({
+    handoffs: ['handoff_billing'],
+    tools: ['handoff_billing', 'internal_echo'],
+  });
+});
+
+test('agentLoop - sends a rejected output back to the LLM with the feedback of the verifier', async () => {
+  const { tools } = createTools();
+  const llm = createMockLLMIntegration([
+    { match: { lifecycle: 'init' }, response: { type: 'text', content: 'Refunded' } },
+    {
+      match: { lifecycle: 'verification_feedback' },
+      expect: (param) =>
+        expect(JSON.stringify(param.messages.at(-1)?.content)).toContain('Name the order'),
+      response: { type: 'text', content: 'Order 42 was refunded' },
+    },
+  ]);
+
+  const { response, events } = await runAgentLoop({
+    llm,
+    tools,
+    verification: {
+      config: {
+        verify: ({ output }) => {
+          const approved = String(output.response).includes('42');
+          return { approved, score: null, feedback: approved ? null : 'Name the order' };
+        },
+      },
+      attempts: 0,
+    },
+  });
+
+  llm.assertAllStepsUsed();
+  expect(response.output).toEqual({ response: 'Order 42 was refunded' });
+  expect(response.verificationAttempts).toBe(1);
+  expect(
+    events.flatMap((item) =>
+      item.type === 'agent.output.verification' ? [item.data.approved] : [],
+    ),
+  ).toEqual([false, true]);
+});
+
+test('agentLoop - runs the guardrails in order, each on the content redacted by the previous', async () => {
+  const { tools } = createTools();
+  const seen: { guardrail: string; stage: string; content: string }[] = [];
+  const guardrails: IGuardrail[] = [
+    {
+      name: 'redact-secrets',
+      check: ({ stage, content }) => {
+        seen.push({ guardrail: 'redact-secrets', stage, content });
+        return content.includes('secret')
+          ? { action: 'redact', content: content.replaceAll('secret', '[redacted]') }
+          : { action: 'pass' };
+      },
+    },
+    {
+      name: 'audit',
+      stages: ['tool_result'],
+      check: ({ stage, content }) => {
+        seen.push({ guardrail: 'audit', stage, content });
+        return { action: 'pass' };
+      },
+    },
+  ];
+  const llm = createMockLLMIntegration([
+    {
+      response: {
+        type: 'tool_call',
+        toolRequests: [{ name: 'internal_lookup', input: { text: 'b' }, toolUseId: 'lookup-1' }],
+      },
+    },
+    {
+      expect: (param) =>
+        expect(toolResults(param.messages)[0]?.content).toContain('b is [redacted]'),
+      response: { type: 'text', content: 'The secret is out' },
+    },
+  ]);
+
+  const { response, events } = await runAgentLoop({ llm, tools, guardrails });
+
+  llm.assertAllStepsUsed();
+  expect(seen.map(({ guardrail, stage }) => `${guardrail}:${stage}`)).toEqual([
+    'redact-secrets:tool_result',
+    'audit:tool_result',
+    'redact-secrets:output',
+  ]);
+  expect(seen[1].content).toContain('b is [redacted]');
+  expect(response.output).toEqual({ response: 'The [redacted] is out' });
+  expect(events.filter((item) => item.type === 'agent.guardrail.redacted')).toHaveLength(2);
+});
+
+test('agentLoop - fails with a GuardrailBlockError when a guardrail blocks the output', async () => {
+  const llm = createMockLLMIntegration([{ response: { type: 'text', content: 'Forbidden' } }]);
+
+  await expect(
+    runAgentLoop({
+      llm,
+      guardrails: [
+        { name: 'block-all', stages: ['output'], check: () => ({ action: 'block', reason: 'No' }) },
+      ],
+    }),
+  ).rejects.toBeInstanceOf(GuardrailBlockError);
+});
+
+test('agentLoop - ignores the usage a tool reports after its call timed out', async () => {
+  const meter = createAgentTool({
+    name: 'meter',
+    description: 'Meters its own usage',
+    input: z.object({}),
+    output: z.object({}),
+    executionPolicy: { timeoutMs: 20 },
+    fn: async (_, { signal, reportUsage }) => {
+      reportUsage?.({ executionUnits: 1, tokens: { prompt: 1, completion: 0 } });
+      await new Promise((resolve) => signal?.addEventListener('abort', resolve));
+      reportUsage?.({ executionUnits: 100, tokens: { prompt: 100, completion: 0 } });
+      return {};
+    },
+  });
+  const llm = createMockLLMIntegration([
+    { response: { type: 'tool_call', toolRequests: [{ name: 'internal_meter', input: {} }] } },
+    { response: { type: 'text', content: 'Done' } },
+  ]);
+
+  const { response } = await runAgentLoop({
+    llm,
+    tools: Object.values(
+      generateAgentInternalToolDefinitions({ meter }),
+    ) as unknown as AgentToolDefinition[],
+  });
+
+  llm.assertAllStepsUsed();
+  expect(response.executionUnits).toBe(1);
+  expect(response.tokenUsage).toEqual({ prompt: 1, completion: 0 });
+});
+
+test('agentLoop - retries a failed MCP call under the execution policy of the tool', async () => {
+  let attempts = 0;
+  const mcp: IMCPClient = {
+    connect: async () => {},
+    disconnect: async () => {},
+    getTools: async () => [
+      { name: 'search', description: 'Searches', inputSchema: { type: 'object' } },
+    ],
+    getToolPriority: async () => ({}),
+    getToolExecutionPolicy: async () => ({
+      search: { retry: { maxRetries: 1, initialDelayMs: 1 } },
+    }),
+    invokeTool: async () => {
+      attempts++;
+      if (attempts === 1) throw new Error('Connection reset');
+      return JSON.stringify({ content: [{ type: 'text', text: 'found' }] });
+    },
+  };
+  const span = trace.getTracer('agent.loop.test').startSpan('test');
+  const tools = Object.values(
+    await generateMcpToolDefinitions(mcp, {
+      otelInfo: { span, headers: getOtelHeaderFromSpan(span) },
+    }),
+  ) as AgentToolDefinition[];
+  span.end();
+  const llm = createMockLLMIntegration([
+    { response: { type: 'tool_call', toolRequests: [{ name: 'mcp_search', input: {} }] } },
+    {
+      expect: (param) => expect(toolResults(param.messages)[0]?.content).toContain('found'),
+      response: { type: 'text', content: 'Done' },
+    },
+  ]);
+
+  await runAgentLoop({ llm, mcp, tools });
+
+  llm.assertAllStepsUsed();
+  expect(attempts).toBe(2);
+});
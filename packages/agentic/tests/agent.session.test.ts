@@ -0,0 +1,123 @@
+import { createConcurrentEventBroker } from '@arvo-tools/concurrent';
+import {
+  type ArvoEvent,
+  createArvoEventFactory,
+  createArvoOrchestratorContract,
+  createArvoOrchestratorEventFactory,
+} from 'arvo-core';
+import { SimpleMachineMemory } from 'arvo-event-handler';
+import { expect, test } from 'vitest';
+import z from 'zod';
+import { AgentDefaults } from '../src/Agent/AgentDefaults';
+import { createArvoAgent } from '../src/Agent/index';
+import { agentSessionCloseContract, agentSessionContract } from '../src/Agent/session';
+import { createAgentTool } from '../src/AgentTool';
+import { createMockLLMIntegration } from '../src/Integrations/mock';
+
+const TEST_EVENT_SOURCE = 'test.user';
+
+const chatAgentContract = createArvoOrchestratorContract({
+  uri: '#/test/agent/chat',
+  name: 'agent.chat',
+  versions: {
+    '1.0.0': { init: AgentDefaults.INIT_SCHEMA, complete: AgentDefaults.COMPLETE_SCHEMA },
+  },
+});
+
+test('createArvoAgent - runs every session turn with the whole budget', async () => {
+  const llm = createMockLLMIntegration([
+    {
+      match: { lifecycle: 'init' },
+      response: {
+        type: 'tool_call',
+        toolRequests: [{ name: 'internal_echo', input: { text: 'a' } }],
+      },
+      usage: { prompt: 0, completion: 12 },
+    },
+    {
+      match: { lifecycle: 'tool_result' },
+      expect: (param) => expect(param.budget?.exhausted).toBe(true),
+      response: { type: 'text', content: 'First answer' },
+    },
+    {
+      match: { lifecycle: 'init' },
+      expect: (param) => {
+        expect(param.budget?.exhausted).toBe(false);
+        expect(JSON.stringify(param.messages)).toContain('Second message');
+      },
+      response: { type: 'text', content: 'Second answer' },
+      usage: { prompt: 0, completion: 4 },
+    },
+  ]);
+  const agent = createArvoAgent({
+    contracts: { self: chatAgentContract, services: {} },
+    tools: {
+      echo: createAgentTool({
+        name: 'echo',
+        description: 'Echoes the text',
+        input: z.object({ text: z.string() }),
+        output: z.object({ text: z.string() }),
+        fn: ({ text }) => ({ text }),
+      }),
+    },
+    llm,
+    memory: new SimpleMachineMemory(),
+    session: {},
+    budget: { completionTokens: 10 },
+    handler: {
+      '1.0.0': {
+        context: AgentDefaults.CONTEXT_BUILDER(() => 'You chat with the user'),
+        output: AgentDefaults.OUTPUT_BUILDER,
+      },
+    },
+  });
+  const { broker } = createConcurrentEventBroker([{ handler: agent }]);
+  const turns: ArvoEvent[] = [];
+  const completions: ArvoEvent[] = [];
+  broker.subscribe(
+    async (event) => {
+      turns.push(event);
+      broker.publish(
+        turns.length === 1
+          ? createArvoEventFactory(agentSessionContract.version('1.0.0')).emits({
+              type: 'evt.arvo.default.agent.session.success',
+              subject: event.subject,
+              source: TEST_EVENT_SOURCE,
+              to: chatAgentContract.type,
+              data: { message: 'Second message' },
+            })
+          : createArvoEventFactory(agentSessionCloseContract.version('1.0.0')).emits({
+              type: 'evt.arvo.default.agent.session.close.success',
+              subject: event.subject,
+              source: TEST_EVENT_SOURCE,
+              to: chatAgentContract.type,
+              data: { reason: 'Done' },
+            }),
+      );
+    },
+    { topic: agentSessionContract.type, prefetch: 1 },
+  );
+  broker.subscribe(
+    async (event) => {
+      completions.push(event);
+    },
+    { topic: TEST_EVENT_SOURCE, prefetch: 1 },
+  );
+
+  broker.publish(
+    createArvoOrchestratorEventFactory(chatAgentContract.version('1.0.0')).init({
+      source: TEST_EVENT_SOURCE,
+      data: { message: 'First message', parentSubject$$: null },
+    }),
+  );
+  await broker.waitForIdle();
+
+  llm.assertAllStepsUsed();
+  expect(turns.map((item) => item.data)).toMatchObject([
+    { turn: 1, output: { response: 'First answer' } },
+    { turn: 2, output: { response: 'Second answer' } },
+  ]);
+  expect(completions).toHaveLength(1);
+  expect(completions[0].type).toBe(chatAgentContract.metadata.completeEventType);
+  expect(completions[0].data).toMatchObject({ response: 'Second answer' });
+});
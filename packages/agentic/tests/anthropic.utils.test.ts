@@ -0,0 +1,188 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { expect, test } from 'vitest';
+import type { AgentMessage } from '../src/Agent/types';
+import {
+  applyAnthropicPromptCaching,
+  formatMessagesForAnthropic,
+} from '../src/Integrations/anthropic/utils';
+
+const tools: Anthropic.Tool[] = [
+  { name: 'echo', description: 'Echoes', input_schema: { type: 'object' } },
+  { name: 'lookup', description: 'Looks up', input_schema: { type: 'object' } },
+];
+
+test('formatMessagesForAnthropic - leads the grouped tool calls with their signed reasoning', () => {
+  const messages: AgentMessage[] = [
+    { role: 'user', content: { type: 'text', content: 'Hello' }, seenCount: 0 },
+    {
+      role: 'assistant',
+      content: { type: 'thinking', content: 'I need tools', signature: 'sig-1', redacted: false },
+      seenCount: 0,
+    },
+    {
+      role: 'assistant',
+      content: { type: 'tool_use', toolUseId: 'call-1', name: 'echo', input: { text: 'a' } },
+      seenCount: 0,
+    },
+    {
+      role: 'assistant',
+      content: { type: 'tool_use', toolUseId: 'call-2', name: 'lookup', input: { text: 'b' } },
+      seenCount: 0,
+    },
+    {
+      role: 'user',
+      content: { type: 'tool_result', toolUseId: 'call-1', content: 'a' },
+      seenCount: 0,
+    },
+    {
+      role: 'user',
+      content: { type: 'tool_result', toolUseId: 'call-2', content: 'b' },
+      seenCount: 0,
+    },
+    {
+      role: 'assistant',
+      content: { type: 'thinking', content: 'Secret', signature: null, redacted: true },
+      seenCount: 0,
+    },
+    { role: 'assistant', content: { type: 'text', content: 'Done' }, seenCount: 0 },
+  ];
+
+  expect(formatMessagesForAnthropic(messages)).toEqual([
+    { role: 'user', content: 'Hello' },
+    {
+      role: 'assistant',
+      content: [
+        { type: 'thinking', thinking: 'I need tools', signature: 'sig-1' },
+        { type: 'tool_use', id: 'call-1', name: 'echo', input: { text: 'a' } },
+        { type: 'tool_use', id: 'call-2', name: 'lookup', input: { text: 'b' } },
+      ],
+    },
+    {
+      role: 'user',
+      content: [
+        { type: 'tool_result', tool_use_id: 'call-1', content: 'a' },
+        { type: 'tool_result', tool_use_id: 'call-2', content: 'b' },
+      ],
+    },
+    {
+      role: 'assistant',
+      content: [
+        { type: 'redacted_thinking', data: 'Secret' },
+        { type: 'text', text: 'Done' },
+      ],
+    },
+  ]);
+});
+
+test('formatMessagesForAnthropic - keeps the calls of one response in one turn when results come in between', () => {
+  const toolUse = (toolUseId: string, responseId: string): AgentMessage => ({
+    role: 'assistant',
+    content: { type: 'tool_use', toolUseId, name: 'echo', input: {} },
+    seenCount: 0,
+    responseId,
+  });
+  const toolResult = (toolUseId: string): AgentMessage => ({
+    role: 'user',
+    content: { type: 'tool_result', toolUseId, content: toolUseId },
+    seenCount: 0,
+  });
+  const messages: AgentMessage[] = [
+    { role: 'user', content: { type: 'text', content: 'Hello' }, seenCount: 0 },
+    {
+      role: 'assistant',
+      content: { type: 'thinking', content: 'I need tools', signature: 'sig-1', redacted: false },
+      seenCount: 0,
+      responseId: 'response-1',
+    },
+    // A denied call is answered right away, ahead of the other calls of the response
+    toolUse('call-1', 'response-1'),
+    toolResult('call-1'),
+    toolUse('call-2', 'response-1'),
+    toolResult('call-2'),
+    // A queued call runs after the results of the first batch
+    toolUse('call-3', 'response-1'),
+    toolResult('call-3'),
+    toolUse('call-4', 'response-2'),
+    toolResult('call-4'),
+  ];
+
+  expect(formatMessagesForAnthropic(messages)).toEqual([
+    { role: 'user', content: 'Hello' },
+    {
+      role: 'assistant',
+      content: [
+        { type: 'thinking', thinking: 'I need tools', signature: 'sig-1' },
+        { type: 'tool_use', id: 'call-1', name: 'echo', input: {} },
+        { type: 'tool_use', id: 'call-2', name: 'echo', input: {} },
+        { type: 'tool_use', id: 'call-3', name: 'echo', input: {} },
+      ],
+    },
+    {
+      role: 'user',
+      content: [
+        { type: 'tool_result', tool_use_id: 'call-1', content: 'call-1' },
+        { type: 'tool_result', tool_use_id: 'call-2', content: 'call-2' },
+        { type: 'tool_result', tool_use_id: 'call-3', content: 'call-3' },
+      ],
+    },
+    { role: 'assistant', content: [{ type: 'tool_use', id: 'call-4', name: 'echo', input: {} }] },
+    { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call-4', content: 'call-4' }] },
+  ]);
+});
+
+test('formatMessagesForAnthropic - leaves out the reasoning not signed by Anthropic', () => {
+  const messages: AgentMessage[] = [
+    { role: 'user', content: { type: 'text', content: 'Hello' }, seenCount: 0 },
+    {
+      role: 'assistant',
+      content: {
+        type: 'thinking',
+        content: 'OpenAI reasoning',
+        signature: 'encrypted',
+        redacted: false,
+        id: 'rs_1',
+      },
+      seenCount: 0,
+    },
+    { role: 'assistant', content: { type: 'text', content: 'Hi' }, seenCount: 0 },
+  ];
+
+  expect(formatMessagesForAnthropic(messages)).toEqual([
+    { role: 'user', content: 'Hello' },
+    { role: 'assistant', content: 'Hi' },
+  ]);
+});
+
+test('applyAnthropicPromptCaching - places the breakpoints on the system, tools and last message', () => {
+  const result = applyAnthropicPromptCaching(
+    { system: 'You are helpful', tools, messages: [{ role: 'user', content: 'Hello' }] },
+    { ttl: '1h' },
+  );
+  const cacheControl = { type: 'ephemeral', ttl: '1h' };
+
+  expect(result.system).toEqual([
+    { type: 'text', text: 'You are helpful', cache_control: cacheControl },
+  ]);
+  expect(result.tools[0]).not.toHaveProperty('cache_control');
+  expect(result.tools[1]).toHaveProperty('cache_control', cacheControl);
+  expect(result.messages).toEqual([
+    { role: 'user', content: [{ type: 'text', text: 'Hello', cache_control: cacheControl }] },
+  ]);
+});
+
+test('applyAnthropicPromptCaching - skips the disabled breakpoints and the reasoning blocks', () => {
+  const messages: Anthropic.MessageParam[] = [
+    {
+      role: 'assistant',
+      content: [{ type: 'thinking', thinking: 'Hmm', signature: 'sig-1' }],
+    },
+  ];
+  const result = applyAnthropicPromptCaching(
+    { system: 'You are helpful', tools, messages },
+    { system: false, tools: false },
+  );
+
+  expect(result.system).toBe('You are helpful');
+  expect(result.tools).toBe(tools);
+  expect(result.messages).toEqual(messages);
+});
@@ -0,0 +1,64 @@
+import { trace } from '@opentelemetry/api';
+import { getOtelHeaderFromSpan } from 'arvo-core';
+import { expect, test } from 'vitest';
+import { createChildCancellationEvents } from '../src/Agent/cancellation';
+import { SimpleCancellationRegistry } from '../src/SimpleCancellationRegistry';
+
+const createConfig = () => {
+  const span = trace.getTracer('cancellation.test').startSpan('test');
+  return { otelInfo: { span, headers: getOtelHeaderFromSpan(span) } };
+};
+
+test('SimpleCancellationRegistry - records the cancelled workflows and their children', async () => {
+  const registry = new SimpleCancellationRegistry();
+  await registry.register({ subject: 'child-1', parentSubject: 'parent', toolUseId: 'call-1' });
+  await registry.register({ subject: 'child-2', parentSubject: 'parent', toolUseId: 'call-2' });
+  await registry.cancel({ subject: 'parent', reason: 'Aborted' });
+
+  expect(await registry.get({ subject: 'parent' })).toEqual({ reason: 'Aborted' });
+  expect(await registry.get({ subject: 'child-1' })).toBeNull();
+  expect(await registry.children({ subject: 'parent' })).toEqual([
+    { subject: 'child-1', toolUseId: 'call-1' },
+    { subject: 'child-2', toolUseId: 'call-2' },
+  ]);
+  expect(await registry.children({ subject: 'child-1' })).toEqual([]);
+});
+
+test('createChildCancellationEvents - addresses the children which have not responded', async () => {
+  const registry = new SimpleCancellationRegistry();
+  const config = createConfig();
+  await registry.register({ subject: 'child-1', parentSubject: 'parent', toolUseId: 'call-1' });
+  await registry.register({ subject: 'child-2', parentSubject: 'parent', toolUseId: 'call-2' });
+
+  const events = await createChildCancellationEvents(
+    {
+      registry,
+      subject: 'parent',
+      source: 'arvo.orc.agent.parent',
+      reason: 'Aborted',
+      toolCalls: [{ toolUseId: 'call-2', type: 'arvo.orc.agent.child' }],
+    },
+    config,
+  );
+
+  expect(events).toHaveLength(1);
+  expect(events[0]).toMatchObject({
+    type: 'evt.arvo.default.agent.cancel.success',
+    source: 'arvo.orc.agent.parent',
+    subject: 'child-2',
+    to: 'arvo.orc.agent.child',
+    data: { reason: 'The parent workflow parent was cancelled. Reason: Aborted' },
+  });
+  expect(
+    await createChildCancellationEvents(
+      {
+        registry: { cancel: () => {}, get: () => null },
+        subject: 'parent',
+        source: 'arvo.orc.agent.parent',
+        reason: null,
+        toolCalls: [{ toolUseId: 'call-2', type: 'arvo.orc.agent.child' }],
+      },
+      config,
+    ),
+  ).toEqual([]);
+});
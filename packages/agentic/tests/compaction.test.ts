@@ -0,0 +1,55 @@
+import { expect, test } from 'vitest';
+import { findCompactionSplitIndex } from '../src/Agent/compaction';
+import type { AgentMessage } from '../src/Agent/types';
+
+const text = (role: 'user' | 'assistant', content: string): AgentMessage => ({
+  role,
+  content: { type: 'text', content },
+  seenCount: 0,
+});
+
+const toolUse = (toolUseId: string): AgentMessage => ({
+  role: 'assistant',
+  content: { type: 'tool_use', toolUseId, name: 'echo', input: {} },
+  seenCount: 0,
+});
+
+const toolResult = (toolUseId: string): AgentMessage => ({
+  role: 'user',
+  content: { type: 'tool_result', toolUseId, content: '{}' },
+  seenCount: 0,
+});
+
+test('findCompactionSplitIndex - keeps the configured number of recent messages', () => {
+  const messages = [
+    text('user', 'a'),
+    text('assistant', 'b'),
+    text('user', 'c'),
+    text('assistant', 'd'),
+    text('user', 'e'),
+  ];
+
+  expect(findCompactionSplitIndex(messages, 2)).toBe(3);
+});
+
+test('findCompactionSplitIndex - does not separate a tool call from its result', () => {
+  const messages = [
+    text('user', 'a'),
+    toolUse('call-1'),
+    toolUse('call-2'),
+    toolResult('call-1'),
+    toolResult('call-2'),
+    text('assistant', 'b'),
+  ];
+
+  // Splitting after the first result would summarize call-2 without its result
+  expect(findCompactionSplitIndex(messages, 2)).toBe(1);
+  expect(findCompactionSplitIndex(messages, 1)).toBe(5);
+});
+
+test('findCompactionSplitIndex - returns 0 when no split keeps the tool calls whole', () => {
+  const messages = [toolUse('call-1'), toolResult('call-1'), text('assistant', 'a')];
+
+  expect(findCompactionSplitIndex(messages, 2)).toBe(0);
+  expect(findCompactionSplitIndex(messages, 3)).toBe(0);
+});
@@ -0,0 +1,37 @@
+import { expect, test } from 'vitest';
+import { getNextDeadline, resolveOverdueToolCalls } from '../src/Agent/deadline';
+import type { AgentState } from '../src/Agent/index';
+
+const createAwaitingToolCalls = (): AgentState['awaitingToolCalls'] => ({
+  'call-1': { type: 'com.search', data: null, deadline: { at: 1000, timeoutMs: 500 } },
+  'call-2': { type: 'com.lookup', data: null, deadline: { at: 3000, timeoutMs: 2500 } },
+  'call-3': { type: 'com.review', data: null, deadline: null },
+  'call-4': { type: 'com.fetch', data: { ok: true }, deadline: { at: 500, timeoutMs: 100 } },
+});
+
+test('resolveOverdueToolCalls - answers the awaited calls whose deadline passed', () => {
+  const awaitingToolCalls = createAwaitingToolCalls();
+
+  expect(resolveOverdueToolCalls(awaitingToolCalls, 2000)).toEqual([
+    { toolUseId: 'call-1', type: 'com.search', timeoutMs: 500 },
+  ]);
+  expect(awaitingToolCalls['call-1']).toMatchObject({
+    data: { type: 'error', name: 'ServiceTimeoutError' },
+    timedOut: true,
+  });
+  expect(awaitingToolCalls['call-2'].data).toBeNull();
+  expect(awaitingToolCalls['call-3'].data).toBeNull();
+  expect(awaitingToolCalls['call-4'].data).toEqual({ ok: true });
+  // A call which has timed out is not answered twice
+  expect(resolveOverdueToolCalls(awaitingToolCalls, 2000)).toEqual([]);
+});
+
+test('getNextDeadline - returns the earliest deadline of the calls still awaited', () => {
+  const awaitingToolCalls = createAwaitingToolCalls();
+
+  expect(getNextDeadline(awaitingToolCalls)).toBe(1000);
+  resolveOverdueToolCalls(awaitingToolCalls, 2000);
+  expect(getNextDeadline(awaitingToolCalls)).toBe(3000);
+  resolveOverdueToolCalls(awaitingToolCalls, 3000);
+  expect(getNextDeadline(awaitingToolCalls)).toBeNull();
+});
@@ -0,0 +1,57 @@
+import { expect, test } from 'vitest';
+import { createJUnitReport } from '../src/AgentEvaluation/report';
+import type { AgentEvaluationCaseResult } from '../src/AgentEvaluation/types';
+
+const createCase = (param: Partial<AgentEvaluationCaseResult>): AgentEvaluationCaseResult => ({
+  name: 'case',
+  passed: true,
+  durationMs: 1500,
+  input: {},
+  output: { response: 'ok' },
+  error: null,
+  toolCalls: [],
+  usage: { tokens: { prompt: 0, completion: 0 }, executionUnits: 0 },
+  checks: [],
+  events: [],
+  ...param,
+});
+
+test('createJUnitReport - renders one test case per dataset entry', () => {
+  const xml = createJUnitReport({
+    agent: 'agent.support',
+    version: '1.0.0',
+    startedAt: '2026-01-01T00:00:00.000Z',
+    durationMs: 4250,
+    summary: {
+      total: 3,
+      passed: 1,
+      failed: 2,
+      usage: { tokens: { prompt: 0, completion: 0 }, executionUnits: 0 },
+    },
+    cases: [
+      createCase({ name: 'refund <policy>' }),
+      createCase({
+        name: 'escalation',
+        passed: false,
+        checks: [
+          { name: 'toolCalls', passed: true, score: null, reason: null },
+          { name: 'politeness', passed: false, score: 0.4, reason: 'Too "blunt"' },
+        ],
+      }),
+      createCase({ name: 'crash', passed: false, output: null, error: 'Agent failed' }),
+    ],
+  });
+
+  expect(xml).toContain(
+    '<testsuites name="agent.support@1.0.0" tests="3" failures="2" time="4.250">',
+  );
+  expect(xml).toContain('timestamp="2026-01-01T00:00:00.000Z"');
+  expect(xml).toContain(
+    '<testcase name="refund &lt;policy&gt;" classname="agent.support@1.0.0" time="1.500"></testcase>',
+  );
+  expect(xml).toContain(
+    '<failure message="politeness (score: 0.4): Too &quot;blunt&quot;">politeness (score: 0.4): Too &quot;blunt&quot;</failure>',
+  );
+  expect(xml).toContain('<failure message="error: Agent failed">error: Agent failed</failure>');
+  expect(xml.match(/<testcase /g)).toHaveLength(3);
+});
@@ -0,0 +1,130 @@
+import { createArvoOrchestratorContract } from 'arvo-core';
+import { SimpleMachineMemory } from 'arvo-event-handler';
+import { expect, test } from 'vitest';
+import z from 'zod';
+import { AgentDefaults } from '../src/Agent/AgentDefaults';
+import { createArvoAgent } from '../src/Agent/index';
+import { evaluateAgent } from '../src/AgentEvaluation';
+import { createAgentTool } from '../src/AgentTool';
+import { createMockLLMIntegration } from '../src/Integrations/mock';
+
+const echoAgentContract = createArvoOrchestratorContract({
+  uri: '#/test/agent/echo',
+  name: 'agent.echo',
+  versions: {
+    '1.0.0': { init: AgentDefaults.INIT_SCHEMA, complete: AgentDefaults.COMPLETE_SCHEMA },
+  },
+});
+
+const llm = createMockLLMIntegration([
+  {
+    match: { lifecycle: 'init', when: (param) => JSON.stringify(param.messages).includes('echo') },
+    response: {
+      type: 'tool_call',
+      toolRequests: [{ name: 'internal_echo', input: { text: 'a' } }],
+    },
+    usage: { prompt: 10, completion: 5 },
+    times: Number.POSITIVE_INFINITY,
+  },
+  {
+    match: { lifecycle: 'init' },
+    response: { type: 'text', content: 'Hi' },
+    usage: { prompt: 10, completion: 5 },
+    times: Number.POSITIVE_INFINITY,
+  },
+  {
+    match: { lifecycle: 'tool_result' },
+    response: { type: 'text', content: 'a' },
+    usage: { prompt: 20, completion: 5 },
+    times: Number.POSITIVE_INFINITY,
+  },
+]);
+
+const evaluate = (param: Partial<Parameters<typeof evaluateAgent>[0]>) =>
+  evaluateAgent({
+    contract: echoAgentContract,
+    version: '1.0.0',
+    agent: ({ onStream }) =>
+      createArvoAgent({
+        contracts: { self: echoAgentContract, services: {} },
+        tools: {
+          echo: createAgentTool({
+            name: 'echo',
+            description: 'Echoes the text',
+            input: z.object({ text: z.string() }),
+            output: z.object({ text: z.string() }),
+            fn: ({ text }) => ({ text }),
+          }),
+        },
+        llm,
+        memory: new SimpleMachineMemory(),
+        onStream,
+        handler: {
+          '1.0.0': {
+            context: AgentDefaults.CONTEXT_BUILDER(() => 'You echo the text'),
+            output: AgentDefaults.OUTPUT_BUILDER,
+          },
+        },
+      }),
+    dataset: [
+      {
+        name: 'echoes the text',
+        input: { message: 'Please echo a' },
+        expect: { toolSequence: ['echo'], output: z.object({ response: z.literal('a') }) },
+      },
+      {
+        name: 'greets without a tool',
+        input: { message: 'Hello' },
+        expect: { toolSequence: ['echo'] },
+        scorers: [{ name: 'polite', score: ({ output }) => ({ score: output.response ? 1 : 0 }) }],
+      },
+    ],
+    ...param,
+  });
+
+test('evaluateAgent - runs every case on the concurrent broker and checks its expectations', async () => {
+  const report = await evaluate({});
+
+  expect(report.summary).toEqual({
+    total: 2,
+    passed: 1,
+    failed: 1,
+    usage: { tokens: { prompt: 40, completion: 15 }, executionUnits: 55 },
+  });
+  const [echoes, greets] = report.cases;
+  expect(echoes).toMatchObject({
+    passed: true,
+    output: { response: 'a' },
+    error: null,
+    toolCalls: ['echo'],
+    usage: { tokens: { prompt: 30, completion: 10 }, executionUnits: 40 },
+  });
+  expect(greets.passed).toBe(false);
+  expect(greets.checks).toEqual([
+    { name: 'completion', passed: true, score: null, reason: null },
+    {
+      name: 'tool_sequence',
+      passed: false,
+      score: null,
+      reason: 'Expected [echo] but the agent called []',
+    },
+    { name: 'polite', passed: true, score: 1, reason: null },
+  ]);
+});
+
+test('evaluateAgent - fails the cases whose resolve throws', async () => {
+  const report = await evaluate({
+    resolve: async () => {
+      throw new Error('The broker is down');
+    },
+  });
+
+  expect(report.summary.failed).toBe(2);
+  expect(report.cases[0].error).toBe('The broker is down');
+  expect(report.cases[0].checks[0]).toEqual({
+    name: 'completion',
+    passed: false,
+    score: null,
+    reason: 'The broker is down',
+  });
+});
@@ -0,0 +1,59 @@
+import { createArvoOrchestratorContract } from 'arvo-core';
+import { expect, test } from 'vitest';
+import z from 'zod';
+import {
+  AgentHandoffSchema,
+  filterHandoffMessages,
+  generateHandoffToolDefinitions,
+} from '../src/Agent/handoff';
+import type { AgentMessage } from '../src/Agent/types';
+
+const billingAgentContract = createArvoOrchestratorContract({
+  uri: '#/test/agent/billing',
+  name: 'agent.billing',
+  description: 'Answers the billing questions',
+  versions: {
+    '1.0.0': {
+      init: z.object({
+        request: z.string(),
+        handoff$$: AgentHandoffSchema.nullable().optional(),
+      }),
+      complete: z.object({ response: z.string() }),
+    },
+  },
+});
+
+test('generateHandoffToolDefinitions - hides the handoff$$ field from the LLM', () => {
+  const [tool] = generateHandoffToolDefinitions({
+    'billing.agent': {
+      contract: billingAgentContract.version('1.0.0'),
+      description: 'Use it for refunds',
+    },
+  });
+  const properties = tool.inputSchema.properties as Record<string, unknown>;
+
+  expect(tool.name).toBe('handoff_billing_agent');
+  expect(tool.description).toContain('Use it for refunds');
+  expect(properties).toHaveProperty('request');
+  expect(properties).not.toHaveProperty('handoff$$');
+  expect(tool.inputSchema.required).not.toContain('handoff$$');
+});
+
+test('filterHandoffMessages - keeps only the text and media messages', () => {
+  const messages: AgentMessage[] = [
+    { role: 'user', content: { type: 'text', content: 'Refund me' }, seenCount: 0 },
+    {
+      role: 'assistant',
+      content: { type: 'tool_use', toolUseId: 'call-1', name: 'lookup', input: {} },
+      seenCount: 0,
+    },
+    {
+      role: 'user',
+      content: { type: 'tool_result', toolUseId: 'call-1', content: '{}' },
+      seenCount: 0,
+    },
+    { role: 'assistant', content: { type: 'text', content: 'Handing over' }, seenCount: 0 },
+  ];
+
+  expect(filterHandoffMessages(messages)).toEqual([messages[0], messages[3]]);
+});
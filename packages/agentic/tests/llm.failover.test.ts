@@ -0,0 +1,182 @@
+import { trace } from '@opentelemetry/api';
+import { getOtelHeaderFromSpan } from 'arvo-core';
+import { expect, test } from 'vitest';
+import type { AgentEventStreamer } from '../src/Agent/stream/types';
+import { LLMIntegrationError } from '../src/Integrations/errors';
+import { createFailoverLLMIntegration, isRetryableLLMError } from '../src/Integrations/failover';
+import { createMockLLMIntegration } from '../src/Integrations/mock';
+import type { AgentLLMIntegration, AgentLLMIntegrationParam } from '../src/Integrations/types';
+
+const createParam = (onStream: AgentEventStreamer = () => {}): AgentLLMIntegrationParam => ({
+  lifecycle: 'init',
+  messages: [{ role: 'user', content: { type: 'text', content: 'Hello' }, seenCount: 0 }],
+  system: null,
+  tools: [],
+  toolInteractions: { current: 0, max: 5, exhausted: false },
+  outputFormat: { type: 'text' },
+  onStream,
+});
+
+const call = (llm: AgentLLMIntegration, param: AgentLLMIntegrationParam) => {
+  const span = trace.getTracer('llm.failover.test').startSpan('test');
+  return llm(param, { otelInfo: { span, headers: getOtelHeaderFromSpan(span) } }).finally(() =>
+    span.end(),
+  );
+};
+
+const failing =
+  (error: unknown, onStream?: (param: AgentLLMIntegrationParam) => void): AgentLLMIntegration =>
+  async (param) => {
+    onStream?.(param);
+    throw error;
+  };
+
+test('isRetryableLLMError - retries the transient failures only', () => {
+  expect(isRetryableLLMError({ status: 429 })).toBe(true);
+  expect(isRetryableLLMError({ status: 503 })).toBe(true);
+  expect(isRetryableLLMError({ code: 'ECONNRESET' })).toBe(true);
+  expect(isRetryableLLMError({ name: 'APIConnectionTimeoutError' })).toBe(true);
+  expect(isRetryableLLMError({ status: 400 })).toBe(false);
+  expect(isRetryableLLMError({ status: 401 })).toBe(false);
+  expect(isRetryableLLMError(new Error('Unknown'))).toBe(false);
+  expect(
+    isRetryableLLMError(
+      new LLMIntegrationError({
+        provider: 'openai',
+        kind: 'context_length_exceeded',
+        status: 400,
+        retryAfterMs: null,
+        attempts: 1,
+        cause: new Error('Too long'),
+      }),
+    ),
+  ).toBe(false);
+});
+
+test('createFailoverLLMIntegration - fails over to the next provider on a retryable error', async () => {
+  const events: Parameters<AgentEventStreamer>[0][] = [];
+  const llm = createFailoverLLMIntegration({
+    providers: [
+      { name: 'primary', llm: failing(Object.assign(new Error('Overloaded'), { status: 529 })) },
+      {
+        name: 'secondary',
+        llm: createMockLLMIntegration([{ response: { type: 'text', content: 'Hi' } }]),
+      },
+    ],
+  });
+
+  const output = await call(
+    llm,
+    createParam((event) => events.push(event)),
+  );
+
+  expect(output).toMatchObject({ type: 'text', content: 'Hi' });
+  expect(events.find((item) => item.type === 'agent.llm.failover')?.data).toEqual({
+    from: 'primary',
+    to: 'secondary',
+    error: 'Overloaded',
+    streamed: false,
+  });
+  expect(events.find((item) => item.type === 'agent.llm.provider')?.data).toEqual({
+    provider: 'secondary',
+    attempt: 1,
+    failed: [{ provider: 'primary', error: 'Overloaded' }],
+  });
+});
+
+test('createFailoverLLMIntegration - throws a non-retryable error without failing over', async () => {
+  const secondary = createMockLLMIntegration([{ response: { type: 'text', content: 'Hi' } }]);
+  const llm = createFailoverLLMIntegration({
+    providers: [
+      { name: 'primary', llm: failing(Object.assign(new Error('Bad request'), { status: 400 })) },
+      { name: 'secondary', llm: secondary },
+    ],
+  });
+
+  await expect(call(llm, createParam())).rejects.toThrow('Bad request');
+  expect(secondary.calls).toHaveLength(0);
+});
+
+test('createFailoverLLMIntegration - suppresses the deltas after a provider failed mid-stream', async () => {
+  const events: Parameters<AgentEventStreamer>[0][] = [];
+  const llm = createFailoverLLMIntegration({
+    providers: [
+      {
+        name: 'primary',
+        llm: failing(
+          Object.assign(new Error('Connection reset'), { code: 'ECONNRESET' }),
+          (param) =>
+            param.onStream({
+              type: 'agent.llm.delta.text',
+              data: {
+                comment: 'Generating response',
+                content: 'Par',
+                delta: 'Par',
+                meta: {
+                  error: null,
+                  token: { prompt: 0, completion: 0 },
+                  otel: { traceparent: null, tracestate: null },
+                },
+              },
+            }),
+        ),
+      },
+      {
+        name: 'secondary',
+        llm: createMockLLMIntegration([{ response: { type: 'text', content: 'Full answer' } }]),
+      },
+    ],
+  });
+
+  await call(
+    llm,
+    createParam((event) => events.push(event)),
+  );
+
+  expect(events.filter((item) => item.type === 'agent.llm.delta.text')).toHaveLength(1);
+  expect(events.find((item) => item.type === 'agent.llm.failover')?.data).toMatchObject({
+    streamed: true,
+  });
+});
+
+test('createFailoverLLMIntegration - hands the state back only to the provider which returned it', async () => {
+  const received: { provider: string; state: unknown }[] = [];
+  let primaryDown = false;
+  const stateful =
+    (name: string): AgentLLMIntegration =>
+    async (param) => {
+      received.push({ provider: name, state: param.state ?? null });
+      if (name === 'primary' && primaryDown) {
+        throw Object.assign(new Error('Overloaded'), { status: 529 });
+      }
+      return {
+        type: 'text',
+        content: name,
+        usage: { tokens: { prompt: 0, completion: 0 } },
+        executionUnits: 0,
+        state: { responseId: `${name}-${received.length}` },
+      };
+    };
+  const llm = createFailoverLLMIntegration({
+    providers: [
+      { name: 'primary', llm: stateful('primary') },
+      { name: 'secondary', llm: stateful('secondary') },
+    ],
+  });
+  let state: Record<string, unknown> | null = null;
+  for (const down of [false, false, true, false]) {
+    primaryDown = down;
+    state = (await call(llm, { ...createParam(), state })).state ?? null;
+  }
+
+  expect(received).toEqual([
+    { provider: 'primary', state: null },
+    { provider: 'primary', state: { responseId: 'primary-1' } },
+    { provider: 'primary', state: { responseId: 'primary-2' } },
+    { provider: 'secondary', state: null },
+    { provider: 'primary', state: null },
+  ]);
+  expect(state).toEqual({
+    failover: { provider: 'primary', state: { responseId: 'primary-5' } },
+  });
+});
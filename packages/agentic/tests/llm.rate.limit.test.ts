@@ -0,0 +1,143 @@
+import { trace } from '@opentelemetry/api';
+import { getOtelHeaderFromSpan } from 'arvo-core';
+import { expect, test } from 'vitest';
+import type { AgentEventStreamer } from '../src/Agent/stream/types';
+import { createMockLLMIntegration } from '../src/Integrations/mock';
+import {
+  createRateLimitedLLMIntegration,
+  LLMRateLimitExceededError,
+  LLMRateLimiter,
+} from '../src/Integrations/rateLimit';
+import type { AgentLLMIntegration, AgentLLMIntegrationParam } from '../src/Integrations/types';
+
+const createParam = (onStream: AgentEventStreamer = () => {}): AgentLLMIntegrationParam => ({
+  lifecycle: 'init',
+  messages: [{ role: 'user', content: { type: 'text', content: 'Hello' }, seenCount: 0 }],
+  system: null,
+  tools: [],
+  toolInteractions: { current: 0, max: 5, exhausted: false },
+  outputFormat: { type: 'text' },
+  onStream,
+});
+
+const call = (llm: AgentLLMIntegration, param: AgentLLMIntegrationParam) => {
+  const span = trace.getTracer('llm.rate.limit.test').startSpan('test');
+  return llm(param, { otelInfo: { span, headers: getOtelHeaderFromSpan(span) } }).finally(() =>
+    span.end(),
+  );
+};
+
+test('LLMRateLimiter - rejects a request beyond the bucket with the reject policy', async () => {
+  const limiter = new LLMRateLimiter({
+    buckets: { model: { requestsPerMinute: 2 } },
+    policy: 'reject',
+  });
+
+  expect(await limiter.acquire({ bucket: 'model', tokens: 0 })).toBeLessThan(50);
+  await limiter.acquire({ bucket: 'model', tokens: 0 });
+  const error = await limiter.acquire({ bucket: 'model', tokens: 0 }).catch((e) => e);
+
+  expect(error).toBeInstanceOf(LLMRateLimitExceededError);
+  expect(error.status).toBe(429);
+  expect(error.retryAfterMs).toBeGreaterThan(29_000);
+});
+
+test('LLMRateLimiter - waits for the bucket to refill with the wait policy', async () => {
+  const limiter = new LLMRateLimiter({ buckets: { model: { requestsPerMinute: 600 } } });
+  for (let i = 0; i < 600; i++) {
+    await limiter.acquire({ bucket: 'model', tokens: 0 });
+  }
+
+  // 600 requests per minute refill one request every 100ms
+  expect(await limiter.acquire({ bucket: 'model', tokens: 0 })).toBeGreaterThanOrEqual(50);
+});
+
+test('LLMRateLimiter - fails when the wait would exceed maxWaitMs', async () => {
+  const limiter = new LLMRateLimiter({
+    buckets: { model: { tokensPerMinute: 1000 } },
+    maxWaitMs: 1000,
+  });
+  await limiter.acquire({ bucket: 'model', tokens: 1000 });
+
+  await expect(limiter.acquire({ bucket: 'model', tokens: 500 })).rejects.toBeInstanceOf(
+    LLMRateLimitExceededError,
+  );
+});
+
+test('LLMRateLimiter - settles the estimate with the actual tokens', async () => {
+  const limiter = new LLMRateLimiter({
+    buckets: { model: { tokensPerMinute: 1000 } },
+    policy: 'reject',
+  });
+  await limiter.acquire({ bucket: 'model', tokens: 900 });
+  limiter.settle({ bucket: 'model', estimatedTokens: 900, actualTokens: 100 });
+
+  await expect(limiter.acquire({ bucket: 'model', tokens: 800 })).resolves.toBeTypeOf('number');
+  await expect(limiter.acquire({ bucket: 'model', tokens: 200 })).rejects.toBeInstanceOf(
+    LLMRateLimitExceededError,
+  );
+});
+
+test('createRateLimitedLLMIntegration - rejects a bucket which is not configured', () => {
+  const limiter = new LLMRateLimiter({ buckets: { model: { requestsPerMinute: 10 } } });
+
+  expect(() =>
+    createRateLimitedLLMIntegration(createMockLLMIntegration([]), { limiter, bucket: 'other' }),
+  ).toThrow('The LLM rate limit bucket "other" is not configured');
+});
+
+test('createRateLimitedLLMIntegration - corrects the estimate with the actual usage', async () => {
+  const limiter = new LLMRateLimiter({
+    buckets: { model: { tokensPerMinute: 1000 } },
+    policy: 'reject',
+  });
+  const llm = createRateLimitedLLMIntegration(
+    createMockLLMIntegration([
+      { response: { type: 'text', content: 'Hi' }, usage: { prompt: 600, completion: 300 } },
+    ]),
+    { limiter, bucket: 'model', estimateTokens: () => 100 },
+  );
+  await call(llm, createParam());
+
+  await expect(limiter.acquire({ bucket: 'model', tokens: 200 })).rejects.toBeInstanceOf(
+    LLMRateLimitExceededError,
+  );
+});
+
+test('createRateLimitedLLMIntegration - refunds the estimated tokens of a failed call', async () => {
+  const limiter = new LLMRateLimiter({
+    buckets: { model: { tokensPerMinute: 1000 } },
+    policy: 'reject',
+  });
+  const llm = createRateLimitedLLMIntegration(
+    async () => {
+      throw new Error('Provider failed');
+    },
+    { limiter, bucket: 'model', estimateTokens: () => 900 },
+  );
+
+  await expect(call(llm, createParam())).rejects.toThrow('Provider failed');
+  await expect(limiter.acquire({ bucket: 'model', tokens: 900 })).resolves.toBeTypeOf('number');
+});
+
+test('createRateLimitedLLMIntegration - streams the throttling of a call which waited', async () => {
+  const limiter = new LLMRateLimiter({ buckets: { model: { requestsPerMinute: 600 } } });
+  for (let i = 0; i < 600; i++) {
+    await limiter.acquire({ bucket: 'model', tokens: 0 });
+  }
+  const events: Parameters<AgentEventStreamer>[0][] = [];
+  const llm = createRateLimitedLLMIntegration(
+    createMockLLMIntegration([{ response: { type: 'text', content: 'Hi' } }]),
+    { limiter, bucket: 'model', estimateTokens: () => 0 },
+  );
+
+  await call(
+    llm,
+    createParam((event) => events.push(event)),
+  );
+
+  expect(events.find((item) => item.type === 'agent.llm.throttled')?.data).toMatchObject({
+    bucket: 'model',
+    estimatedTokens: 0,
+  });
+});
@@ -0,0 +1,87 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { trace } from '@opentelemetry/api';
+import { getOtelHeaderFromSpan } from 'arvo-core';
+import { afterAll, expect, test } from 'vitest';
+import { createMockLLMIntegration } from '../src/Integrations/mock';
+import {
+  createRecordingLLMIntegration,
+  createReplayLLMIntegration,
+  LLMReplayMismatchError,
+} from '../src/Integrations/replay';
+import type { AgentLLMIntegration, AgentLLMIntegrationParam } from '../src/Integrations/types';
+
+const directory = mkdtemp(join(tmpdir(), 'arvo-llm-replay-'));
+
+afterAll(async () => {
+  await rm(await directory, { recursive: true, force: true });
+});
+
+const createParam = (content: string): AgentLLMIntegrationParam => ({
+  lifecycle: 'init',
+  messages: [{ role: 'user', content: { type: 'text', content }, seenCount: 0 }],
+  system: 'You are helpful',
+  tools: [],
+  toolInteractions: { current: 0, max: 5, exhausted: false },
+  outputFormat: { type: 'text' },
+  onStream: () => {},
+});
+
+const call = (llm: AgentLLMIntegration, param: AgentLLMIntegrationParam) => {
+  const span = trace.getTracer('llm.replay.test').startSpan('test');
+  return llm(param, { otelInfo: { span, headers: getOtelHeaderFromSpan(span) } }).finally(() =>
+    span.end(),
+  );
+};
+
+test('createReplayLLMIntegration - serves the recorded interactions in order', async () => {
+  const fixturePath = join(await directory, 'ordered', 'fixture.json');
+  const recording = createRecordingLLMIntegration(
+    createMockLLMIntegration([
+      { response: { type: 'text', content: 'First' } },
+      { response: { type: 'text', content: 'Second' } },
+    ]),
+    { fixturePath },
+  );
+  await call(recording, createParam('Hello'));
+  await call(recording, createParam('Hello'));
+
+  const replay = createReplayLLMIntegration({ fixturePath });
+  const streamed: string[] = [];
+  const param: AgentLLMIntegrationParam = {
+    ...createParam('Hello'),
+    onStream: (event) => streamed.push(event.type),
+  };
+
+  expect(await call(replay, param)).toMatchObject({ content: 'First' });
+  expect(await call(replay, param)).toMatchObject({ content: 'Second' });
+  // The last interaction is served again once all have been served
+  expect(await call(replay, param)).toMatchObject({ content: 'Second' });
+  expect(streamed).toContain('agent.llm.delta.text');
+});
+
+test('createReplayLLMIntegration - fails on a request which diverges from the recording', async () => {
+  const fixturePath = join(await directory, 'divergent', 'fixture.json');
+  await call(
+    createRecordingLLMIntegration(
+      createMockLLMIntegration([{ response: { type: 'text', content: 'Hi' } }]),
+      { fixturePath },
+    ),
+    createParam('Hello'),
+  );
+
+  const replay = createReplayLLMIntegration({ fixturePath });
+  const error = await call(replay, createParam('Goodbye')).catch((e) => e);
+
+  expect(error).toBeInstanceOf(LLMReplayMismatchError);
+  expect((error as LLMReplayMismatchError).request.messages[0].content).toEqual({
+    type: 'text',
+    content: 'Goodbye',
+  });
+  // The seen count of the messages is not part of the fingerprint
+  const [message] = createParam('Hello').messages;
+  expect(
+    await call(replay, { ...createParam('Hello'), messages: [{ ...message, seenCount: 3 }] }),
+  ).toMatchObject({ content: 'Hi' });
+});
@@ -0,0 +1,114 @@
+import { trace } from '@opentelemetry/api';
+import { expect, test } from 'vitest';
+import {
+  classifyLLMError,
+  LLMIntegrationError,
+  readRetryAfterMs,
+} from '../src/Integrations/errors';
+import { invokeWithRetry } from '../src/Integrations/retry';
+
+const providerError = (param: Record<string, unknown>) =>
+  Object.assign(new Error((param.message as string) ?? 'Provider error'), param);
+
+const invoke = <T>(
+  policy: Parameters<typeof invokeWithRetry>[0]['policy'],
+  fn: Parameters<typeof invokeWithRetry<T>>[1],
+) => {
+  const span = trace.getTracer('llm.retry.test').startSpan('test');
+  return invokeWithRetry({ provider: 'openai', policy, span, onStream: () => {} }, fn).finally(() =>
+    span.end(),
+  );
+};
+
+test('classifyLLMError - normalizes the provider errors', () => {
+  expect(classifyLLMError(providerError({ status: 429 }))).toBe('rate_limit');
+  expect(classifyLLMError(providerError({ status: 529 }))).toBe('overloaded');
+  expect(
+    classifyLLMError(providerError({ status: 500, error: { type: 'overloaded_error' } })),
+  ).toBe('overloaded');
+  expect(classifyLLMError(providerError({ status: 503 }))).toBe('server');
+  expect(classifyLLMError(providerError({ status: 401 }))).toBe('auth');
+  expect(classifyLLMError(providerError({ status: 400 }))).toBe('invalid_request');
+  expect(classifyLLMError(providerError({ name: 'APIConnectionTimeoutError' }))).toBe('timeout');
+  expect(classifyLLMError(providerError({ code: 'ECONNREFUSED' }))).toBe('network');
+  expect(classifyLLMError(providerError({ code: 'rate_limit_exceeded' }))).toBe('rate_limit');
+  expect(classifyLLMError(new Error('Unexpected'))).toBe('unknown');
+});
+
+test('classifyLLMError - recognizes the context length and content filter errors', () => {
+  expect(classifyLLMError(providerError({ status: 400, code: 'context_length_exceeded' }))).toBe(
+    'context_length_exceeded',
+  );
+  expect(
+    classifyLLMError(providerError({ status: 400, message: 'prompt is too long: 210000 tokens' })),
+  ).toBe('context_length_exceeded');
+  expect(classifyLLMError(providerError({ status: 400, code: 'content_filter' }))).toBe(
+    'content_filter',
+  );
+});
+
+test('readRetryAfterMs - reads the delay requested by the provider', () => {
+  expect(readRetryAfterMs({ headers: { 'retry-after-ms': '250' } })).toBe(250);
+  expect(readRetryAfterMs({ headers: new Headers({ 'retry-after': '2' }) })).toBe(2000);
+  expect(readRetryAfterMs({ headers: {} })).toBeNull();
+  expect(readRetryAfterMs(new Error('No headers'))).toBeNull();
+});
+
+test('invokeWithRetry - does not retry by default', async () => {
+  let attempts = 0;
+  const error = await invoke(undefined, async () => {
+    attempts++;
+    throw providerError({ status: 503 });
+  }).catch((e) => e);
+
+  expect(attempts).toBe(1);
+  expect(error).toBeInstanceOf(LLMIntegrationError);
+  expect(error).toMatchObject({ provider: 'openai', kind: 'server', status: 503, attempts: 1 });
+});
+
+test('invokeWithRetry - retries the retryable failures as per the policy', async () => {
+  let attempts = 0;
+  const result = await invoke({ maxRetries: 2, initialDelayMs: 1, jitter: false }, async () => {
+    attempts++;
+    if (attempts < 3) throw providerError({ status: 429 });
+    return 'ok';
+  });
+
+  expect(result).toBe('ok');
+  expect(attempts).toBe(3);
+});
+
+test('invokeWithRetry - does not retry a non-retryable failure', async () => {
+  let attempts = 0;
+  const error = await invoke({ maxRetries: 2, initialDelayMs: 1 }, async () => {
+    attempts++;
+    throw providerError({ status: 400 });
+  }).catch((e) => e);
+
+  expect(attempts).toBe(1);
+  expect(error).toMatchObject({ kind: 'invalid_request', retryable: false });
+});
+
+test('invokeWithRetry - does not retry a call which already streamed', async () => {
+  let attempts = 0;
+  const error = await invoke({ maxRetries: 2, initialDelayMs: 1 }, async (onStream) => {
+    attempts++;
+    onStream({
+      type: 'agent.llm.delta.text',
+      data: {
+        comment: 'Generating response',
+        content: 'Par',
+        delta: 'Par',
+        meta: {
+          error: null,
+          token: { prompt: 0, completion: 0 },
+          otel: { traceparent: null, tracestate: null },
+        },
+      },
+    });
+    throw providerError({ status: 503 });
+  }).catch((e) => e);
+
+  expect(attempts).toBe(1);
+  expect(error).toMatchObject({ kind: 'server', retryable: true });
+});
@@ -0,0 +1,124 @@
+import { trace } from '@opentelemetry/api';
+import { getOtelHeaderFromSpan } from 'arvo-core';
+import { expect, test } from 'vitest';
+import { createMockLLMIntegration } from '../src/Integrations/mock';
+import { createRouterLLMIntegration } from '../src/Integrations/router';
+import type { AgentLLMIntegration, AgentLLMIntegrationParam } from '../src/Integrations/types';
+
+const createParam = (param: Partial<AgentLLMIntegrationParam>): AgentLLMIntegrationParam => ({
+  lifecycle: 'init',
+  messages: [{ role: 'user', content: { type: 'text', content: 'Hello' }, seenCount: 0 }],
+  system: null,
+  tools: [],
+  toolInteractions: { current: 0, max: 5, exhausted: false },
+  outputFormat: { type: 'text' },
+  onStream: () => {},
+  ...param,
+});
+
+const createRouter = () => {
+  const answer = (content: string) =>
+    createMockLLMIntegration([
+      { response: { type: 'text', content }, times: Number.POSITIVE_INFINITY },
+    ]);
+  return createRouterLLMIntegration({
+    routes: [
+      { name: 'correction', lifecycle: 'output_error_feedback', llm: answer('correction') },
+      { name: 'wrap-up', toolInteractions: { exhausted: true }, llm: answer('wrap-up') },
+      { name: 'deep', toolInteractions: { min: 3 }, llm: answer('deep') },
+      {
+        name: 'long',
+        when: (param) => param.messages.length > 2,
+        llm: answer('long'),
+      },
+    ],
+    fallback: { name: 'default', llm: answer('default') },
+  });
+};
+
+const route = async (param: Partial<AgentLLMIntegrationParam>) => {
+  const span = trace.getTracer('llm.router.test').startSpan('test');
+  const output = await createRouter()(createParam(param), {
+    otelInfo: { span, headers: getOtelHeaderFromSpan(span) },
+  });
+  span.end();
+  return output.type === 'text' ? output.content : null;
+};
+
+test('createRouterLLMIntegration - serves the request with the first matching route', async () => {
+  expect(await route({ lifecycle: 'output_error_feedback' })).toBe('correction');
+  expect(
+    await route({
+      lifecycle: 'output_error_feedback',
+      toolInteractions: { current: 5, max: 5, exhausted: true },
+    }),
+  ).toBe('correction');
+  expect(
+    await route({
+      lifecycle: 'tool_result',
+      toolInteractions: { current: 5, max: 5, exhausted: true },
+    }),
+  ).toBe('wrap-up');
+  expect(
+    await route({
+      lifecycle: 'tool_result',
+      toolInteractions: { current: 3, max: 5, exhausted: false },
+    }),
+  ).toBe('deep');
+});
+
+test('createRouterLLMIntegration - evaluates the predicate of a route', async () => {
+  const message = createParam({}).messages[0];
+
+  expect(await route({ messages: [message, message, message] })).toBe('long');
+});
+
+test('createRouterLLMIntegration - falls back when no route matches', async () => {
+  expect(await route({})).toBe('default');
+});
+
+test('createRouterLLMIntegration - hands the state back only to the route which returned it', async () => {
+  const received: { route: string; state: unknown }[] = [];
+  const stateful =
+    (name: string): AgentLLMIntegration =>
+    async (param) => {
+      received.push({ route: name, state: param.state ?? null });
+      return {
+        type: 'text',
+        content: name,
+        usage: { tokens: { prompt: 0, completion: 0 } },
+        executionUnits: 0,
+        state: { responseId: `${name}-${received.length}` },
+      };
+    };
+  const llm = createRouterLLMIntegration({
+    routes: [
+      { name: 'correction', lifecycle: 'output_error_feedback', llm: stateful('correction') },
+    ],
+    fallback: { name: 'default', llm: stateful('default') },
+  });
+  const llmState: { current: Record<string, unknown> | null } = { current: null };
+  const span = trace.getTracer('llm.router.test').startSpan('test');
+  for (const lifecycle of [
+    'init',
+    'tool_result',
+    'output_error_feedback',
+    'tool_result',
+  ] as const) {
+    const output = await llm(createParam({ lifecycle, state: llmState.current }), {
+      otelInfo: { span, headers: getOtelHeaderFromSpan(span) },
+    });
+    llmState.current = output.state ?? null;
+  }
+  span.end();
+
+  expect(received).toEqual([
+    { route: 'default', state: null },
+    { route: 'default', state: { responseId: 'default-1' } },
+    { route: 'correction', state: null },
+    { route: 'default', state: null },
+  ]);
+  expect(llmState.current).toEqual({
+    router: { route: 'default', state: { responseId: 'default-4' } },
+  });
+});
@@ -0,0 +1,17 @@
+import { trace } from '@opentelemetry/api';
+import { getOtelHeaderFromSpan } from 'arvo-core';
+import { expect, test } from 'vitest';
+import { MCPClient } from '../src/Integrations/MCPClient';
+
+test('MCPClient - throws when a tool call fails, so the execution policy can retry it', async () => {
+  const span = trace.getTracer('mcp.client.test').startSpan('test');
+  const client = new MCPClient({ url: 'http://localhost:1/mcp' });
+
+  await expect(
+    client.invokeTool(
+      { name: 'search', arguments: { query: 'arvo' } },
+      { otelInfo: { span, headers: getOtelHeaderFromSpan(span) } },
+    ),
+  ).rejects.toThrow('Error occurred while invoking MCP tool <search@http://localhost:1/mcp>');
+  span.end();
+});
@@ -0,0 +1,140 @@
+import { expect, test } from 'vitest';
+import type { AgentMessage } from '../src/Agent/types';
+import {
+  fingerprintMessages,
+  formatMessagesForOpenAIResponses,
+  resolveResponseChain,
+} from '../src/Integrations/openaiResponses/utils';
+
+const messages: AgentMessage[] = [
+  { role: 'user', content: { type: 'text', content: 'Hello' }, seenCount: 0 },
+  {
+    role: 'assistant',
+    content: {
+      type: 'thinking',
+      content: 'I need a tool',
+      signature: 'encrypted',
+      redacted: false,
+      id: 'rs_1',
+    },
+    seenCount: 0,
+  },
+  {
+    role: 'assistant',
+    content: { type: 'tool_use', toolUseId: 'call-1', name: 'echo', input: { text: 'a' } },
+    seenCount: 0,
+  },
+  {
+    role: 'user',
+    content: { type: 'tool_result', toolUseId: 'call-1', content: 'a' },
+    seenCount: 0,
+  },
+];
+
+test('formatMessagesForOpenAIResponses - maps the messages to the input items', () => {
+  expect(
+    formatMessagesForOpenAIResponses([
+      ...messages,
+      {
+        role: 'assistant',
+        content: { type: 'thinking', content: 'Anthropic', signature: 'sig', redacted: false },
+        seenCount: 0,
+      },
+      { role: 'assistant', content: { type: 'text', content: 'Done' }, seenCount: 0 },
+    ]),
+  ).toEqual([
+    { role: 'user', content: 'Hello' },
+    {
+      type: 'reasoning',
+      id: 'rs_1',
+      summary: [{ type: 'summary_text', text: 'I need a tool' }],
+      encrypted_content: 'encrypted',
+    },
+    { type: 'function_call', call_id: 'call-1', name: 'echo', arguments: '{"text":"a"}' },
+    { type: 'function_call_output', call_id: 'call-1', output: 'a' },
+    { role: 'assistant', content: 'Done' },
+  ]);
+});
+
+test('formatMessagesForOpenAIResponses - sends the result of a call made by the previous response', () => {
+  expect(formatMessagesForOpenAIResponses(messages.slice(3))).toEqual([
+    { type: 'function_call_output', call_id: 'call-1', output: 'a' },
+  ]);
+});
+
+test('resolveResponseChain - returns the user messages added since the previous response', () => {
+  const state = {
+    openaiResponses: {
+      responseId: 'resp_1',
+      messageCount: 1,
+      fingerprint: fingerprintMessages(messages.slice(0, 1)),
+    },
+  };
+
+  expect(resolveResponseChain(state, messages)).toEqual({
+    responseId: 'resp_1',
+    messages: [messages[3]],
+  });
+  // The seen count of the messages does not break the chain
+  expect(
+    resolveResponseChain(state, [{ ...messages[0], seenCount: 2 }, ...messages.slice(1)])
+      ?.responseId,
+  ).toBe('resp_1');
+});
+
+test('resolveResponseChain - answers the calls of the previous response the agent dropped', () => {
+  const state = {
+    openaiResponses: {
+      responseId: 'resp_1',
+      messageCount: 1,
+      fingerprint: fingerprintMessages(messages.slice(0, 1)),
+      toolCallIds: ['call-1', 'call-2'],
+    },
+  };
+  const chain = resolveResponseChain(state, messages);
+
+  expect(chain?.messages).toEqual([
+    {
+      role: 'user',
+      content: {
+        type: 'tool_result',
+        toolUseId: 'call-2',
+        content: '[Not executed] The agent did not execute this tool call.',
+      },
+      seenCount: 0,
+    },
+    messages[3],
+  ]);
+  expect(formatMessagesForOpenAIResponses(chain?.messages ?? [])).toEqual([
+    {
+      type: 'function_call_output',
+      call_id: 'call-2',
+      output: '[Not executed] The agent did not execute this tool call.',
+    },
+    { type: 'function_call_output', call_id: 'call-1', output: 'a' },
+  ]);
+});
+
+test('resolveResponseChain - resets the chain when the history was rewritten', () => {
+  const state = {
+    openaiResponses: {
+      responseId: 'resp_1',
+      messageCount: 2,
+      fingerprint: fingerprintMessages(messages.slice(0, 2)),
+    },
+  };
+
+  expect(resolveResponseChain(null, messages)).toBeNull();
+  expect(resolveResponseChain({ openaiResponses: null }, messages)).toBeNull();
+  expect(resolveResponseChain(state, messages.slice(0, 1))).toBeNull();
+  expect(
+    resolveResponseChain(state, [
+      {
+        role: 'user',
+        content: { type: 'text', content: 'Summary of the conversation' },
+        seenCount: 0,
+      },
+      ...messages.slice(1),
+    ]),
+  ).toBeNull();
+});
@@ -0,0 +1,108 @@
+import { trace } from '@opentelemetry/api';
+import { getOtelHeaderFromSpan } from 'arvo-core';
+import { expect, test } from 'vitest';
+import { createPlan, createPlanTool, renderPlan } from '../src/Agent/planning';
+import type { AgentEventStreamer } from '../src/Agent/stream/types';
+import type { AgentPlan, AgentToolDefinition } from '../src/Agent/types';
+import { createMockLLMIntegration } from '../src/Integrations/mock';
+
+const createConfig = () => {
+  const span = trace.getTracer('planning.test').startSpan('test');
+  return { otelInfo: { span, headers: getOtelHeaderFromSpan(span) } };
+};
+
+const lookupTool: AgentToolDefinition = {
+  name: 'internal_lookup',
+  description: 'Looks up an order',
+  inputSchema: { type: 'object', properties: {} },
+  serverConfig: { kind: 'internal', name: 'lookup', key: ['lookup'], contract: null, priority: 0 },
+};
+
+test('createPlan - numbers the steps of the plan written by the planner', async () => {
+  const llm = createMockLLMIntegration([
+    {
+      expect: (param) => {
+        const [request] = param.messages;
+        expect(param.tools).toEqual([]);
+        expect(param.outputFormat.type).toBe('json');
+        expect(request.content).toMatchObject({ type: 'text' });
+        expect(JSON.stringify(request.content)).toContain('internal_lookup: Looks up an order');
+        expect(JSON.stringify(request.content)).toContain('[user] Refund order 42');
+      },
+      response: { type: 'json', content: { steps: ['Look up the order', 'Refund it'] } },
+      usage: { prompt: 20, completion: 10 },
+    },
+  ]);
+
+  const planning = await createPlan(
+    {
+      messages: [
+        { role: 'user', content: { type: 'text', content: 'Refund order 42' }, seenCount: 0 },
+      ],
+      system: 'You handle refunds',
+      tools: [lookupTool],
+      config: {},
+      llm,
+    },
+    createConfig(),
+  );
+
+  llm.assertAllStepsUsed();
+  expect(planning).toEqual({
+    plan: {
+      steps: [
+        { id: 1, description: 'Look up the order', status: 'pending', note: null },
+        { id: 2, description: 'Refund it', status: 'pending', note: null },
+      ],
+    },
+    usage: { prompt: 20, completion: 10 },
+    executionUnits: 30,
+  });
+});
+
+test('createPlan - rejects a plan with more steps than allowed', async () => {
+  const llm = createMockLLMIntegration([
+    { response: { type: 'json', content: { steps: ['a', 'b', 'c'] } } },
+  ]);
+
+  await expect(
+    createPlan(
+      { messages: [], system: null, tools: [], config: { maxSteps: 2 }, llm },
+      createConfig(),
+    ),
+  ).rejects.toThrow('The planner LLM responded with an invalid plan');
+});
+
+test('createPlanTool - updates the steps in place and streams the updated plan', async () => {
+  const holder: { current: AgentPlan | null } = {
+    current: {
+      steps: [
+        { id: 1, description: 'Look up the order', status: 'pending', note: null },
+        { id: 2, description: 'Refund it', status: 'pending', note: null },
+      ],
+    },
+  };
+  const events: Parameters<AgentEventStreamer>[0][] = [];
+  const tool = createPlanTool(holder);
+
+  await tool.fn(
+    { updates: [{ id: 1, status: 'completed', note: 'Found it' }], add: ['Notify the user'] },
+    { ...createConfig(), onStream: (event) => events.push(event) },
+  );
+
+  expect(holder.current?.steps.map((item) => [item.id, item.status, item.note])).toEqual([
+    [1, 'completed', 'Found it'],
+    [2, 'pending', null],
+    [3, 'pending', null],
+  ]);
+  expect(events[0]).toMatchObject({
+    type: 'agent.plan.updated',
+    data: { updatedStepIds: [1, 3] },
+  });
+  expect(renderPlan(holder.current as AgentPlan, 'internal_update_plan')).toContain(
+    'internal_update_plan',
+  );
+  await expect(
+    tool.fn({ updates: [{ id: 9, status: 'completed' }], add: [] }, createConfig()),
+  ).rejects.toThrow('The plan has no step with the id 9');
+});
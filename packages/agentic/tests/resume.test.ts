@@ -0,0 +1,64 @@
+import { expect, test } from 'vitest';
+import type { AgentState } from '../src/Agent';
+import { getResumeThreshold, shouldKeepWaiting } from '../src/Agent/resume';
+
+const awaiting = (calls: [string, boolean][]): AgentState['awaitingToolCalls'] =>
+  Object.fromEntries(
+    calls.map(([type, arrived], index) => [
+      `call-${index}`,
+      { type, data: arrived ? { value: index } : null },
+    ]),
+  ) as AgentState['awaitingToolCalls'];
+
+test('getResumeThreshold - converts the resume strategies', () => {
+  expect(getResumeThreshold('all')).toBe(Number.POSITIVE_INFINITY);
+  expect(getResumeThreshold('each')).toBe(1);
+  expect(getResumeThreshold('quorum:3')).toBe(3);
+});
+
+test('getResumeThreshold - returns null for a malformed strategy', () => {
+  expect(getResumeThreshold('quorum:0')).toBeNull();
+  expect(getResumeThreshold('quorum:-1')).toBeNull();
+  expect(getResumeThreshold('some' as 'all')).toBeNull();
+});
+
+test('shouldKeepWaiting - resumes once every awaited call has a response', () => {
+  expect(
+    shouldKeepWaiting({
+      awaitingToolCalls: awaiting([
+        ['service.a', true],
+        ['service.b', true],
+      ]),
+      threshold: Number.POSITIVE_INFINITY,
+      permissionRequestType: null,
+    }),
+  ).toBe(false);
+});
+
+test('shouldKeepWaiting - waits until the threshold of responses arrived', () => {
+  const param = {
+    awaitingToolCalls: awaiting([
+      ['service.a', true],
+      ['service.b', false],
+      ['service.c', false],
+    ]),
+    permissionRequestType: null,
+  };
+
+  expect(shouldKeepWaiting({ ...param, threshold: Number.POSITIVE_INFINITY })).toBe(true);
+  expect(shouldKeepWaiting({ ...param, threshold: 2 })).toBe(true);
+  expect(shouldKeepWaiting({ ...param, threshold: 1 })).toBe(false);
+});
+
+test('shouldKeepWaiting - holds the agent while a permission request is pending', () => {
+  expect(
+    shouldKeepWaiting({
+      awaitingToolCalls: awaiting([
+        ['service.a', true],
+        ['permission.request', false],
+      ]),
+      threshold: 1,
+      permissionRequestType: 'permission.request',
+    }),
+  ).toBe(true);
+});
@@ -0,0 +1,126 @@
+import { trace } from '@opentelemetry/api';
+import { createArvoOrchestratorContract, getOtelHeaderFromSpan } from 'arvo-core';
+import { expect, test } from 'vitest';
+import z from 'zod';
+import { AgentDefaults } from '../src/Agent/AgentDefaults';
+import { createSubAgentTool } from '../src/Agent/subAgentTool';
+import type { AgentPlanningConfig } from '../src/Agent/types';
+import type { AgentInternalToolExecutionConfig } from '../src/AgentTool/types';
+import { createMockLLMIntegration } from '../src/Integrations/mock';
+import type { AgentLLMIntegration } from '../src/Integrations/types';
+
+const summarizerContract = createArvoOrchestratorContract({
+  uri: '#/test/agent/summarizer',
+  name: 'agent.summarizer',
+  versions: {
+    '1.0.0': {
+      init: z.object({ text: z.string() }),
+      complete: z.object({ response: z.string() }),
+    },
+  },
+});
+
+const runSummarizer = async (
+  llm: AgentLLMIntegration,
+  config: Omit<AgentInternalToolExecutionConfig, 'otelInfo'>,
+  planning?: AgentPlanningConfig,
+) => {
+  const tool = createSubAgentTool(
+    {
+      contracts: { self: summarizerContract, services: {} },
+      llm,
+      maxToolInteractions: 1,
+      handler: {
+        '1.0.0': {
+          context: AgentDefaults.CONTEXT_BUILDER(() => 'Summarize the text'),
+          output: AgentDefaults.OUTPUT_BUILDER,
+          planning,
+        },
+      },
+    },
+    { version: '1.0.0', name: 'summarize' },
+  );
+  const span = trace.getTracer('subagent.tool.test').startSpan('test');
+  try {
+    return await tool.fn(
+      { text: 'A long text' },
+      { otelInfo: { span, headers: getOtelHeaderFromSpan(span) }, ...config },
+    );
+  } finally {
+    span.end();
+  }
+};
+
+test('createSubAgentTool - reports the usage of a run which succeeded', async () => {
+  const reports: unknown[] = [];
+  const llm = createMockLLMIntegration([
+    { response: { type: 'text', content: 'Short' }, usage: { prompt: 10, completion: 5 } },
+  ]);
+
+  expect(await runSummarizer(llm, { reportUsage: (usage) => reports.push(usage) })).toEqual({
+    response: 'Short',
+  });
+  expect(reports).toEqual([{ executionUnits: 15, tokens: { prompt: 10, completion: 5 } }]);
+});
+
+test('createSubAgentTool - reports the usage of a run which failed', async () => {
+  const reports: unknown[] = [];
+  const llm = createMockLLMIntegration([
+    {
+      response: { type: 'tool_call', toolRequests: [{ name: 'internal_missing', input: {} }] },
+      usage: { prompt: 10, completion: 5 },
+      times: Number.POSITIVE_INFINITY,
+    },
+  ]);
+
+  await expect(runSummarizer(llm, { reportUsage: (usage) => reports.push(usage) })).rejects.toThrow(
+    'Tool calls exhausted the max quota',
+  );
+  const calls = llm.calls.length;
+  expect(calls).toBeGreaterThan(0);
+  expect(reports).toEqual([
+    { executionUnits: 15 * calls, tokens: { prompt: 10 * calls, completion: 5 * calls } },
+  ]);
+});
+
+test('createSubAgentTool - stops at the next step once its call is aborted', async () => {
+  const controller = new AbortController();
+  const llm = createMockLLMIntegration([
+    {
+      expect: () => controller.abort(new Error('The call timed out')),
+      response: { type: 'tool_call', toolRequests: [{ name: 'internal_missing', input: {} }] },
+    },
+    { response: { type: 'text', content: 'Short' } },
+  ]);
+
+  await expect(runSummarizer(llm, { signal: controller.signal })).rejects.toThrow(
+    'The call timed out',
+  );
+  expect(llm.calls).toHaveLength(1);
+});
+
+test('createSubAgentTool - plans without the plan tool and tracks the plan with it', async () => {
+  const llm = createMockLLMIntegration([
+    {
+      expect: (param) => {
+        expect(param.outputFormat.type).toBe('json');
+        expect(JSON.stringify(param.messages)).not.toContain('update_plan');
+      },
+      response: { type: 'json', content: { steps: ['Summarize the text'] } },
+      usage: { prompt: 4, completion: 2 },
+    },
+    {
+      expect: (param) =>
+        expect(param.tools.map((item) => item.name)).toContain('internal_update_plan'),
+      response: { type: 'text', content: 'Short' },
+      usage: { prompt: 10, completion: 5 },
+    },
+  ]);
+  const reports: unknown[] = [];
+
+  expect(await runSummarizer(llm, { reportUsage: (usage) => reports.push(usage) }, {})).toEqual({
+    response: 'Short',
+  });
+  llm.assertAllStepsUsed();
+  expect(reports).toEqual([{ executionUnits: 21, tokens: { prompt: 14, completion: 7 } }]);
+});
@@ -0,0 +1,160 @@
+import { expect, test } from 'vitest';
+import { createConcurrencyLimiter, executeToolWithPolicy } from '../src/Agent/utils';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test('createConcurrencyLimiter - runs at most max operations at once, in FIFO order', async () => {
+  const limit = createConcurrencyLimiter(2);
+  let active = 0;
+  let peak = 0;
+  const started: number[] = [];
+  const results = await Promise.all(
+    [1, 2, 3, 4, 5].map((id) =>
+      limit(async () => {
+        started.push(id);
+        active++;
+        peak = Math.max(peak, active);
+        await sleep(20);
+        active--;
+        return id;
+      }),
+    ),
+  );
+
+  expect(results).toEqual([1, 2, 3, 4, 5]);
+  expect(started).toEqual([1, 2, 3, 4, 5]);
+  expect(peak).toBe(2);
+});
+
+test('createConcurrencyLimiter - frees the slot when an operation throws', async () => {
+  const limit = createConcurrencyLimiter(1);
+
+  await expect(
+    limit(async () => {
+      throw new Error('boom');
+    }),
+  ).rejects.toThrow('boom');
+  expect(await limit(async () => 'next')).toBe('next');
+});
+
+test('executeToolWithPolicy - returns the result of a successful call', async () => {
+  const result = await executeToolWithPolicy({
+    policy: { timeoutMs: 100 },
+    execute: async () => 'ok',
+    onTimeout: () => {},
+  });
+
+  expect(result).toBe('ok');
+});
+
+test('executeToolWithPolicy - returns the failure as a structured error JSON', async () => {
+  const result = await executeToolWithPolicy({
+    policy: {},
+    execute: async () => {
+      throw new TypeError('Bad input');
+    },
+    onTimeout: () => {},
+  });
+
+  expect(JSON.parse(result)).toEqual({ type: 'error', name: 'TypeError', message: 'Bad input' });
+});
+
+test('executeToolWithPolicy - retries failed attempts with exponential backoff', async () => {
+  const attemptedAt: number[] = [];
+  const result = await executeToolWithPolicy({
+    policy: { retry: { maxRetries: 2, initialDelayMs: 40, backoffExponent: 2 } },
+    execute: async () => {
+      attemptedAt.push(Date.now());
+      if (attemptedAt.length < 3) throw new Error('Flaky');
+      return 'recovered';
+    },
+    onTimeout: () => {},
+  });
+
+  expect(result).toBe('recovered');
+  expect(attemptedAt).toHaveLength(3);
+  expect(attemptedAt[1] - attemptedAt[0]).toBeGreaterThanOrEqual(35);
+  expect(attemptedAt[2] - attemptedAt[1]).toBeGreaterThanOrEqual(75);
+});
+
+test('executeToolWithPolicy - aborts a timed out attempt before retrying it', async () => {
+  const timeouts: { attempt: number; willRetry: boolean }[] = [];
+  let running = 0;
+  let peak = 0;
+  let aborted = 0;
+  const result = await executeToolWithPolicy({
+    policy: { timeoutMs: 50, retry: { maxRetries: 1, initialDelayMs: 0 } },
+    execute: (signal) => {
+      running++;
+      peak = Math.max(peak, running);
+      return new Promise<string>((_, reject) => {
+        signal.addEventListener('abort', () => {
+          aborted++;
+          setTimeout(() => {
+            running--;
+            reject(signal.reason);
+          }, 10);
+        });
+      });
+    },
+    onTimeout: ({ attempt, willRetry }) => timeouts.push({ attempt, willRetry }),
+  });
+
+  expect(JSON.parse(result)).toMatchObject({ type: 'error', name: 'ToolTimeoutError' });
+  expect(timeouts).toEqual([
+    { attempt: 1, willRetry: true },
+    { attempt: 2, willRetry: false },
+  ]);
+  expect(aborted).toBe(2);
+  expect(peak).toBe(1);
+});
+
+test('executeToolWithPolicy - does not retry an attempt which ignores the abort', async () => {
+  const timeouts: { attempt: number; willRetry: boolean }[] = [];
+  let attempts = 0;
+  const result = await executeToolWithPolicy({
+    policy: { timeoutMs: 30, retry: { maxRetries: 2, initialDelayMs: 0 } },
+    execute: () => {
+      attempts++;
+      return new Promise<string>(() => {});
+    },
+    onTimeout: ({ attempt, willRetry }) => timeouts.push({ attempt, willRetry }),
+  });
+
+  expect(JSON.parse(result)).toMatchObject({ type: 'error', name: 'ToolTimeoutError' });
+  expect(attempts).toBe(1);
+  expect(timeouts).toEqual([{ attempt: 1, willRetry: false }]);
+});
+
+test('executeToolWithPolicy - holds the parallelism slot until a timed out call settles', async () => {
+  const limiter = createConcurrencyLimiter(1);
+  let releaseSlow: () => void = () => {};
+  const slow = executeToolWithPolicy({
+    policy: { timeoutMs: 20 },
+    limiter,
+    execute: () =>
+      new Promise<string>((resolve) => {
+        releaseSlow = () => resolve('late');
+      }),
+    onTimeout: () => {},
+  });
+  expect(JSON.parse(await slow)).toMatchObject({ name: 'ToolTimeoutError' });
+
+  let fastStarted = false;
+  const fast = executeToolWithPolicy({
+    policy: { timeoutMs: 20 },
+    limiter,
+    execute: async () => {
+      fastStarted = true;
+      return 'fast';
+    },
+    onTimeout: () => {},
+  });
+  await sleep(50);
+  // The timeout of a queued call only starts once it holds the slot
+  expect(fastStarted).toBe(false);
+
+  releaseSlow();
+  expect(await fast).toBe('fast');
+  expect(fastStarted).toBe(true);
+});
@@ -0,0 +1,59 @@
+import { expect, test } from 'vitest';
+import { createToolCacheKey, isToolErrorResult } from '../src/Agent/toolResultCache';
+import { stableStringify } from '../src/Agent/utils';
+
+const keyParam = {
+  tool: 'com.weather.lookup',
+  input: { city: 'Paris', units: 'metric' },
+  subject: 'subject-1',
+  rootSubject: 'root-1',
+};
+
+test('stableStringify - sorts the keys and drops the undefined values', () => {
+  expect(stableStringify({ b: 1, a: { d: [1, { f: 2, e: 1 }], c: undefined } })).toBe(
+    '{"a":{"d":[1,{"e":1,"f":2}]},"b":1}',
+  );
+  expect(stableStringify(undefined)).toBe('null');
+});
+
+test('createToolCacheKey - keys the call by the scope owner, the tool and the arguments', () => {
+  const key = createToolCacheKey({ ...keyParam, policy: { ttlMs: 1000 } });
+
+  expect(key).toMatch(/^arvo\.tool\.cache:subject:subject-1:com\.weather\.lookup:[0-9a-f]{64}$/);
+  expect(
+    createToolCacheKey({ ...keyParam, policy: { ttlMs: 1000, scope: 'root_subject' } }),
+  ).toMatch(/^arvo\.tool\.cache:root_subject:root-1:/);
+  expect(createToolCacheKey({ ...keyParam, policy: { ttlMs: 1000, scope: 'global' } })).toMatch(
+    /^arvo\.tool\.cache:global:global:/,
+  );
+});
+
+test('createToolCacheKey - ignores the key order and the parentSubject$$ of the arguments', () => {
+  const policy = { ttlMs: 1000 };
+  const key = createToolCacheKey({ ...keyParam, policy });
+
+  expect(
+    createToolCacheKey({
+      ...keyParam,
+      input: { units: 'metric', city: 'Paris', parentSubject$$: 'parent-1' },
+      policy,
+    }),
+  ).toBe(key);
+  expect(
+    createToolCacheKey({ ...keyParam, input: { city: 'Rome', units: 'metric' }, policy }),
+  ).not.toBe(key);
+});
+
+test('isToolErrorResult - detects the structured and MCP errors', () => {
+  expect(isToolErrorResult(JSON.stringify({ type: 'error', name: 'Error', message: 'x' }))).toBe(
+    true,
+  );
+  expect(isToolErrorResult(JSON.stringify({ isError: true, content: [] }))).toBe(true);
+  expect(isToolErrorResult(JSON.stringify(JSON.stringify({ type: 'error' })))).toBe(true);
+});
+
+test('isToolErrorResult - treats other results as successful', () => {
+  expect(isToolErrorResult(JSON.stringify({ type: 'result', value: 1 }))).toBe(false);
+  expect(isToolErrorResult('Plain text result')).toBe(false);
+  expect(isToolErrorResult('null')).toBe(false);
+});
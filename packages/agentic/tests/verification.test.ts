@@ -0,0 +1,93 @@
+import { trace } from '@opentelemetry/api';
+import { getOtelHeaderFromSpan } from 'arvo-core';
+import { expect, test } from 'vitest';
+import type { AgentMessage } from '../src/Agent/types';
+import { verifyOutput } from '../src/Agent/verification';
+import { createMockLLMIntegration } from '../src/Integrations/mock';
+
+const createConfig = () => {
+  const span = trace.getTracer('verification.test').startSpan('test');
+  return { otelInfo: { span, headers: getOtelHeaderFromSpan(span) } };
+};
+
+const messages: AgentMessage[] = [
+  { role: 'user', content: { type: 'text', content: 'Refund order 42' }, seenCount: 0 },
+];
+
+test('verifyOutput - judges the output against the rubric with the LLM', async () => {
+  const llm = createMockLLMIntegration([
+    {
+      expect: (param) => {
+        const request = JSON.stringify(param.messages[0].content);
+        expect(param.outputFormat.type).toBe('json');
+        expect(request).toContain('Mentions the order number');
+        expect(request).toContain('[user] Refund order 42');
+        expect(request).toContain('Refunded');
+      },
+      response: {
+        type: 'json',
+        content: { approved: false, score: 0.4, feedback: 'Name the order' },
+      },
+      usage: { prompt: 30, completion: 10 },
+    },
+  ]);
+
+  const result = await verifyOutput(
+    {
+      output: { response: 'Refunded' },
+      messages,
+      system: null,
+      config: { rubric: 'Mentions the order number' },
+      llm,
+    },
+    createConfig(),
+  );
+
+  llm.assertAllStepsUsed();
+  expect(result).toEqual({
+    verdict: { approved: false, score: 0.4, feedback: 'Name the order' },
+    usage: { prompt: 30, completion: 10 },
+    executionUnits: 40,
+  });
+});
+
+test('verifyOutput - lets a custom verifier decide without an LLM call', async () => {
+  const llm = createMockLLMIntegration([]);
+
+  const result = await verifyOutput(
+    {
+      output: { response: 'Order 42 was refunded' },
+      messages,
+      system: null,
+      config: {
+        verify: ({ output }) => ({
+          approved: String(output.response).includes('42'),
+          score: null,
+          feedback: null,
+        }),
+      },
+      llm,
+    },
+    createConfig(),
+  );
+
+  expect(llm.calls).toHaveLength(0);
+  expect(result).toEqual({
+    verdict: { approved: true, score: null, feedback: null },
+    usage: { prompt: 0, completion: 0 },
+    executionUnits: 0,
+  });
+});
+
+test('verifyOutput - fails on a verdict which does not match the schema', async () => {
+  const llm = createMockLLMIntegration([
+    { response: { type: 'json', content: { approved: true, score: 3, feedback: null } } },
+  ]);
+
+  await expect(
+    verifyOutput(
+      { output: {}, messages, system: null, config: { rubric: 'Anything' }, llm },
+      createConfig(),
+    ),
+  ).rejects.toThrow('The verifier LLM responded with an invalid verdict');
+});
@@ -0,0 +1,103 @@
+import { logToSpan } from 'arvo-core';
+import type { ConcurrentToolResultCacheConfig } from './types';
+
+/**
+ * In-process implementation of the tool result cache of `@arvo-tools/agentic` agents.
+ *
+ * Stores the results of cacheable tools in a map with a per-entry expiry. Expired entries
+ * are never returned and are removed lazily when read, or when the cache is full. The
+ * insertion order of the map is used to evict the oldest entries once `maxEntries` is reached.
+ *
+ * This implementation is designed for in-process use only. The cached results are not
+ * shared across processes or servers and do not survive a restart.
+ *
+ * @example
+ * ```typescript
+ * const agent = createArvoAgent({
+ *   contracts: { self: myAgentContract, services: {...} },
+ *   memory: new ConcurrentMachineMemory(),
+ *   toolResultCache: { store: new ConcurrentToolResultCache({ maxEntries: 1000 }) },
+ *   handler: {...}
+ * });
+ * ```
+ */
+export class ConcurrentToolResultCache {
+  private readonly entries: Map<string, { content: string; expiresAt: number }> = new Map();
+  readonly maxEntries: number;
+
+  /**
+   * Creates a new ConcurrentToolResultCache instance.
+   *
+   * @param config - Configuration options for the cache size
+   */
+  constructor(config?: ConcurrentToolResultCacheConfig) {
+    this.maxEntries = config?.maxEntries ?? 10000;
+  }
+
+  /**
+   * Retrieves the cached content of a key, or null when no unexpired entry exists.
+   */
+  async get(param: { key: string }): Promise<string | null> {
+    let entry = this.entries.get(param.key) ?? null;
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(param.key);
+      entry = null;
+    }
+    logToSpan({
+      level: 'INFO',
+      message: `Tool result cache read for key: ${param.key}, hit: ${entry !== null}`,
+    });
+    return entry?.content ?? null;
+  }
+
+  /**
+   * Stores content under a key for ttlMs milliseconds, replacing any existing entry.
+   */
+  async set(param: { key: string; content: string; ttlMs: number }): Promise<void> {
+    if (!param.key) {
+      throw new Error('Key is required for the tool result cache set operation');
+    }
+    // Re-inserting moves the key to the end of the eviction order
+    this.entries.delete(param.key);
+    if (this.entries.size >= this.maxEntries) {
+      this.prune();
+    }
+    while (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next();
+      if (oldest.done) break;
+      this.entries.delete(oldest.value);
+    }
+    this.entries.set(param.key, {
+      content: param.content,
+      expiresAt: Date.now() + param.ttlMs,
+    });
+    logToSpan({
+      level: 'INFO',
+      message: `Tool result cached for key: ${param.key}, ttlMs: ${param.ttlMs}`,
+    });
+  }
+
+  /**
+   * Removes all the expired entries.
+   *
+   * @returns The number of removed entries
+   */
+  prune(): number {
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Removes all the entries.
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Configuration options for ConcurrentToolResultCache.
+ */
+export type ConcurrentToolResultCacheConfig = {
+  /**
+   * Maximum number of entries held in the cache. When a new entry would exceed it,
+   * the expired entries are removed first and then the oldest entries.
+   * @default 10000
+   */
+  maxEntries?: number;
+};
@@ -17,3 +17,5 @@ export type {
 export { ConcurrentMachineMemory } from './ConcurrentMachineMemory';
 export { TTLMutex } from './ConcurrentMachineMemory/TTLMutex';
 export type { ConcurrentMachineMemoryConfig } from './ConcurrentMachineMemory/types';
+export { ConcurrentToolResultCache } from './ConcurrentToolResultCache';
+export type { ConcurrentToolResultCacheConfig } from './ConcurrentToolResultCache/types';
@@ -0,0 +1,60 @@
+import { expect, test } from 'vitest';
+import { ConcurrentToolResultCache } from '../src';
+
+test('ConcurrentToolResultCache - returns the cached content within the TTL', async () => {
+  const cache = new ConcurrentToolResultCache();
+
+  expect(await cache.get({ key: 'tool-a' })).toBe(null);
+
+  await cache.set({ key: 'tool-a', content: 'result-a', ttlMs: 5000 });
+  expect(await cache.get({ key: 'tool-a' })).toBe('result-a');
+  expect(await cache.get({ key: 'tool-b' })).toBe(null);
+});
+
+test('ConcurrentToolResultCache - expired entries are not returned', async () => {
+  const cache = new ConcurrentToolResultCache();
+
+  await cache.set({ key: 'tool-a', content: 'result-a', ttlMs: 100 });
+  expect(await cache.get({ key: 'tool-a' })).toBe('result-a');
+
+  await new Promise((resolve) => setTimeout(resolve, 150));
+
+  expect(await cache.get({ key: 'tool-a' })).toBe(null);
+});
+
+test('ConcurrentToolResultCache - set replaces the existing entry', async () => {
+  const cache = new ConcurrentToolResultCache();
+
+  await cache.set({ key: 'tool-a', content: 'result-a', ttlMs: 100 });
+  await cache.set({ key: 'tool-a', content: 'result-b', ttlMs: 5000 });
+
+  await new Promise((resolve) => setTimeout(resolve, 150));
+
+  expect(await cache.get({ key: 'tool-a' })).toBe('result-b');
+});
+
+test('ConcurrentToolResultCache - evicts the oldest entries when full', async () => {
+  const cache = new ConcurrentToolResultCache({ maxEntries: 2 });
+
+  await cache.set({ key: 'tool-a', content: 'result-a', ttlMs: 5000 });
+  await cache.set({ key: 'tool-b', content: 'result-b', ttlMs: 5000 });
+  await cache.set({ key: 'tool-c', content: 'result-c', ttlMs: 5000 });
+
+  expect(await cache.get({ key: 'tool-a' })).toBe(null);
+  expect(await cache.get({ key: 'tool-b' })).toBe('result-b');
+  expect(await cache.get({ key: 'tool-c' })).toBe('result-c');
+});
+
+test('ConcurrentToolResultCache - prune removes the expired entries', async () => {
+  const cache = new ConcurrentToolResultCache({ maxEntries: 2 });
+
+  await cache.set({ key: 'tool-a', content: 'result-a', ttlMs: 100 });
+  await cache.set({ key: 'tool-b', content: 'result-b', ttlMs: 5000 });
+
+  await new Promise((resolve) => setTimeout(resolve, 150));
+
+  expect(cache.prune()).toBe(1);
+  await cache.set({ key: 'tool-c', content: 'result-c', ttlMs: 5000 });
+  expect(await cache.get({ key: 'tool-b' })).toBe('result-b');
+  expect(await cache.get({ key: 'tool-c' })).toBe('result-c');
+});
@@ -16,3 +16,21 @@ export type {
 } from './memory/factory/type';
 export type { PostgressConnectionConfig } from './memory/types';
 export { PostgressMachineMemoryV1 } from './memory/v1';
+export { PostgresToolResultCache } from './toolResultCache';
+export {
+  connectPostgresToolResultCache,
+  releasePostgresToolResultCache,
+} from './toolResultCache/factory';
+export type {
+  ConnectPostgresToolResultCacheParam,
+  PostgresToolResultCacheParam,
+} from './toolResultCache/types';
+export { PostgresToolResultStore } from './toolResultStore';
+export {
+  connectPostgresToolResultStore,
+  releasePostgresToolResultStore,
+} from './toolResultStore/factory';
+export type {
+  ConnectPostgresToolResultStoreParam,
+  PostgresToolResultStoreParam,
+} from './toolResultStore/types';
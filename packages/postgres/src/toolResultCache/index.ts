@@ -0,0 +1,92 @@
+import type { PoolClient } from 'pg';
+import format from 'pg-format';
+import { PostgresToolResultTable, type ToolResultTableCallConfig } from '../toolResultTable';
+import { toolResultCacheTableSchema } from './schema';
+import type { PostgresToolResultCacheParam } from './types';
+
+/**
+ * PostgreSQL-backed tool result cache for `@arvo-tools/agentic` agents.
+ *
+ * Structurally implements the agentic `IToolResultCache` interface. The results of cacheable
+ * tools are stored in a single table, keyed by the cache key generated by the agent, along
+ * with their expiry. Expired entries are never returned, so the cache is shared safely by
+ * all the agent instances connected to the same database.
+ *
+ * - Optional removal of the expired entries on every write
+ * - Optional OpenTelemetry instrumentation for observability
+ */
+export class PostgresToolResultCache extends PostgresToolResultTable {
+  constructor(param: PostgresToolResultCacheParam) {
+    super(param, toolResultCacheTableSchema);
+  }
+
+  /** Deletes the expired entries of the table and returns their number. */
+  private async deleteExpired(client: PoolClient): Promise<number> {
+    const result = await client.query(
+      format('DELETE FROM %I WHERE expires_at <= CURRENT_TIMESTAMP', this.table),
+    );
+    return result.rowCount ?? 0;
+  }
+
+  async get(param: { key: string }, config?: ToolResultTableCallConfig): Promise<string | null> {
+    return await this.query({
+      name: 'PostgresToolResultCache.get',
+      config,
+      attributes: { key: param.key },
+      fn: async (client, span) => {
+        const result = await client.query(
+          format(
+            'SELECT content FROM %I WHERE key = $1 AND expires_at > CURRENT_TIMESTAMP',
+            this.table,
+          ),
+          [param.key],
+        );
+        span?.setAttribute('hit', result.rows.length ? 1 : 0);
+        return result.rows.length ? (result.rows[0].content as string) : null;
+      },
+    });
+  }
+
+  async set(
+    param: { key: string; content: string; ttlMs: number },
+    config?: ToolResultTableCallConfig,
+  ): Promise<void> {
+    return await this.query({
+      name: 'PostgresToolResultCache.set',
+      config,
+      attributes: { key: param.key, ttl_ms: param.ttlMs, length: param.content.length },
+      fn: async (client) => {
+        await client.query(
+          format(
+            `INSERT INTO %I (key, content, expires_at)
+             VALUES ($1, $2, CURRENT_TIMESTAMP + $3::double precision * INTERVAL '1 millisecond')
+             ON CONFLICT (key) DO UPDATE SET content = EXCLUDED.content, expires_at = EXCLUDED.expires_at`,
+            this.table,
+          ),
+          [param.key, param.content, param.ttlMs],
+        );
+        if (this.enableCleanup) {
+          await this.deleteExpired(client);
+        }
+      },
+    });
+  }
+
+  /**
+   * Deletes the expired entries of the table.
+   *
+   * @returns The number of deleted entries
+   */
+  async prune(config?: ToolResultTableCallConfig): Promise<number> {
+    return await this.query({
+      name: 'PostgresToolResultCache.prune',
+      config,
+      attributes: {},
+      fn: async (client, span) => {
+        const deleted = await this.deleteExpired(client);
+        span?.setAttribute('deleted', deleted);
+        return deleted;
+      },
+    });
+  }
+}
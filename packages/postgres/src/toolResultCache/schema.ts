@@ -0,0 +1,31 @@
+import { cleanString } from 'arvo-core';
+import z from 'zod';
+import type { ToolResultTableSchema } from '../toolResultTable/schema';
+
+export const toolResultCacheTableSchema: ToolResultTableSchema = {
+  structure: cleanString(`
+    key TEXT PRIMARY KEY,
+    content TEXT NOT NULL,
+    expires_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  `),
+  schema: z.object({
+    key: z.object({
+      data_type: z.literal('text'),
+      is_nullable: z.literal('NO'),
+    }),
+    content: z.object({
+      data_type: z.literal('text'),
+      is_nullable: z.literal('NO'),
+    }),
+    expires_at: z.object({
+      data_type: z.literal('timestamp without time zone'),
+      is_nullable: z.literal('NO'),
+    }),
+    created_at: z.object({
+      data_type: z.literal('timestamp without time zone'),
+      is_nullable: z.literal('YES'),
+    }),
+  }),
+  indexes: ['expires_at'],
+};
@@ -0,0 +1,89 @@
+import format from 'pg-format';
+import { PostgresToolResultTable, type ToolResultTableCallConfig } from '../toolResultTable';
+import { toolResultStoreTableSchema } from './schema';
+import type { PostgresToolResultStoreParam } from './types';
+
+/**
+ * PostgreSQL-backed tool result store for `@arvo-tools/agentic` agents.
+ *
+ * Structurally implements the agentic `IToolResultStore` interface. Oversized tool results
+ * are stored in a single table as plain text, keyed by the id generated by the agent, and
+ * read back in character ranges. The ranges and lengths count UTF-16 code units, like the
+ * offsets of the agent, so they are cut from the content in JavaScript rather than by SQL,
+ * whose `substring` and `length` count code points.
+ *
+ * - Optional cleanup of the results of a completed workflow (by subject)
+ * - Optional OpenTelemetry instrumentation for observability
+ */
+export class PostgresToolResultStore extends PostgresToolResultTable {
+  constructor(param: PostgresToolResultStoreParam) {
+    super(param, toolResultStoreTableSchema);
+  }
+
+  async put(
+    param: { id: string; subject: string; content: string },
+    config?: ToolResultTableCallConfig,
+  ): Promise<void> {
+    return await this.query({
+      name: 'PostgresToolResultStore.put',
+      config,
+      attributes: { id: param.id, subject: param.subject, length: param.content.length },
+      fn: async (client) => {
+        await client.query(
+          format(
+            `INSERT INTO %I (id, subject, content) VALUES ($1, $2, $3)
+             ON CONFLICT (id) DO UPDATE SET content = EXCLUDED.content`,
+            this.table,
+          ),
+          [param.id, param.subject, param.content],
+        );
+      },
+    });
+  }
+
+  async get(
+    param: { id: string; subject: string; offset: number; limit: number },
+    config?: ToolResultTableCallConfig,
+  ): Promise<{ content: string; totalLength: number } | null> {
+    return await this.query({
+      name: 'PostgresToolResultStore.get',
+      config,
+      attributes: {
+        id: param.id,
+        subject: param.subject,
+        offset: param.offset,
+        limit: param.limit,
+      },
+      fn: async (client, span) => {
+        const result = await client.query(
+          format('SELECT content FROM %I WHERE id = $1 AND subject = $2', this.table),
+          [param.id, param.subject],
+        );
+        if (!result.rows.length) {
+          span?.setAttribute('available', 0);
+          return null;
+        }
+        span?.setAttribute('available', 1);
+        const content: string = result.rows[0].content ?? '';
+        return {
+          content: content.slice(param.offset, param.offset + param.limit),
+          totalLength: content.length,
+        };
+      },
+    });
+  }
+
+  async cleanup(param: { subject: string }, config?: ToolResultTableCallConfig): Promise<void> {
+    if (!this.enableCleanup) return;
+    return await this.query({
+      name: 'PostgresToolResultStore.cleanup',
+      config,
+      attributes: { subject: param.subject },
+      fn: async (client) => {
+        await client.query(format('DELETE FROM %I WHERE subject = $1', this.table), [
+          param.subject,
+        ]);
+      },
+    });
+  }
+}
@@ -0,0 +1,31 @@
+import { cleanString } from 'arvo-core';
+import z from 'zod';
+import type { ToolResultTableSchema } from '../toolResultTable/schema';
+
+export const toolResultStoreTableSchema: ToolResultTableSchema = {
+  structure: cleanString(`
+    id VARCHAR(255) PRIMARY KEY,
+    subject VARCHAR(255) NOT NULL,
+    content TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  `),
+  schema: z.object({
+    id: z.object({
+      data_type: z.literal('character varying'),
+      is_nullable: z.literal('NO'),
+    }),
+    subject: z.object({
+      data_type: z.literal('character varying'),
+      is_nullable: z.literal('NO'),
+    }),
+    content: z.object({
+      data_type: z.literal('text'),
+      is_nullable: z.literal('NO'),
+    }),
+    created_at: z.object({
+      data_type: z.literal('timestamp without time zone'),
+      is_nullable: z.literal('YES'),
+    }),
+  }),
+  indexes: ['subject'],
+};
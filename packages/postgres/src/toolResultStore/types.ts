@@ -0,0 +1,42 @@
+import type { PostgressConnectionConfig } from '../memory/types';
+
+/**
+ * Configuration parameters for the PostgreSQL tool result store.
+ */
+export type PostgresToolResultStoreParam = {
+  /**
+   * Name of the PostgreSQL table holding the offloaded tool results.
+   * The table must exist in the database and conform to the expected schema.
+   */
+  table: string;
+  /**
+   * Optional PostgreSQL connection and behavioral configuration.
+   * If not provided, defaults will be used for all settings. The `lockConfig` is
+   * not used by the tool result store.
+   */
+  config?: PostgressConnectionConfig;
+};
+
+/**
+ * Configuration parameters for connecting a PostgreSQL-backed tool result store.
+ */
+export type ConnectPostgresToolResultStoreParam = {
+  /**
+   * Name of the PostgreSQL table holding the offloaded tool results.
+   *
+   * @default 'arvopg_tool_results'
+   */
+  table?: string;
+  /** PostgreSQL connection and behavioral configuration */
+  config: NonNullable<PostgresToolResultStoreParam['config']>;
+  /**
+   * Database migration strategy when connecting to the PostgreSQL tool result store.
+   *
+   * - `'if_tables_dont_exist'`: Creates the table if it doesn't exist. Safe for production use.
+   * - `'dangerousely_force_migration'`: Drops and recreates the table, destroying existing data. **DANGEROUS** - use only in development/testing.
+   * - [DEFAULT] `'noop'`: No migration performed. The table must already exist with correct schema or connection will fail during validation.
+   *
+   * @default 'noop'
+   */
+  migrate?: 'if_tables_dont_exist' | 'dangerousely_force_migration' | 'noop';
+};
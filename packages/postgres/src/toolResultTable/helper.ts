@@ -0,0 +1,45 @@
+import { Client } from 'pg';
+import format from 'pg-format';
+import type { PostgressConnectionConfig } from '../memory/types';
+import type { ToolResultTableSchema } from './schema';
+
+export const toConnectionString = (config: PostgressConnectionConfig): string =>
+  'connectionString' in config
+    ? config.connectionString
+    : `postgresql://${config.user ?? 'postgres'}:${config.password ?? 'postgres'}@${config.host ?? 'localhost'}:${config.port ?? 5432}/${config.database ?? 'postgres'}`;
+
+export async function createToolResultTable(
+  connectionString: string,
+  config: {
+    table: string;
+    schema: ToolResultTableSchema;
+    dropIfExist?: boolean;
+  },
+): Promise<void> {
+  const client = new Client({ connectionString });
+
+  await client.connect();
+
+  try {
+    if (config?.dropIfExist) {
+      await client.query(format('DROP TABLE IF EXISTS %I CASCADE;', config.table));
+    }
+
+    await client.query(
+      format('CREATE TABLE IF NOT EXISTS %I (%s)', config.table, config.schema.structure),
+    );
+
+    for (const column of config.schema.indexes) {
+      await client.query(
+        format(
+          'CREATE INDEX IF NOT EXISTS %I ON %I (%I)',
+          `${config.table}_${column}_idx`,
+          config.table,
+          column,
+        ),
+      );
+    }
+  } finally {
+    await client.end();
+  }
+}
@@ -0,0 +1,137 @@
+import { type Span, SpanStatusCode } from '@opentelemetry/api';
+import { ArvoOpenTelemetry, type OpenTelemetryHeaders } from 'arvo-core';
+import { Pool, type PoolClient, type PoolConfig } from 'pg';
+import type { PostgressConnectionConfig } from '../memory/types';
+import { type ToolResultTableSchema, validateToolResultTable } from './schema';
+
+/**
+ * Observability context handed over by the agent. Only the trace headers are
+ * used, to parent the spans under the agent's trace.
+ */
+export type ToolResultTableCallConfig = {
+  otelInfo?: { headers: OpenTelemetryHeaders };
+};
+
+/**
+ * The connection pool, table validation and instrumentation shared by the
+ * PostgreSQL tool result cache and store, which each own a single table.
+ */
+export abstract class PostgresToolResultTable {
+  protected readonly table: string;
+  protected readonly enableCleanup: boolean;
+  private readonly enableOtel: boolean;
+  private readonly pool: Pool;
+  private readonly tableSchema: ToolResultTableSchema;
+
+  constructor(
+    param: { table: string; config?: PostgressConnectionConfig },
+    tableSchema: ToolResultTableSchema,
+  ) {
+    this.table = param.table;
+    this.tableSchema = tableSchema;
+    this.enableCleanup = param.config?.enableCleanup ?? false;
+    this.enableOtel = param.config?.enableOtel ?? false;
+    let poolConfig: PoolConfig;
+    if (param.config && 'connectionString' in param.config) {
+      poolConfig = {
+        connectionString: param.config.connectionString,
+        max: param.config.max ?? 10,
+        idleTimeoutMillis: param.config.idleTimeoutMillis ?? 30000,
+        connectionTimeoutMillis: param.config.connectionTimeoutMillis ?? 5000,
+        statement_timeout: param.config.statementTimeoutMillis ?? 30000,
+        query_timeout: param.config.queryTimeoutMillis ?? 30000,
+      };
+    } else {
+      const cfg = param.config;
+      poolConfig = {
+        host: cfg?.host ?? 'localhost',
+        port: cfg?.port ?? 5432,
+        user: cfg?.user ?? 'postgres',
+        password: cfg?.password ?? 'postgres',
+        database: cfg?.database ?? 'postgres',
+        max: cfg?.max ?? 10,
+        idleTimeoutMillis: cfg?.idleTimeoutMillis ?? 30000,
+        connectionTimeoutMillis: cfg?.connectionTimeoutMillis ?? 5000,
+        statement_timeout: cfg?.statementTimeoutMillis ?? 30000,
+        query_timeout: cfg?.queryTimeoutMillis ?? 30000,
+      };
+    }
+    this.pool = new Pool(poolConfig);
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  async validateTableStructure(): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await validateToolResultTable(client, this.table, this.tableSchema);
+    } finally {
+      client.release();
+    }
+  }
+
+  async otel<R>({
+    name,
+    config,
+    fn,
+  }: {
+    name: string;
+    config?: ToolResultTableCallConfig;
+    fn: (span?: Span) => Promise<R>;
+  }) {
+    if (!this.enableOtel) {
+      return await fn();
+    }
+    return await ArvoOpenTelemetry.getInstance().startActiveSpan({
+      name: name,
+      disableSpanManagement: true,
+      context: config?.otelInfo?.headers.traceparent
+        ? {
+            inheritFrom: 'TRACE_HEADERS',
+            traceHeaders: config.otelInfo.headers,
+          }
+        : undefined,
+      fn,
+    });
+  }
+
+  /**
+   * Runs an operation on a pooled client within its span. The span carries the given
+   * attributes and records the failure of the operation.
+   */
+  protected async query<R>({
+    name,
+    config,
+    attributes,
+    fn,
+  }: {
+    name: string;
+    config?: ToolResultTableCallConfig;
+    attributes: Record<string, string | number>;
+    fn: (client: PoolClient, span?: Span) => Promise<R>;
+  }): Promise<R> {
+    return await this.otel({
+      name,
+      config,
+      fn: async (span) => {
+        span?.setStatus({ code: SpanStatusCode.OK });
+        span?.setAttributes(attributes);
+        const client = await this.pool.connect();
+        try {
+          return await fn(client, span);
+        } catch (error) {
+          span?.setStatus({
+            code: SpanStatusCode.ERROR,
+            message: (error as Error).message,
+          });
+          throw error;
+        } finally {
+          client.release();
+          span?.end();
+        }
+      },
+    });
+  }
+}
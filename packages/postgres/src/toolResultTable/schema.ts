@@ -0,0 +1,65 @@
+import { cleanString } from 'arvo-core';
+import type { PoolClient } from 'pg';
+import type z from 'zod';
+
+/**
+ * The definition of a tool result table.
+ */
+export type ToolResultTableSchema = {
+  /** The column definitions, used to create the table and to report validation failures */
+  structure: string;
+  /** The expected data type and nullability of each column */
+  schema: z.AnyZodObject;
+  /** The columns indexed on creation */
+  indexes: string[];
+};
+
+export const validateToolResultTable = async (
+  client: PoolClient,
+  name: string,
+  tableSchema: ToolResultTableSchema,
+) => {
+  const query = `
+    SELECT column_name, data_type, is_nullable
+    FROM information_schema.columns
+    WHERE table_name = $1;
+  `;
+
+  const { rows } = await client.query(query, [name]);
+
+  if (rows.length === 0) {
+    throw new Error(
+      cleanString(`
+      Table '${name}' does not exist.
+
+      Expected structure:
+      ${tableSchema.structure}
+    `),
+    );
+  }
+
+  const columns = Object.fromEntries(
+    rows.map((row) => [
+      row.column_name,
+      {
+        data_type: row.data_type,
+        is_nullable: row.is_nullable,
+      },
+    ]),
+  );
+
+  const result = tableSchema.schema.safeParse(columns);
+  if (!result.success) {
+    throw new Error(
+      cleanString(`
+        Table '${name}' structure validation failed.
+
+        Expected structure:
+        ${tableSchema.structure}
+
+        Validation Error:
+        ${result.error.message}
+      `),
+    );
+  }
+};
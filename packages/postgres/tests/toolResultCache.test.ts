@@ -0,0 +1,91 @@
+import { Client } from 'pg';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { connectPostgresToolResultCache, releasePostgresToolResultCache } from '../src';
+
+const connectionString = process.env.ARVO_POSTGRES_CONNECTION_STRING ?? '';
+const testTable = 'tool_result_cache';
+
+describe.skipIf(!connectionString)('PostgresToolResultCache', () => {
+  beforeEach(async () => {
+    const cache = await connectPostgresToolResultCache({
+      table: testTable,
+      config: { connectionString },
+      migrate: 'dangerousely_force_migration',
+    });
+    await releasePostgresToolResultCache(cache);
+  });
+
+  it('should return the cached content within the TTL', async () => {
+    const cache = await connectPostgresToolResultCache({
+      table: testTable,
+      config: { connectionString },
+    });
+
+    expect(await cache.get({ key: 'tool-a' })).toBeNull();
+    await cache.set({ key: 'tool-a', content: 'result-a', ttlMs: 60000 });
+    expect(await cache.get({ key: 'tool-a' })).toBe('result-a');
+    expect(await cache.get({ key: 'tool-b' })).toBeNull();
+
+    await releasePostgresToolResultCache(cache);
+  });
+
+  it('should not return expired entries', async () => {
+    const cache = await connectPostgresToolResultCache({
+      table: testTable,
+      config: { connectionString },
+    });
+
+    await cache.set({ key: 'tool-a', content: 'result-a', ttlMs: 200 });
+    expect(await cache.get({ key: 'tool-a' })).toBe('result-a');
+
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    expect(await cache.get({ key: 'tool-a' })).toBeNull();
+
+    await releasePostgresToolResultCache(cache);
+  });
+
+  it('should replace the content and expiry when the same key is set again', async () => {
+    const cache = await connectPostgresToolResultCache({
+      table: testTable,
+      config: { connectionString },
+    });
+
+    await cache.set({ key: 'tool-a', content: 'first', ttlMs: 200 });
+    await cache.set({ key: 'tool-a', content: 'second', ttlMs: 60000 });
+
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    expect(await cache.get({ key: 'tool-a' })).toBe('second');
+
+    await releasePostgresToolResultCache(cache);
+  });
+
+  it('should delete the expired entries on prune', async () => {
+    const cache = await connectPostgresToolResultCache({
+      table: testTable,
+      config: { connectionString },
+    });
+
+    await cache.set({ key: 'tool-a', content: 'result-a', ttlMs: 200 });
+    await cache.set({ key: 'tool-b', content: 'result-b', ttlMs: 60000 });
+
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    expect(await cache.prune()).toBe(1);
+    expect(await cache.get({ key: 'tool-b' })).toBe('result-b');
+
+    await releasePostgresToolResultCache(cache);
+  });
+
+  it('should fail to connect when the table does not exist', async () => {
+    const client = new Client({ connectionString });
+    await client.connect();
+    await client.query(`DROP TABLE IF EXISTS ${testTable}`);
+    await client.end();
+
+    await expect(
+      connectPostgresToolResultCache({ table: testTable, config: { connectionString } }),
+    ).rejects.toThrow(`Table '${testTable}' does not exist`);
+  });
+});
@@ -0,0 +1,131 @@
+import { Client } from 'pg';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { connectPostgresToolResultStore, releasePostgresToolResultStore } from '../src';
+
+const connectionString = process.env.ARVO_POSTGRES_CONNECTION_STRING ?? '';
+const testTable = 'tool_result_store';
+
+describe.skipIf(!connectionString)('PostgresToolResultStore', () => {
+  beforeEach(async () => {
+    const store = await connectPostgresToolResultStore({
+      table: testTable,
+      config: { connectionString },
+      migrate: 'dangerousely_force_migration',
+    });
+    await releasePostgresToolResultStore(store);
+  });
+
+  it('should read stored content in character ranges', async () => {
+    const store = await connectPostgresToolResultStore({
+      table: testTable,
+      config: { connectionString },
+    });
+    const content = 'abcdefghijklmnopqrstuvwxyz'.repeat(100);
+
+    await store.put({ id: 'result-1', subject: 'test-subject', content });
+
+    expect(
+      await store.get({ id: 'result-1', subject: 'test-subject', offset: 0, limit: 10 }),
+    ).toEqual({
+      content: 'abcdefghij',
+      totalLength: content.length,
+    });
+    expect(
+      await store.get({ id: 'result-1', subject: 'test-subject', offset: 2595, limit: 100 }),
+    ).toEqual({
+      content: 'vwxyz',
+      totalLength: content.length,
+    });
+    expect(
+      await store.get({ id: 'unknown', subject: 'test-subject', offset: 0, limit: 10 }),
+    ).toBeNull();
+    expect(
+      await store.get({ id: 'result-1', subject: 'other-subject', offset: 0, limit: 10 }),
+    ).toBeNull();
+
+    await releasePostgresToolResultStore(store);
+  });
+
+  it('should count the character ranges in UTF-16 code units', async () => {
+    const store = await connectPostgresToolResultStore({
+      table: testTable,
+      config: { connectionString },
+    });
+    // Each emoji is one code point but two UTF-16 code units
+    const content = '😀😀abc';
+
+    await store.put({ id: 'result-1', subject: 'test-subject', content });
+
+    expect(
+      await store.get({ id: 'result-1', subject: 'test-subject', offset: 4, limit: 2 }),
+    ).toEqual({
+      content: 'ab',
+      totalLength: 7,
+    });
+    expect(
+      await store.get({ id: 'result-1', subject: 'test-subject', offset: 0, limit: 2 }),
+    ).toEqual({
+      content: '😀',
+      totalLength: 7,
+    });
+
+    await releasePostgresToolResultStore(store);
+  });
+
+  it('should overwrite the content when the same id is stored again', async () => {
+    const store = await connectPostgresToolResultStore({
+      table: testTable,
+      config: { connectionString },
+    });
+
+    await store.put({ id: 'result-1', subject: 'test-subject', content: 'first' });
+    await store.put({ id: 'result-1', subject: 'test-subject', content: 'second' });
+
+    expect(
+      await store.get({ id: 'result-1', subject: 'test-subject', offset: 0, limit: 100 }),
+    ).toEqual({
+      content: 'second',
+      totalLength: 6,
+    });
+
+    await releasePostgresToolResultStore(store);
+  });
+
+  it('should delete the results of a subject only when cleanup is enabled', async () => {
+    const disabled = await connectPostgresToolResultStore({
+      table: testTable,
+      config: { connectionString },
+    });
+    await disabled.put({ id: 'result-1', subject: 'subject-a', content: 'a' });
+    await disabled.put({ id: 'result-2', subject: 'subject-b', content: 'b' });
+    await disabled.cleanup({ subject: 'subject-a' });
+    expect(
+      await disabled.get({ id: 'result-1', subject: 'subject-a', offset: 0, limit: 1 }),
+    ).not.toBeNull();
+    await releasePostgresToolResultStore(disabled);
+
+    const enabled = await connectPostgresToolResultStore({
+      table: testTable,
+      config: { connectionString, enableCleanup: true },
+    });
+    await enabled.cleanup({ subject: 'subject-a' });
+    expect(
+      await enabled.get({ id: 'result-1', subject: 'subject-a', offset: 0, limit: 1 }),
+    ).toBeNull();
+    expect(
+      await enabled.get({ id: 'result-2', subject: 'subject-b', offset: 0, limit: 1 }),
+    ).not.toBeNull();
+    await releasePostgresToolResultStore(enabled);
+  });
+
+  it('should fail to connect when the table does not exist', async () => {
+    const client = new Client({ connectionString });
+    await client.connect();
+    await client.query(`DROP TABLE IF EXISTS ${testTable}`);
+    await client.end();
+
+    await expect(
+      connectPostgresToolResultStore({ table: testTable, config: { connectionString } }),
+    ).rejects.toThrow(`Table '${testTable}' does not exist`);
+  });
+});